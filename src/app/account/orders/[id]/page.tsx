@@ -0,0 +1,235 @@
+import { notFound, redirect } from "next/navigation";
+import Link from "next/link";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { getOrderById } from "@/services/order-service";
+import { getStoreSettings } from "@/services/settings-service";
+import { formatMoney } from "@/lib/currency";
+import { formatVariantOptions } from "@/lib/variants";
+import {
+  PAYMENT_STATUS_LABELS,
+  formatLineTax,
+  formatOrderNumber,
+  getOrderDiscountBreakdown,
+  getOrderTaxLabel,
+} from "@/lib/orders";
+import { isCancellable } from "@/lib/order-status";
+import { SHIPPING_METHOD_LABELS } from "@/lib/pricing-engine";
+import OrderStatusBadge from "@/components/orders/order-status-badge";
+import OrderStatusTimeline from "@/components/orders/order-status-timeline";
+import BuyAgainButton from "@/components/orders/buy-again-button";
+import CancelOrderButton from "@/components/orders/cancel-order-button";
+import OrderRefunds from "@/components/orders/order-refunds";
+import OrderAddresses from "@/components/orders/order-addresses";
+import type { Metadata } from "next";
+
+interface OrderDetailPageProps {
+  params: Promise<{ id: string }>;
+}
+
+export async function generateMetadata({
+  params,
+}: OrderDetailPageProps): Promise<Metadata> {
+  const { id } = await params;
+  return { title: `Order #${formatOrderNumber(id)}` };
+}
+
+/**
+ * Order Detail Page
+ *
+ * Maps to Neto's customer account order view:
+ * - Neto: /_myacct/ → order → "View Order"
+ * - NetoStore: /account/orders/[id]
+ *
+ * Everything shown is read from the stored order, so prices reflect what
+ * the customer paid even if the product has changed since.
+ */
+export default async function OrderDetailPage({
+  params,
+}: OrderDetailPageProps) {
+  const { id } = await params;
+
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect(`/login?redirect=${encodeURIComponent(`/account/orders/${id}`)}`);
+  }
+
+  const order = await getOrderById(id, user.id);
+
+  if (!order) {
+    notFound();
+  }
+
+  const { currency } = await getStoreSettings();
+  const { lineDiscounts, promoDiscount } = getOrderDiscountBreakdown(order);
+
+  return (
+    <div className="mx-auto max-w-4xl px-4 sm:px-6 lg:px-8 py-8">
+      {/* Breadcrumb */}
+      <nav className="text-sm text-text-muted mb-6">
+        <Link href="/account/orders" className="hover:text-primary-light">
+          My Orders
+        </Link>
+        <span className="mx-2">›</span>
+        <span className="text-text-primary">
+          #{formatOrderNumber(order.id)}
+        </span>
+      </nav>
+
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-8">
+        <div>
+          <div className="flex items-center gap-3">
+            <h1 className="text-2xl md:text-3xl font-bold text-text-primary">
+              Order #{formatOrderNumber(order.id)}
+            </h1>
+            <OrderStatusBadge status={order.status} />
+          </div>
+          <p className="text-sm text-text-muted mt-1">
+            Placed on{" "}
+            {new Date(order.created_at).toLocaleDateString("en-AU", {
+              year: "numeric",
+              month: "long",
+              day: "numeric",
+            })}
+          </p>
+        </div>
+        <div className="flex items-start gap-3">
+          {isCancellable(order.status) && (
+            <CancelOrderButton orderId={order.id} />
+          )}
+          <BuyAgainButton items={order.order_items} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-5 gap-8">
+        {/* Items & totals */}
+        <div className="lg:col-span-3 space-y-4">
+          <div className="glass rounded-xl p-6">
+            <h2 className="text-lg font-semibold text-text-primary mb-4">
+              Items
+            </h2>
+            <div className="divide-y divide-border/30">
+              {order.order_items.map((item) => (
+                <div key={item.id} className="py-3 flex justify-between gap-4">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-text-primary truncate">
+                      {item.product_name}
+                    </p>
+                    {item.variant_options && (
+                      <p className="text-xs text-text-secondary">
+                        {formatVariantOptions(item.variant_options)}
+                      </p>
+                    )}
+                    <p className="text-xs text-text-muted">
+                      {item.quantity} × {formatMoney(item.unit_price, currency)}
+                    </p>
+                  </div>
+                  <div className="text-right flex-shrink-0">
+                    <p className="text-sm font-bold text-text-primary">
+                      {formatMoney(item.line_total, currency)}
+                    </p>
+                    {item.discount_amount > 0 && (
+                      <p className="text-xs text-success">
+                        -{formatMoney(item.discount_amount, currency)}
+                      </p>
+                    )}
+                    <p className="text-xs text-text-muted">
+                      {formatLineTax(item, currency)}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="glass rounded-xl p-6 space-y-3 text-sm">
+            <h2 className="text-lg font-semibold text-text-primary">Summary</h2>
+            <div className="flex justify-between text-text-secondary">
+              <span>Subtotal</span>
+              <span>{formatMoney(order.subtotal, currency)}</span>
+            </div>
+            {lineDiscounts > 0 && (
+              <div className="flex justify-between text-success">
+                <span>Product & member discounts</span>
+                <span>-{formatMoney(lineDiscounts, currency)}</span>
+              </div>
+            )}
+            {promoDiscount > 0 && (
+              <div className="flex justify-between text-success">
+                <span>Promo code ({order.promo_code})</span>
+                <span>-{formatMoney(promoDiscount, currency)}</span>
+              </div>
+            )}
+            <div className="flex justify-between text-text-secondary">
+              <span>{getOrderTaxLabel(order)}</span>
+              <span>{formatMoney(order.tax_amount, currency)}</span>
+            </div>
+            <div className="flex justify-between text-text-secondary">
+              <span>
+                Shipping
+                {order.shipping_method &&
+                  ` (${SHIPPING_METHOD_LABELS[order.shipping_method]})`}
+              </span>
+              <span>
+                {order.shipping_cost === 0 ? (
+                  <span className="text-success font-medium">FREE</span>
+                ) : (
+                  formatMoney(order.shipping_cost, currency)
+                )}
+              </span>
+            </div>
+            <div className="border-t border-border/50 pt-3">
+              <div className="flex justify-between text-lg font-bold text-text-primary">
+                <span>Total</span>
+                <span>{formatMoney(order.total, currency)}</span>
+              </div>
+              <div className="flex justify-between text-text-muted mt-1">
+                <span>Payment</span>
+                <span>{PAYMENT_STATUS_LABELS[order.payment_status]}</span>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Status */}
+        <div className="lg:col-span-2 space-y-4">
+          <div className="glass rounded-xl p-6">
+            <h2 className="text-lg font-semibold text-text-primary mb-4">
+              Status
+            </h2>
+            <OrderStatusTimeline
+              order={order}
+              history={order.order_status_history}
+            />
+          </div>
+
+          <div className="glass rounded-xl p-6">
+            <h2 className="text-lg font-semibold text-text-primary mb-4">
+              Addresses
+            </h2>
+            <OrderAddresses
+              shippingAddress={order.shipping_address}
+              billingAddress={order.billing_address}
+            />
+          </div>
+
+          {order.refunds.length > 0 && (
+            <div className="glass rounded-xl p-6">
+              <h2 className="text-lg font-semibold text-text-primary mb-4">
+                Refunds
+              </h2>
+              <OrderRefunds
+                refunds={order.refunds}
+                items={order.order_items}
+                currency={currency}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
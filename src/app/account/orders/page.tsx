@@ -0,0 +1,102 @@
+import { redirect } from "next/navigation";
+import Link from "next/link";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { getOrdersByUser } from "@/services/order-service";
+import { getStoreSettings } from "@/services/settings-service";
+import { formatMoney } from "@/lib/currency";
+import { formatOrderNumber } from "@/lib/orders";
+import OrderStatusBadge from "@/components/orders/order-status-badge";
+import EmptyState from "@/components/ui/empty-state";
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "My Orders",
+};
+
+/**
+ * Order History Page
+ *
+ * Maps to Neto's customer account area:
+ * - Neto: /_myacct/ → "Your Orders"
+ * - NetoStore: /account/orders
+ */
+export default async function OrdersPage() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/login?redirect=/account/orders");
+  }
+
+  const [orders, { currency }] = await Promise.all([
+    getOrdersByUser(user.id),
+    getStoreSettings(),
+  ]);
+
+  return (
+    <div className="mx-auto max-w-4xl px-4 sm:px-6 lg:px-8 py-8">
+      <h1 className="text-2xl md:text-3xl font-bold text-text-primary mb-8">
+        My Orders
+      </h1>
+
+      {orders.length === 0 ? (
+        <EmptyState
+          title="No orders yet"
+          description="Orders you place will appear here."
+          action={
+            <Link
+              href="/"
+              className="px-6 py-2.5 rounded-xl bg-gradient-to-r from-primary to-primary-dark text-white text-sm font-medium hover:opacity-90 transition-opacity"
+            >
+              Browse Products
+            </Link>
+          }
+        />
+      ) : (
+        <div className="space-y-4">
+          {orders.map((order) => {
+            const itemCount = order.order_items.reduce(
+              (sum, item) => sum + item.quantity,
+              0,
+            );
+
+            return (
+              <Link
+                key={order.id}
+                href={`/account/orders/${order.id}`}
+                className="glass rounded-xl p-5 flex flex-col sm:flex-row sm:items-center gap-3 hover:bg-surface-light/50 transition-colors"
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-3">
+                    <span className="font-mono font-semibold text-primary-light">
+                      #{formatOrderNumber(order.id)}
+                    </span>
+                    <OrderStatusBadge status={order.status} />
+                  </div>
+                  <p className="text-xs text-text-muted mt-1">
+                    {new Date(order.created_at).toLocaleDateString("en-AU", {
+                      year: "numeric",
+                      month: "long",
+                      day: "numeric",
+                    })}{" "}
+                    · {itemCount} item{itemCount === 1 ? "" : "s"}
+                  </p>
+                  <p className="text-sm text-text-secondary mt-1 truncate">
+                    {order.order_items
+                      .map((item) => item.product_name)
+                      .join(", ")}
+                  </p>
+                </div>
+                <span className="text-lg font-bold text-text-primary">
+                  {formatMoney(order.total, currency)}
+                </span>
+              </Link>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
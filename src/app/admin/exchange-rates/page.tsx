@@ -0,0 +1,319 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useCurrency } from "@/components/providers/currency-provider";
+import { formatMoney, getCurrencyName, isCurrencyCode } from "@/lib/currency";
+import { apiFetch } from "@/lib/api-client";
+import type { ExchangeRate } from "@/types";
+
+interface ExchangeRateForm {
+  currency: string;
+  rate: number;
+}
+
+const emptyForm: ExchangeRateForm = { currency: "", rate: 1 };
+
+export default function AdminExchangeRatesPage() {
+  const { baseCurrency } = useCurrency();
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingRate, setEditingRate] = useState<ExchangeRate | null>(null);
+  const [form, setForm] = useState<ExchangeRateForm>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const fetchRates = useCallback(async () => {
+    setLoading(true);
+    try {
+      setRates(await apiFetch<ExchangeRate[]>("/api/admin/exchange-rates"));
+    } catch {
+      setError("Failed to load exchange rates");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRates();
+  }, [fetchRates]);
+
+  const handleEdit = (rate: ExchangeRate) => {
+    setEditingRate(rate);
+    setForm({ currency: rate.currency, rate: rate.rate });
+    setShowForm(true);
+    setError(null);
+    setSuccess(null);
+  };
+
+  const handleNew = () => {
+    setEditingRate(null);
+    setForm(emptyForm);
+    setShowForm(true);
+    setError(null);
+    setSuccess(null);
+  };
+
+  const handleCancel = () => {
+    setShowForm(false);
+    setEditingRate(null);
+    setForm(emptyForm);
+    setError(null);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      await apiFetch<ExchangeRate>("/api/admin/exchange-rates", {
+        method: "POST",
+        body: {
+          currency: form.currency.trim().toUpperCase(),
+          rate: form.rate,
+        },
+      });
+
+      setSuccess(
+        editingRate
+          ? "Exchange rate updated successfully!"
+          : "Currency added successfully!",
+      );
+      setShowForm(false);
+      setEditingRate(null);
+      setForm(emptyForm);
+      fetchRates();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rate: ExchangeRate) => {
+    if (!confirm(`Stop showing prices in ${rate.currency}?`)) return;
+
+    try {
+      await apiFetch("/api/admin/exchange-rates", {
+        method: "DELETE",
+        body: { currency: rate.currency },
+      });
+
+      setSuccess(`${rate.currency} removed successfully`);
+      fetchRates();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete");
+    }
+  };
+
+  const formCurrency = form.currency.trim().toUpperCase();
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-xl font-bold text-text-primary">
+            Exchange Rates
+          </h2>
+          <p className="text-sm text-text-muted mt-1">
+            Prices are charged in {baseCurrency}; other currencies are for
+            display only.
+          </p>
+        </div>
+        <button
+          onClick={handleNew}
+          className="h-10 px-5 rounded-xl bg-gradient-to-r from-primary to-primary-dark text-white text-sm font-medium hover:opacity-90 transition-opacity flex items-center gap-2"
+        >
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            fill="none"
+            viewBox="0 0 24 24"
+            strokeWidth={1.5}
+            stroke="currentColor"
+            className="h-4 w-4"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              d="M12 4.5v15m7.5-7.5h-15"
+            />
+          </svg>
+          Add Currency
+        </button>
+      </div>
+
+      {/* Messages */}
+      {error && (
+        <div className="mb-4 p-3 rounded-lg bg-danger/10 border border-danger/20 text-sm text-danger">
+          {error}
+        </div>
+      )}
+      {success && (
+        <div className="mb-4 p-3 rounded-lg bg-success/10 border border-success/20 text-sm text-success">
+          {success}
+        </div>
+      )}
+
+      {/* Form */}
+      {showForm && (
+        <div className="glass rounded-xl p-6 mb-6">
+          <h3 className="text-lg font-semibold text-text-primary mb-4">
+            {editingRate ? `Edit ${editingRate.currency} Rate` : "New Currency"}
+          </h3>
+
+          <form
+            onSubmit={handleSave}
+            className="grid grid-cols-1 md:grid-cols-2 gap-4"
+          >
+            <div>
+              <label className="block text-xs font-medium text-text-secondary mb-1">
+                Currency Code *
+              </label>
+              <input
+                type="text"
+                value={form.currency}
+                onChange={(e) =>
+                  setForm({ ...form, currency: e.target.value.toUpperCase() })
+                }
+                maxLength={3}
+                placeholder="USD"
+                disabled={editingRate !== null}
+                required
+                className="w-full h-10 px-3 rounded-lg bg-surface border border-border/50 text-sm text-text-primary font-mono focus:outline-none focus:ring-2 focus:ring-primary/50 disabled:opacity-50"
+              />
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-text-secondary mb-1">
+                Rate (per 1 {baseCurrency}) *
+              </label>
+              <input
+                type="number"
+                step="0.000001"
+                min="0.000001"
+                value={form.rate}
+                onChange={(e) =>
+                  setForm({ ...form, rate: parseFloat(e.target.value) || 0 })
+                }
+                required
+                className="w-full h-10 px-3 rounded-lg bg-surface border border-border/50 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary/50"
+              />
+            </div>
+
+            {isCurrencyCode(formCurrency) && form.rate > 0 && (
+              <p className="md:col-span-2 text-sm text-text-muted">
+                {getCurrencyName(formCurrency)}:{" "}
+                {formatMoney(100, baseCurrency)} ={" "}
+                {formatMoney(100 * form.rate, formCurrency)}
+              </p>
+            )}
+
+            <div className="md:col-span-2 flex items-center gap-3 pt-2">
+              <button
+                type="submit"
+                disabled={saving}
+                className="h-10 px-6 rounded-lg bg-primary text-white text-sm font-medium hover:bg-primary-dark disabled:opacity-50 transition-colors flex items-center gap-2"
+              >
+                {saving ? (
+                  <div className="h-4 w-4 animate-spin rounded-full border-2 border-white/30 border-t-white" />
+                ) : null}
+                {editingRate ? "Update Rate" : "Add Currency"}
+              </button>
+              <button
+                type="button"
+                onClick={handleCancel}
+                className="h-10 px-6 rounded-lg bg-surface-light text-text-secondary text-sm font-medium hover:bg-surface-lighter transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Exchange Rates Table */}
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="h-8 w-8 animate-spin rounded-full border-2 border-surface-lighter border-t-primary" />
+        </div>
+      ) : rates.length === 0 ? (
+        <div className="text-center py-12 text-text-muted">
+          <p>
+            No other currencies yet. Click &quot;Add Currency&quot; to add one.
+          </p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-border/50">
+                <th className="text-left py-3 px-4 text-xs font-semibold text-text-muted uppercase tracking-wider">
+                  Currency
+                </th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-text-muted uppercase tracking-wider">
+                  Name
+                </th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-text-muted uppercase tracking-wider">
+                  Rate
+                </th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-text-muted uppercase tracking-wider">
+                  {formatMoney(100, baseCurrency)} Is
+                </th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-text-muted uppercase tracking-wider">
+                  Updated
+                </th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-text-muted uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {rates.map((rate) => (
+                <tr
+                  key={rate.currency}
+                  className="border-b border-border/30 hover:bg-surface-light/50 transition-colors"
+                >
+                  <td className="py-3 px-4 font-mono font-semibold text-text-primary">
+                    {rate.currency}
+                  </td>
+                  <td className="py-3 px-4 text-text-secondary">
+                    {getCurrencyName(rate.currency)}
+                  </td>
+                  <td className="py-3 px-4 text-right text-text-secondary font-mono">
+                    {rate.rate}
+                  </td>
+                  <td className="py-3 px-4 text-right text-secondary font-medium">
+                    {formatMoney(100 * rate.rate, rate.currency)}
+                  </td>
+                  <td className="py-3 px-4 text-text-secondary">
+                    {new Date(rate.updated_at).toLocaleDateString("en-AU")}
+                  </td>
+                  <td className="py-3 px-4 text-right">
+                    <div className="flex items-center justify-end gap-2">
+                      <button
+                        onClick={() => handleEdit(rate)}
+                        className="h-7 px-3 rounded-md bg-primary/10 text-primary text-xs font-medium hover:bg-primary/20 transition-colors"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(rate)}
+                        className="h-7 px-3 rounded-md bg-danger/10 text-danger text-xs font-medium hover:bg-danger/20 transition-colors"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
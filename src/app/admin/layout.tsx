@@ -1,10 +1,15 @@
 import Link from "next/link";
+import { getCurrentUserWithRole } from "@/lib/auth";
+import { getAdminPathRoles, hasRole } from "@/lib/roles";
 
-export default function AdminLayout({
+export default async function AdminLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
+  const current = await getCurrentUserWithRole();
+  const role = current?.role ?? null;
+
   return (
     <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8 py-8">
       {/* Admin Header */}
@@ -30,6 +35,28 @@ export default function AdminLayout({
           >
             Products
           </Link>
+          <Link
+            href="/admin/orders"
+            className="h-9 px-4 inline-flex items-center rounded-lg bg-surface-light text-sm font-medium text-text-secondary hover:bg-surface-lighter transition-colors"
+          >
+            Orders
+          </Link>
+          {hasRole(role, getAdminPathRoles("/admin/promo-codes")) && (
+            <Link
+              href="/admin/promo-codes"
+              className="h-9 px-4 inline-flex items-center rounded-lg bg-surface-light text-sm font-medium text-text-secondary hover:bg-surface-lighter transition-colors"
+            >
+              Promo Codes
+            </Link>
+          )}
+          {hasRole(role, getAdminPathRoles("/admin/exchange-rates")) && (
+            <Link
+              href="/admin/exchange-rates"
+              className="h-9 px-4 inline-flex items-center rounded-lg bg-surface-light text-sm font-medium text-text-secondary hover:bg-surface-lighter transition-colors"
+            >
+              Exchange Rates
+            </Link>
+          )}
           <Link
             href="/"
             className="h-9 px-4 inline-flex items-center rounded-lg bg-surface-light text-sm font-medium text-text-secondary hover:bg-surface-lighter transition-colors"
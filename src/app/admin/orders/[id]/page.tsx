@@ -0,0 +1,465 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { getNextStatuses, isRefundable } from "@/lib/order-status";
+import {
+  ORDER_STATUS_LABELS,
+  PAYMENT_STATUS_LABELS,
+  formatLineTax,
+  formatOrderNumber,
+  getOrderTaxLabel,
+} from "@/lib/orders";
+import { getRemainingRefundLines } from "@/lib/refunds";
+import { apiFetch } from "@/lib/api-client";
+import { formatVariantOptions } from "@/lib/variants";
+import { SHIPPING_METHOD_LABELS } from "@/lib/pricing-engine";
+import OrderStatusBadge from "@/components/orders/order-status-badge";
+import OrderStatusTimeline from "@/components/orders/order-status-timeline";
+import OrderRefunds from "@/components/orders/order-refunds";
+import OrderAddresses from "@/components/orders/order-addresses";
+import { useCurrency } from "@/components/providers/currency-provider";
+import { formatMoney } from "@/lib/currency";
+import type { OrderStatus, OrderWithHistory, RefundLine } from "@/types";
+
+export default function AdminOrderDetailPage() {
+  const { baseCurrency } = useCurrency();
+  const { id } = useParams<{ id: string }>();
+  const [order, setOrder] = useState<OrderWithHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState<OrderStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [refundQuantities, setRefundQuantities] = useState<
+    Record<string, number>
+  >({});
+  const [refundShipping, setRefundShipping] = useState(false);
+  const [refundReason, setRefundReason] = useState("");
+  const [refunding, setRefunding] = useState(false);
+
+  const fetchOrder = useCallback(async () => {
+    setLoading(true);
+    try {
+      setOrder(await apiFetch<OrderWithHistory>(`/api/admin/orders/${id}`));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load order");
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchOrder();
+  }, [fetchOrder]);
+
+  const handleChangeStatus = async (status: OrderStatus) => {
+    if (
+      status === "cancelled" &&
+      !confirm(
+        `Cancel order #${formatOrderNumber(id)}? Stock will be returned and the order refunded in full.`,
+      )
+    ) {
+      return;
+    }
+
+    setSaving(status);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const updated = await apiFetch<OrderWithHistory>(
+        `/api/admin/orders/${id}`,
+        { method: "PATCH", body: { status, note: note || undefined } },
+      );
+
+      setOrder(updated);
+      setNote("");
+      setSuccess(`Order marked as ${ORDER_STATUS_LABELS[status]}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+      // The order may have moved on; show its current state
+      fetchOrder();
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleRefund = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const items: RefundLine[] = Object.entries(refundQuantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([order_item_id, quantity]) => ({ order_item_id, quantity }));
+
+    if (items.length === 0 && !refundShipping) {
+      setError("Choose items or shipping to refund");
+      return;
+    }
+
+    setRefunding(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const updated = await apiFetch<OrderWithHistory>(
+        `/api/admin/orders/${id}/refunds`,
+        {
+          method: "POST",
+          body: {
+            items,
+            include_shipping: refundShipping,
+            reason: refundReason || undefined,
+          },
+        },
+      );
+      setOrder(updated);
+      setRefundQuantities({});
+      setRefundShipping(false);
+      setRefundReason("");
+      setSuccess(
+        `Refunded ${formatMoney(updated.refunds[updated.refunds.length - 1].total, baseCurrency)}`,
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+      fetchOrder();
+    } finally {
+      setRefunding(false);
+    }
+  };
+
+  if (loading && !order) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="h-8 w-8 animate-spin rounded-full border-2 border-surface-lighter border-t-primary" />
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="text-center py-12 text-text-muted">
+        <p>{error ?? "Order not found"}</p>
+        <Link
+          href="/admin/orders"
+          className="text-sm text-primary-light hover:underline"
+        >
+          ← Back to orders
+        </Link>
+      </div>
+    );
+  }
+
+  const nextStatuses = getNextStatuses(order.status);
+  const remainingLines = getRemainingRefundLines(order, order.refunds);
+  const shippingRefundable =
+    order.shipping_cost > 0 &&
+    !order.refunds.some((refund) => refund.shipping_amount > 0);
+  const canRefund =
+    isRefundable(order.status) &&
+    (remainingLines.length > 0 || shippingRefundable);
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <Link
+            href="/admin/orders"
+            className="text-xs text-text-muted hover:text-text-primary"
+          >
+            ← All orders
+          </Link>
+          <div className="flex items-center gap-3 mt-1">
+            <h2 className="text-xl font-bold text-text-primary">
+              Order #{formatOrderNumber(order.id)}
+            </h2>
+            <OrderStatusBadge status={order.status} />
+          </div>
+          <p className="text-sm text-text-muted mt-1">
+            {order.customer_email ?? "Unknown customer"} · placed{" "}
+            {new Date(order.created_at).toLocaleString("en-AU")} ·{" "}
+            {PAYMENT_STATUS_LABELS[order.payment_status]}
+            {order.payment_provider && ` via ${order.payment_provider}`}
+          </p>
+        </div>
+      </div>
+
+      {/* Messages */}
+      {error && (
+        <div className="mb-4 p-3 rounded-lg bg-danger/10 border border-danger/20 text-sm text-danger">
+          {error}
+        </div>
+      )}
+      {success && (
+        <div className="mb-4 p-3 rounded-lg bg-success/10 border border-success/20 text-sm text-success">
+          {success}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Items & totals */}
+        <div className="lg:col-span-2 space-y-6">
+          <div className="glass rounded-xl p-6">
+            <h3 className="text-lg font-semibold text-text-primary mb-4">
+              Items
+            </h3>
+            <table className="w-full text-sm">
+              <tbody>
+                {order.order_items.map((item) => (
+                  <tr key={item.id} className="border-b border-border/30">
+                    <td className="py-2 pr-4">
+                      <p className="text-text-primary">{item.product_name}</p>
+                      {item.variant_options && (
+                        <p className="text-xs text-text-muted">
+                          {formatVariantOptions(item.variant_options)}
+                        </p>
+                      )}
+                    </td>
+                    <td className="py-2 px-4 text-right text-text-secondary">
+                      {item.quantity} ×{" "}
+                      {formatMoney(item.unit_price, baseCurrency)}
+                    </td>
+                    <td className="py-2 pl-4 text-right text-text-primary font-medium">
+                      {formatMoney(item.line_total, baseCurrency)}
+                      <p className="text-xs font-normal text-text-muted">
+                        {formatLineTax(item, baseCurrency)}
+                      </p>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="mt-4 space-y-1 text-sm">
+              <div className="flex justify-between text-text-secondary">
+                <span>Subtotal</span>
+                <span>{formatMoney(order.subtotal, baseCurrency)}</span>
+              </div>
+              {order.discount_total > 0 && (
+                <div className="flex justify-between text-success">
+                  <span>
+                    Discounts
+                    {order.promo_code ? ` (incl. ${order.promo_code})` : ""}
+                  </span>
+                  <span>
+                    -{formatMoney(order.discount_total, baseCurrency)}
+                  </span>
+                </div>
+              )}
+              <div className="flex justify-between text-text-secondary">
+                <span>{getOrderTaxLabel(order)}</span>
+                <span>{formatMoney(order.tax_amount, baseCurrency)}</span>
+              </div>
+              <div className="flex justify-between text-text-secondary">
+                <span>
+                  Shipping
+                  {order.shipping_method &&
+                    ` (${SHIPPING_METHOD_LABELS[order.shipping_method]})`}
+                </span>
+                <span>{formatMoney(order.shipping_cost, baseCurrency)}</span>
+              </div>
+              <div className="flex justify-between font-bold text-text-primary pt-1">
+                <span>Total</span>
+                <span>{formatMoney(order.total, baseCurrency)}</span>
+              </div>
+            </div>
+          </div>
+
+          {/* History */}
+          <div className="glass rounded-xl p-6">
+            <h3 className="text-lg font-semibold text-text-primary mb-4">
+              History
+            </h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border/50">
+                  <th className="text-left py-2 pr-4 text-xs font-semibold text-text-muted uppercase tracking-wider">
+                    When
+                  </th>
+                  <th className="text-left py-2 px-4 text-xs font-semibold text-text-muted uppercase tracking-wider">
+                    Change
+                  </th>
+                  <th className="text-left py-2 px-4 text-xs font-semibold text-text-muted uppercase tracking-wider">
+                    By
+                  </th>
+                  <th className="text-left py-2 pl-4 text-xs font-semibold text-text-muted uppercase tracking-wider">
+                    Note
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {order.order_status_history.map((change) => (
+                  <tr key={change.id} className="border-b border-border/30">
+                    <td className="py-2 pr-4 text-text-secondary whitespace-nowrap">
+                      {new Date(change.created_at).toLocaleString("en-AU")}
+                    </td>
+                    <td className="py-2 px-4 text-text-primary">
+                      {change.from_status
+                        ? `${ORDER_STATUS_LABELS[change.from_status]} → ${ORDER_STATUS_LABELS[change.to_status]}`
+                        : ORDER_STATUS_LABELS[change.to_status]}
+                    </td>
+                    <td className="py-2 px-4 text-text-secondary">
+                      {change.changed_by_email ?? "—"}
+                    </td>
+                    <td className="py-2 pl-4 text-text-muted">
+                      {change.note ?? ""}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Refunds */}
+          {order.refunds.length > 0 && (
+            <div className="glass rounded-xl p-6">
+              <h3 className="text-lg font-semibold text-text-primary mb-4">
+                Refunds
+              </h3>
+              <OrderRefunds
+                refunds={order.refunds}
+                items={order.order_items}
+                currency={baseCurrency}
+              />
+            </div>
+          )}
+        </div>
+
+        {/* Status */}
+        <div className="space-y-6">
+          <div className="glass rounded-xl p-6">
+            <h3 className="text-lg font-semibold text-text-primary mb-4">
+              Status
+            </h3>
+            <OrderStatusTimeline
+              order={order}
+              history={order.order_status_history}
+            />
+          </div>
+
+          <div className="glass rounded-xl p-6">
+            <h3 className="text-lg font-semibold text-text-primary mb-4">
+              Addresses
+            </h3>
+            <OrderAddresses
+              shippingAddress={order.shipping_address}
+              billingAddress={order.billing_address}
+            />
+          </div>
+
+          <div className="glass rounded-xl p-6">
+            <h3 className="text-lg font-semibold text-text-primary mb-4">
+              Update Status
+            </h3>
+            {nextStatuses.length === 0 ? (
+              <p className="text-sm text-text-muted">
+                This order is {ORDER_STATUS_LABELS[order.status].toLowerCase()}{" "}
+                — its status can no longer change.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                <textarea
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="Note (optional), e.g. tracking number"
+                  rows={2}
+                  className="w-full px-3 py-2 rounded-lg bg-surface border border-border/50 text-sm text-text-primary placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-primary/50"
+                />
+                <div className="flex flex-wrap gap-2">
+                  {nextStatuses.map((status) => (
+                    <button
+                      key={status}
+                      onClick={() => handleChangeStatus(status)}
+                      disabled={saving !== null}
+                      className={`h-9 px-4 rounded-lg text-sm font-medium disabled:opacity-50 transition-colors ${
+                        status === "cancelled"
+                          ? "bg-danger/10 text-danger hover:bg-danger/20"
+                          : "bg-primary text-white hover:bg-primary-dark"
+                      }`}
+                    >
+                      {saving === status
+                        ? "Saving..."
+                        : status === "cancelled"
+                          ? "Cancel Order"
+                          : `Mark ${ORDER_STATUS_LABELS[status]}`}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {canRefund && (
+            <form onSubmit={handleRefund} className="glass rounded-xl p-6">
+              <h3 className="text-lg font-semibold text-text-primary mb-4">
+                Refund
+              </h3>
+              <div className="space-y-3">
+                {remainingLines.map((line) => {
+                  const item = order.order_items.find(
+                    (orderItem) => orderItem.id === line.order_item_id,
+                  );
+                  return (
+                    <div
+                      key={line.order_item_id}
+                      className="flex items-center justify-between gap-3 text-sm"
+                    >
+                      <span className="text-text-secondary truncate">
+                        {item?.product_name}
+                      </span>
+                      <input
+                        type="number"
+                        min={0}
+                        max={line.quantity}
+                        value={refundQuantities[line.order_item_id] ?? 0}
+                        onChange={(e) =>
+                          setRefundQuantities({
+                            ...refundQuantities,
+                            [line.order_item_id]: Math.min(
+                              line.quantity,
+                              Math.max(0, parseInt(e.target.value) || 0),
+                            ),
+                          })
+                        }
+                        aria-label={`Units of ${item?.product_name} to refund (of ${line.quantity})`}
+                        className="w-20 h-9 px-2 rounded-lg bg-surface border border-border/50 text-sm text-text-primary text-right focus:outline-none focus:ring-2 focus:ring-primary/50"
+                      />
+                    </div>
+                  );
+                })}
+                {shippingRefundable && (
+                  <label className="flex items-center gap-2 text-sm text-text-secondary">
+                    <input
+                      type="checkbox"
+                      checked={refundShipping}
+                      onChange={(e) => setRefundShipping(e.target.checked)}
+                      className="rounded border-border"
+                    />
+                    Refund shipping (
+                    {formatMoney(order.shipping_cost, baseCurrency)})
+                  </label>
+                )}
+                <input
+                  type="text"
+                  value={refundReason}
+                  onChange={(e) => setRefundReason(e.target.value)}
+                  placeholder="Reason (optional)"
+                  className="w-full h-9 px-3 rounded-lg bg-surface border border-border/50 text-sm text-text-primary placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-primary/50"
+                />
+                <button
+                  type="submit"
+                  disabled={refunding}
+                  className="h-9 px-4 rounded-lg bg-danger/10 text-danger text-sm font-medium hover:bg-danger/20 disabled:opacity-50 transition-colors"
+                >
+                  {refunding ? "Refunding..." : "Issue Refund"}
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { ORDER_STATUSES } from "@/lib/order-status";
+import { ORDER_STATUS_LABELS, formatOrderNumber } from "@/lib/orders";
+import { apiFetch } from "@/lib/api-client";
+import OrderStatusBadge from "@/components/orders/order-status-badge";
+import { formatMoney } from "@/lib/currency";
+import { useCurrency } from "@/components/providers/currency-provider";
+import type { AdminOrderFilters, OrderStatus, OrderWithItems } from "@/types";
+
+const emptyFilters: AdminOrderFilters = {};
+
+export default function AdminOrdersPage() {
+  const { baseCurrency } = useCurrency();
+  const [orders, setOrders] = useState<OrderWithItems[]>([]);
+  const [filters, setFilters] = useState<AdminOrderFilters>(emptyFilters);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchOrders = useCallback(async (current: AdminOrderFilters) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      Object.entries(current).forEach(([key, value]) => {
+        if (value) params.set(key, value);
+      });
+
+      setOrders(
+        await apiFetch<OrderWithItems[]>(`/api/admin/orders?${params}`),
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load orders");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchOrders(emptyFilters);
+  }, [fetchOrders]);
+
+  const handleFilter = (e: React.FormEvent) => {
+    e.preventDefault();
+    fetchOrders(filters);
+  };
+
+  const handleReset = () => {
+    setFilters(emptyFilters);
+    fetchOrders(emptyFilters);
+  };
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-bold text-text-primary">Orders</h2>
+        <span className="text-sm text-text-muted">
+          {orders.length} order{orders.length === 1 ? "" : "s"}
+        </span>
+      </div>
+
+      {/* Filters */}
+      <form
+        onSubmit={handleFilter}
+        className="glass rounded-xl p-4 mb-6 grid grid-cols-1 md:grid-cols-5 gap-3 items-end"
+      >
+        <div>
+          <label className="block text-xs font-medium text-text-secondary mb-1">
+            Status
+          </label>
+          <select
+            value={filters.status ?? ""}
+            onChange={(e) =>
+              setFilters({
+                ...filters,
+                status: (e.target.value as OrderStatus) || undefined,
+              })
+            }
+            className="w-full h-10 px-3 rounded-lg bg-surface border border-border/50 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary/50"
+          >
+            <option value="">All statuses</option>
+            {ORDER_STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {ORDER_STATUS_LABELS[status]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-text-secondary mb-1">
+            From
+          </label>
+          <input
+            type="date"
+            value={filters.from ?? ""}
+            onChange={(e) =>
+              setFilters({ ...filters, from: e.target.value || undefined })
+            }
+            className="w-full h-10 px-3 rounded-lg bg-surface border border-border/50 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary/50"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-text-secondary mb-1">
+            To
+          </label>
+          <input
+            type="date"
+            value={filters.to ?? ""}
+            onChange={(e) =>
+              setFilters({ ...filters, to: e.target.value || undefined })
+            }
+            className="w-full h-10 px-3 rounded-lg bg-surface border border-border/50 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary/50"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-text-secondary mb-1">
+            Customer
+          </label>
+          <input
+            type="text"
+            value={filters.customer ?? ""}
+            onChange={(e) =>
+              setFilters({ ...filters, customer: e.target.value || undefined })
+            }
+            placeholder="Email contains…"
+            className="w-full h-10 px-3 rounded-lg bg-surface border border-border/50 text-sm text-text-primary placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-primary/50"
+          />
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            className="h-10 px-4 rounded-lg bg-primary text-white text-sm font-medium hover:bg-primary-dark transition-colors"
+          >
+            Filter
+          </button>
+          <button
+            type="button"
+            onClick={handleReset}
+            className="h-10 px-4 rounded-lg bg-surface-light text-text-secondary text-sm font-medium hover:bg-surface-lighter transition-colors"
+          >
+            Reset
+          </button>
+        </div>
+      </form>
+
+      {/* Messages */}
+      {error && (
+        <div className="mb-4 p-3 rounded-lg bg-danger/10 border border-danger/20 text-sm text-danger">
+          {error}
+        </div>
+      )}
+
+      {/* Orders Table */}
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="h-8 w-8 animate-spin rounded-full border-2 border-surface-lighter border-t-primary" />
+        </div>
+      ) : orders.length === 0 ? (
+        <div className="text-center py-12 text-text-muted">
+          <p>No orders match these filters.</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-border/50">
+                <th className="text-left py-3 px-4 text-xs font-semibold text-text-muted uppercase tracking-wider">
+                  Order
+                </th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-text-muted uppercase tracking-wider">
+                  Date
+                </th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-text-muted uppercase tracking-wider">
+                  Customer
+                </th>
+                <th className="text-center py-3 px-4 text-xs font-semibold text-text-muted uppercase tracking-wider">
+                  Items
+                </th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-text-muted uppercase tracking-wider">
+                  Total
+                </th>
+                <th className="text-center py-3 px-4 text-xs font-semibold text-text-muted uppercase tracking-wider">
+                  Status
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {orders.map((order) => (
+                <tr
+                  key={order.id}
+                  className="border-b border-border/30 hover:bg-surface-light/50 transition-colors"
+                >
+                  <td className="py-3 px-4">
+                    <Link
+                      href={`/admin/orders/${order.id}`}
+                      className="font-mono font-semibold text-primary-light hover:underline"
+                    >
+                      #{formatOrderNumber(order.id)}
+                    </Link>
+                  </td>
+                  <td className="py-3 px-4 text-text-secondary">
+                    {new Date(order.created_at).toLocaleDateString("en-AU")}
+                  </td>
+                  <td className="py-3 px-4 text-text-secondary">
+                    {order.customer_email ?? (
+                      <span className="text-text-muted">—</span>
+                    )}
+                  </td>
+                  <td className="py-3 px-4 text-center text-text-secondary">
+                    {order.order_items.reduce(
+                      (sum, item) => sum + item.quantity,
+                      0,
+                    )}
+                  </td>
+                  <td className="py-3 px-4 text-right font-medium text-text-primary">
+                    {formatMoney(order.total, baseCurrency)}
+                  </td>
+                  <td className="py-3 px-4 text-center">
+                    <OrderStatusBadge status={order.status} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
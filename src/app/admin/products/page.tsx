@@ -1,18 +1,15 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
-import type { Product, ProductFormData } from "@/types";
+import type { Product, ProductFormData, TaxClass } from "@/types";
+import type { FieldErrors } from "@/lib/validation";
+import { apiFetch, ApiError } from "@/lib/api-client";
+import { TAX_CLASS_LABELS } from "@/lib/pricing-engine";
+import { formatMoney } from "@/lib/currency";
+import { slugify } from "@/lib/schemas";
+import { useCurrency } from "@/components/providers/currency-provider";
 import Image from "next/image";
 
-function generateSlug(name: string): string {
-  return name
-    .toLowerCase()
-    .replace(/[^a-z0-9\s-]/g, "")
-    .replace(/\s+/g, "-")
-    .replace(/-+/g, "-")
-    .trim();
-}
-
 const emptyForm: ProductFormData = {
   name: "",
   slug: "",
@@ -22,9 +19,12 @@ const emptyForm: ProductFormData = {
   stock: 0,
   category: "electronics",
   image_url: "",
+  weight_kg: 0,
+  tax_class: null,
 };
 
 export default function AdminProductsPage() {
+  const { baseCurrency } = useCurrency();
   const [products, setProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
@@ -32,16 +32,13 @@ export default function AdminProductsPage() {
   const [form, setForm] = useState<ProductFormData>(emptyForm);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
   const [success, setSuccess] = useState<string | null>(null);
 
   const fetchProducts = useCallback(async () => {
     setLoading(true);
     try {
-      const res = await fetch("/api/products?limit=50");
-      if (res.ok) {
-        const data = await res.json();
-        setProducts(data.data || []);
-      }
+      setProducts(await apiFetch<Product[]>("/api/products?limit=50"));
     } catch {
       setError("Failed to load products");
     } finally {
@@ -64,9 +61,12 @@ export default function AdminProductsPage() {
       stock: product.stock,
       category: product.category,
       image_url: product.image_url,
+      weight_kg: product.weight_kg,
+      tax_class: product.tax_class,
     });
     setShowForm(true);
     setError(null);
+    setFieldErrors({});
     setSuccess(null);
   };
 
@@ -75,6 +75,7 @@ export default function AdminProductsPage() {
     setForm(emptyForm);
     setShowForm(true);
     setError(null);
+    setFieldErrors({});
     setSuccess(null);
   };
 
@@ -83,44 +84,36 @@ export default function AdminProductsPage() {
     setEditingProduct(null);
     setForm(emptyForm);
     setError(null);
+    setFieldErrors({});
   };
 
   const handleSave = async (e: React.FormEvent) => {
     e.preventDefault();
     setSaving(true);
     setError(null);
+    setFieldErrors({});
     setSuccess(null);
 
     try {
       const payload = {
         ...form,
-        slug: form.slug || generateSlug(form.name),
+        slug: form.slug || slugify(form.name),
         discount_percentage:
           form.discount_percentage === 0 ? null : form.discount_percentage,
       };
 
-      let res: Response;
-
       if (editingProduct) {
-        // Update via service — for admin we call a simulated endpoint
-        res = await fetch(`/api/admin/products`, {
+        await apiFetch<Product>("/api/admin/products", {
           method: "PATCH",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ id: editingProduct.id, ...payload }),
+          body: { id: editingProduct.id, ...payload },
         });
       } else {
-        res = await fetch(`/api/admin/products`, {
+        await apiFetch<Product>("/api/admin/products", {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(payload),
+          body: payload,
         });
       }
 
-      if (!res.ok) {
-        const data = await res.json();
-        throw new Error(data.error || "Failed to save product");
-      }
-
       setSuccess(
         editingProduct
           ? "Product updated successfully!"
@@ -131,6 +124,7 @@ export default function AdminProductsPage() {
       setForm(emptyForm);
       fetchProducts();
     } catch (err) {
+      if (err instanceof ApiError) setFieldErrors(err.fields);
       setError(err instanceof Error ? err.message : "Something went wrong");
     } finally {
       setSaving(false);
@@ -142,17 +136,11 @@ export default function AdminProductsPage() {
       return;
 
     try {
-      const res = await fetch(`/api/admin/products`, {
+      await apiFetch("/api/admin/products", {
         method: "DELETE",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ id: product.id }),
+        body: { id: product.id },
       });
 
-      if (!res.ok) {
-        const data = await res.json();
-        throw new Error(data.error || "Failed to delete");
-      }
-
       setSuccess(`"${product.name}" deleted successfully`);
       fetchProducts();
     } catch (err) {
@@ -162,20 +150,24 @@ export default function AdminProductsPage() {
 
   const handleUpdateStock = async (product: Product, newStock: number) => {
     try {
-      const res = await fetch(`/api/admin/products`, {
+      await apiFetch<Product>("/api/admin/products", {
         method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ id: product.id, stock: newStock }),
+        body: { id: product.id, stock: newStock },
       });
-
-      if (res.ok) {
-        fetchProducts();
-      }
+      fetchProducts();
     } catch {
       // ignore
     }
   };
 
+  const border = (name: keyof ProductFormData) =>
+    fieldErrors[name] ? "border-danger/60" : "border-border/50";
+
+  const fieldError = (name: keyof ProductFormData) =>
+    fieldErrors[name] && (
+      <p className="text-xs text-danger mt-1">{fieldErrors[name]}</p>
+    );
+
   return (
     <div>
       {/* Header */}
@@ -239,12 +231,13 @@ export default function AdminProductsPage() {
                   setForm({
                     ...form,
                     name: e.target.value,
-                    slug: generateSlug(e.target.value),
+                    slug: slugify(e.target.value),
                   })
                 }
                 required
-                className="w-full h-10 px-3 rounded-lg bg-surface border border-border/50 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary/50"
+                className={`w-full h-10 px-3 rounded-lg bg-surface border ${border("name")} text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary/50`}
               />
+              {fieldError("name")}
             </div>
 
             <div>
@@ -255,8 +248,9 @@ export default function AdminProductsPage() {
                 type="text"
                 value={form.slug}
                 onChange={(e) => setForm({ ...form, slug: e.target.value })}
-                className="w-full h-10 px-3 rounded-lg bg-surface border border-border/50 text-sm text-text-muted focus:outline-none focus:ring-2 focus:ring-primary/50"
+                className={`w-full h-10 px-3 rounded-lg bg-surface border ${border("slug")} text-sm text-text-muted focus:outline-none focus:ring-2 focus:ring-primary/50`}
               />
+              {fieldError("slug")}
             </div>
 
             <div className="md:col-span-2">
@@ -270,8 +264,9 @@ export default function AdminProductsPage() {
                 }
                 required
                 rows={3}
-                className="w-full px-3 py-2 rounded-lg bg-surface border border-border/50 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary/50 resize-none"
+                className={`w-full px-3 py-2 rounded-lg bg-surface border ${border("description")} text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary/50 resize-none`}
               />
+              {fieldError("description")}
             </div>
 
             <div>
@@ -287,8 +282,9 @@ export default function AdminProductsPage() {
                   setForm({ ...form, price: parseFloat(e.target.value) || 0 })
                 }
                 required
-                className="w-full h-10 px-3 rounded-lg bg-surface border border-border/50 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary/50"
+                className={`w-full h-10 px-3 rounded-lg bg-surface border ${border("price")} text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary/50`}
               />
+              {fieldError("price")}
             </div>
 
             <div>
@@ -310,8 +306,9 @@ export default function AdminProductsPage() {
                   })
                 }
                 placeholder="No discount"
-                className="w-full h-10 px-3 rounded-lg bg-surface border border-border/50 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary/50"
+                className={`w-full h-10 px-3 rounded-lg bg-surface border ${border("discount_percentage")} text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary/50`}
               />
+              {fieldError("discount_percentage")}
             </div>
 
             <div>
@@ -326,8 +323,29 @@ export default function AdminProductsPage() {
                   setForm({ ...form, stock: parseInt(e.target.value) || 0 })
                 }
                 required
-                className="w-full h-10 px-3 rounded-lg bg-surface border border-border/50 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary/50"
+                className={`w-full h-10 px-3 rounded-lg bg-surface border ${border("stock")} text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary/50`}
+              />
+              {fieldError("stock")}
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-text-secondary mb-1">
+                Weight (kg)
+              </label>
+              <input
+                type="number"
+                step="0.001"
+                min="0"
+                value={form.weight_kg}
+                onChange={(e) =>
+                  setForm({
+                    ...form,
+                    weight_kg: parseFloat(e.target.value) || 0,
+                  })
+                }
+                className={`w-full h-10 px-3 rounded-lg bg-surface border ${border("weight_kg")} text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary/50`}
               />
+              {fieldError("weight_kg")}
             </div>
 
             <div>
@@ -337,12 +355,37 @@ export default function AdminProductsPage() {
               <select
                 value={form.category}
                 onChange={(e) => setForm({ ...form, category: e.target.value })}
-                className="w-full h-10 px-3 rounded-lg bg-surface border border-border/50 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary/50"
+                className={`w-full h-10 px-3 rounded-lg bg-surface border ${border("category")} text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary/50`}
               >
                 <option value="electronics">Electronics</option>
                 <option value="furniture">Furniture</option>
                 <option value="accessories">Accessories</option>
               </select>
+              {fieldError("category")}
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-text-secondary mb-1">
+                Tax class
+              </label>
+              <select
+                value={form.tax_class ?? ""}
+                onChange={(e) =>
+                  setForm({
+                    ...form,
+                    tax_class: (e.target.value as TaxClass) || null,
+                  })
+                }
+                className={`w-full h-10 px-3 rounded-lg bg-surface border ${border("tax_class")} text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary/50`}
+              >
+                <option value="">Category default</option>
+                {Object.entries(TAX_CLASS_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              {fieldError("tax_class")}
             </div>
 
             <div className="md:col-span-2">
@@ -356,8 +399,9 @@ export default function AdminProductsPage() {
                   setForm({ ...form, image_url: e.target.value })
                 }
                 placeholder="https://..."
-                className="w-full h-10 px-3 rounded-lg bg-surface border border-border/50 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary/50"
+                className={`w-full h-10 px-3 rounded-lg bg-surface border ${border("image_url")} text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary/50`}
               />
+              {fieldError("image_url")}
             </div>
 
             <div className="md:col-span-2 flex items-center gap-3 pt-2">
@@ -445,7 +489,7 @@ export default function AdminProductsPage() {
                     {product.category}
                   </td>
                   <td className="py-3 px-4 text-right text-text-primary font-medium">
-                    ${product.price.toFixed(2)}
+                    {formatMoney(product.price, baseCurrency)}
                   </td>
                   <td className="py-3 px-4 text-right">
                     {product.discount_percentage ? (
@@ -0,0 +1,479 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { apiFetch } from "@/lib/api-client";
+import { useCurrency } from "@/components/providers/currency-provider";
+import { formatMoney } from "@/lib/currency";
+import type { PromoCode, PromoCodeFormData } from "@/types";
+
+const emptyForm: PromoCodeFormData = {
+  code: "",
+  discount_type: "percentage",
+  discount_value: 10,
+  min_order_amount: null,
+  max_uses: null,
+  max_uses_per_customer: null,
+  active: true,
+  expires_at: null,
+};
+
+function formatDiscount(promo: PromoCode, currency: string): string {
+  return promo.discount_type === "percentage"
+    ? `${promo.discount_value}%`
+    : formatMoney(promo.discount_value, currency);
+}
+
+export default function AdminPromoCodesPage() {
+  const { baseCurrency } = useCurrency();
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingPromo, setEditingPromo] = useState<PromoCode | null>(null);
+  const [form, setForm] = useState<PromoCodeFormData>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const fetchPromoCodes = useCallback(async () => {
+    setLoading(true);
+    try {
+      setPromoCodes(await apiFetch<PromoCode[]>("/api/admin/promo-codes"));
+    } catch {
+      setError("Failed to load promo codes");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPromoCodes();
+  }, [fetchPromoCodes]);
+
+  const handleEdit = (promo: PromoCode) => {
+    setEditingPromo(promo);
+    setForm({
+      code: promo.code,
+      discount_type: promo.discount_type,
+      discount_value: promo.discount_value,
+      min_order_amount: promo.min_order_amount,
+      max_uses: promo.max_uses,
+      max_uses_per_customer: promo.max_uses_per_customer,
+      active: promo.active,
+      expires_at: promo.expires_at,
+    });
+    setShowForm(true);
+    setError(null);
+    setSuccess(null);
+  };
+
+  const handleNew = () => {
+    setEditingPromo(null);
+    setForm(emptyForm);
+    setShowForm(true);
+    setError(null);
+    setSuccess(null);
+  };
+
+  const handleCancel = () => {
+    setShowForm(false);
+    setEditingPromo(null);
+    setForm(emptyForm);
+    setError(null);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const payload = {
+        ...form,
+        code: form.code.trim().toUpperCase(),
+      };
+
+      await apiFetch<PromoCode>("/api/admin/promo-codes", {
+        method: editingPromo ? "PATCH" : "POST",
+        body: editingPromo ? { id: editingPromo.id, ...payload } : payload,
+      });
+
+      setSuccess(
+        editingPromo
+          ? "Promo code updated successfully!"
+          : "Promo code created successfully!",
+      );
+      setShowForm(false);
+      setEditingPromo(null);
+      setForm(emptyForm);
+      fetchPromoCodes();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (promo: PromoCode) => {
+    if (!confirm(`Delete promo code "${promo.code}"?`)) return;
+
+    try {
+      await apiFetch("/api/admin/promo-codes", {
+        method: "DELETE",
+        body: { id: promo.id },
+      });
+
+      setSuccess(`"${promo.code}" deleted successfully`);
+      fetchPromoCodes();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete");
+    }
+  };
+
+  const handleToggleActive = async (promo: PromoCode) => {
+    try {
+      await apiFetch<PromoCode>("/api/admin/promo-codes", {
+        method: "PATCH",
+        body: { id: promo.id, active: !promo.active },
+      });
+      fetchPromoCodes();
+    } catch {
+      // ignore
+    }
+  };
+
+  const parseLimit = (value: string) => (value ? parseInt(value) : null);
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-bold text-text-primary">Promo Codes</h2>
+        <button
+          onClick={handleNew}
+          className="h-10 px-5 rounded-xl bg-gradient-to-r from-primary to-primary-dark text-white text-sm font-medium hover:opacity-90 transition-opacity flex items-center gap-2"
+        >
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            fill="none"
+            viewBox="0 0 24 24"
+            strokeWidth={1.5}
+            stroke="currentColor"
+            className="h-4 w-4"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              d="M12 4.5v15m7.5-7.5h-15"
+            />
+          </svg>
+          Add Promo Code
+        </button>
+      </div>
+
+      {/* Messages */}
+      {error && (
+        <div className="mb-4 p-3 rounded-lg bg-danger/10 border border-danger/20 text-sm text-danger">
+          {error}
+        </div>
+      )}
+      {success && (
+        <div className="mb-4 p-3 rounded-lg bg-success/10 border border-success/20 text-sm text-success">
+          {success}
+        </div>
+      )}
+
+      {/* Form */}
+      {showForm && (
+        <div className="glass rounded-xl p-6 mb-6">
+          <h3 className="text-lg font-semibold text-text-primary mb-4">
+            {editingPromo ? "Edit Promo Code" : "New Promo Code"}
+          </h3>
+
+          <form
+            onSubmit={handleSave}
+            className="grid grid-cols-1 md:grid-cols-2 gap-4"
+          >
+            <div>
+              <label className="block text-xs font-medium text-text-secondary mb-1">
+                Code *
+              </label>
+              <input
+                type="text"
+                value={form.code}
+                onChange={(e) =>
+                  setForm({ ...form, code: e.target.value.toUpperCase() })
+                }
+                required
+                className="w-full h-10 px-3 rounded-lg bg-surface border border-border/50 text-sm text-text-primary font-mono focus:outline-none focus:ring-2 focus:ring-primary/50"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-xs font-medium text-text-secondary mb-1">
+                  Type *
+                </label>
+                <select
+                  value={form.discount_type}
+                  onChange={(e) =>
+                    setForm({
+                      ...form,
+                      discount_type: e.target
+                        .value as PromoCodeFormData["discount_type"],
+                    })
+                  }
+                  className="w-full h-10 px-3 rounded-lg bg-surface border border-border/50 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary/50"
+                >
+                  <option value="percentage">Percentage</option>
+                  <option value="fixed">Fixed amount</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-text-secondary mb-1">
+                  {form.discount_type === "percentage"
+                    ? "Value (%)"
+                    : "Value ($)"}{" "}
+                  *
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max={form.discount_type === "percentage" ? 100 : undefined}
+                  value={form.discount_value}
+                  onChange={(e) =>
+                    setForm({
+                      ...form,
+                      discount_value: parseFloat(e.target.value) || 0,
+                    })
+                  }
+                  required
+                  className="w-full h-10 px-3 rounded-lg bg-surface border border-border/50 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary/50"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-text-secondary mb-1">
+                Minimum Order ($)
+              </label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={form.min_order_amount ?? ""}
+                onChange={(e) =>
+                  setForm({
+                    ...form,
+                    min_order_amount: e.target.value
+                      ? parseFloat(e.target.value)
+                      : null,
+                  })
+                }
+                placeholder="No minimum"
+                className="w-full h-10 px-3 rounded-lg bg-surface border border-border/50 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary/50"
+              />
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-text-secondary mb-1">
+                Expires
+              </label>
+              <input
+                type="date"
+                value={form.expires_at ? form.expires_at.slice(0, 10) : ""}
+                onChange={(e) =>
+                  setForm({
+                    ...form,
+                    expires_at: e.target.value
+                      ? new Date(e.target.value).toISOString()
+                      : null,
+                  })
+                }
+                className="w-full h-10 px-3 rounded-lg bg-surface border border-border/50 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary/50"
+              />
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-text-secondary mb-1">
+                Total Uses Limit
+              </label>
+              <input
+                type="number"
+                min="1"
+                value={form.max_uses ?? ""}
+                onChange={(e) =>
+                  setForm({ ...form, max_uses: parseLimit(e.target.value) })
+                }
+                placeholder="Unlimited"
+                className="w-full h-10 px-3 rounded-lg bg-surface border border-border/50 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary/50"
+              />
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-text-secondary mb-1">
+                Uses Per Customer
+              </label>
+              <input
+                type="number"
+                min="1"
+                value={form.max_uses_per_customer ?? ""}
+                onChange={(e) =>
+                  setForm({
+                    ...form,
+                    max_uses_per_customer: parseLimit(e.target.value),
+                  })
+                }
+                placeholder="Unlimited"
+                className="w-full h-10 px-3 rounded-lg bg-surface border border-border/50 text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary/50"
+              />
+            </div>
+
+            <label className="md:col-span-2 flex items-center gap-2 text-sm text-text-secondary">
+              <input
+                type="checkbox"
+                checked={form.active}
+                onChange={(e) => setForm({ ...form, active: e.target.checked })}
+                className="h-4 w-4 accent-primary"
+              />
+              Active
+            </label>
+
+            <div className="md:col-span-2 flex items-center gap-3 pt-2">
+              <button
+                type="submit"
+                disabled={saving}
+                className="h-10 px-6 rounded-lg bg-primary text-white text-sm font-medium hover:bg-primary-dark disabled:opacity-50 transition-colors flex items-center gap-2"
+              >
+                {saving ? (
+                  <div className="h-4 w-4 animate-spin rounded-full border-2 border-white/30 border-t-white" />
+                ) : null}
+                {editingPromo ? "Update Promo Code" : "Create Promo Code"}
+              </button>
+              <button
+                type="button"
+                onClick={handleCancel}
+                className="h-10 px-6 rounded-lg bg-surface-light text-text-secondary text-sm font-medium hover:bg-surface-lighter transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Promo Codes Table */}
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="h-8 w-8 animate-spin rounded-full border-2 border-surface-lighter border-t-primary" />
+        </div>
+      ) : promoCodes.length === 0 ? (
+        <div className="text-center py-12 text-text-muted">
+          <p>
+            No promo codes yet. Click &quot;Add Promo Code&quot; to create one.
+          </p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-border/50">
+                <th className="text-left py-3 px-4 text-xs font-semibold text-text-muted uppercase tracking-wider">
+                  Code
+                </th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-text-muted uppercase tracking-wider">
+                  Discount
+                </th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-text-muted uppercase tracking-wider">
+                  Min. Order
+                </th>
+                <th className="text-center py-3 px-4 text-xs font-semibold text-text-muted uppercase tracking-wider">
+                  Uses
+                </th>
+                <th className="text-center py-3 px-4 text-xs font-semibold text-text-muted uppercase tracking-wider">
+                  Per Customer
+                </th>
+                <th className="text-left py-3 px-4 text-xs font-semibold text-text-muted uppercase tracking-wider">
+                  Expires
+                </th>
+                <th className="text-center py-3 px-4 text-xs font-semibold text-text-muted uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="text-right py-3 px-4 text-xs font-semibold text-text-muted uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {promoCodes.map((promo) => (
+                <tr
+                  key={promo.id}
+                  className="border-b border-border/30 hover:bg-surface-light/50 transition-colors"
+                >
+                  <td className="py-3 px-4 font-mono font-semibold text-text-primary">
+                    {promo.code}
+                  </td>
+                  <td className="py-3 px-4 text-right text-secondary font-medium">
+                    {formatDiscount(promo, baseCurrency)}
+                  </td>
+                  <td className="py-3 px-4 text-right text-text-secondary">
+                    {promo.min_order_amount !== null ? (
+                      formatMoney(promo.min_order_amount, baseCurrency)
+                    ) : (
+                      <span className="text-text-muted">—</span>
+                    )}
+                  </td>
+                  <td className="py-3 px-4 text-center text-text-secondary">
+                    {promo.current_uses}
+                    {promo.max_uses !== null && ` / ${promo.max_uses}`}
+                  </td>
+                  <td className="py-3 px-4 text-center text-text-secondary">
+                    {promo.max_uses_per_customer ?? (
+                      <span className="text-text-muted">—</span>
+                    )}
+                  </td>
+                  <td className="py-3 px-4 text-text-secondary">
+                    {promo.expires_at ? (
+                      new Date(promo.expires_at).toLocaleDateString("en-AU")
+                    ) : (
+                      <span className="text-text-muted">Never</span>
+                    )}
+                  </td>
+                  <td className="py-3 px-4 text-center">
+                    <button
+                      onClick={() => handleToggleActive(promo)}
+                      className={`px-2 py-0.5 rounded-md text-xs font-medium ${
+                        promo.active
+                          ? "bg-success/10 text-success"
+                          : "bg-surface-lighter text-text-muted"
+                      }`}
+                    >
+                      {promo.active ? "Active" : "Inactive"}
+                    </button>
+                  </td>
+                  <td className="py-3 px-4 text-right">
+                    <div className="flex items-center justify-end gap-2">
+                      <button
+                        onClick={() => handleEdit(promo)}
+                        className="h-7 px-3 rounded-md bg-primary/10 text-primary text-xs font-medium hover:bg-primary/20 transition-colors"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(promo)}
+                        className="h-7 px-3 rounded-md bg-danger/10 text-danger text-xs font-medium hover:bg-danger/20 transition-colors"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
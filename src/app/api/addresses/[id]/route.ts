@@ -0,0 +1,98 @@
+import { NextRequest } from "next/server";
+import {
+  apiSuccess,
+  apiError,
+  validationError,
+  serverError,
+} from "@/lib/api-response";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { validateAddress } from "@/lib/addresses";
+import {
+  AddressNotFoundError,
+  deleteAddress,
+  updateAddress,
+} from "@/services/address-service";
+
+/**
+ * Helper: get authenticated user or return 401 response
+ */
+async function getAuthenticatedUser() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  return user;
+}
+
+/**
+ * PATCH /api/addresses/[id]
+ * Replace one of the authenticated user's saved addresses.
+ * Body: AddressInput & { is_default?: boolean }
+ *
+ * Responds 422 VALIDATION_FAILED when the address is invalid.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const user = await getAuthenticatedUser();
+
+    if (!user) {
+      return apiError("AUTH_REQUIRED", "Authentication required");
+    }
+
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const result = validateAddress(body);
+
+    if (!result.valid) {
+      return validationError("Please check the address", result.errors);
+    }
+
+    if (body.is_default !== undefined && typeof body.is_default !== "boolean") {
+      return apiError("BAD_REQUEST", "is_default must be a boolean");
+    }
+
+    const address = await updateAddress(
+      id,
+      user.id,
+      result.address,
+      body.is_default,
+    );
+
+    return apiSuccess(address);
+  } catch (error) {
+    if (error instanceof AddressNotFoundError) {
+      return apiError("NOT_FOUND", error.message);
+    }
+    return serverError(error);
+  }
+}
+
+/**
+ * DELETE /api/addresses/[id]
+ * Remove one of the authenticated user's saved addresses.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const user = await getAuthenticatedUser();
+
+    if (!user) {
+      return apiError("AUTH_REQUIRED", "Authentication required");
+    }
+
+    const { id } = await params;
+    await deleteAddress(id, user.id);
+
+    return apiSuccess(null);
+  } catch (error) {
+    if (error instanceof AddressNotFoundError) {
+      return apiError("NOT_FOUND", error.message);
+    }
+    return serverError(error);
+  }
+}
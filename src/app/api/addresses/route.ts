@@ -0,0 +1,76 @@
+import { NextRequest } from "next/server";
+import {
+  apiSuccess,
+  apiError,
+  validationError,
+  serverError,
+} from "@/lib/api-response";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { validateAddress } from "@/lib/addresses";
+import { createAddress, getAddresses } from "@/services/address-service";
+
+/**
+ * Helper: get authenticated user or return 401 response
+ */
+async function getAuthenticatedUser() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  return user;
+}
+
+/**
+ * GET /api/addresses
+ * List the authenticated user's saved addresses, default first.
+ */
+export async function GET() {
+  try {
+    const user = await getAuthenticatedUser();
+
+    if (!user) {
+      return apiError("AUTH_REQUIRED", "Authentication required");
+    }
+
+    const addresses = await getAddresses(user.id);
+
+    return apiSuccess(addresses);
+  } catch (error) {
+    return serverError(error);
+  }
+}
+
+/**
+ * POST /api/addresses
+ * Save an address to the authenticated user's address book.
+ * Body: AddressInput & { is_default?: boolean }
+ *
+ * Responds 422 VALIDATION_FAILED when the address is invalid, with a
+ * message per field.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser();
+
+    if (!user) {
+      return apiError("AUTH_REQUIRED", "Authentication required");
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const result = validateAddress(body);
+
+    if (!result.valid) {
+      return validationError("Please check the address", result.errors);
+    }
+
+    const address = await createAddress(
+      user.id,
+      result.address,
+      body.is_default === true,
+    );
+
+    return apiSuccess(address, 201);
+  } catch (error) {
+    return serverError(error);
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest } from "next/server";
+import {
+  apiSuccess,
+  apiError,
+  validationError,
+  authorizationError,
+  serverError,
+} from "@/lib/api-response";
+import { requireRole, AuthorizationError } from "@/lib/auth";
+import { validate } from "@/lib/validation";
+import { exchangeRateDeleteSchema, exchangeRateSchema } from "@/lib/schemas";
+import {
+  getExchangeRates,
+  saveExchangeRate,
+  deleteExchangeRate,
+} from "@/services/currency-service";
+import { getStoreSettings } from "@/services/settings-service";
+
+/**
+ * GET /api/admin/exchange-rates
+ * List all exchange rates.
+ */
+export async function GET() {
+  try {
+    await requireRole("admin");
+
+    const rates = await getExchangeRates();
+
+    return apiSuccess(rates);
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return authorizationError(error);
+    }
+    return serverError(error);
+  }
+}
+
+/**
+ * POST /api/admin/exchange-rates
+ * Add a currency or update its rate.
+ * Body: { currency: string, rate: number } — units per 1 base currency unit
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await requireRole("admin");
+
+    const body = await request.json().catch(() => ({}));
+    const result = validate(exchangeRateSchema, body);
+
+    if (!result.valid) {
+      return validationError("Invalid exchange rate", result.errors);
+    }
+
+    const { currency, rate } = result.data;
+    const settings = await getStoreSettings();
+    if (currency === settings.currency) {
+      return apiError(
+        "BAD_REQUEST",
+        `${currency} is the store's base currency`,
+      );
+    }
+
+    const exchangeRate = await saveExchangeRate(currency, rate);
+
+    return apiSuccess(exchangeRate);
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return authorizationError(error);
+    }
+    return serverError(error);
+  }
+}
+
+/**
+ * DELETE /api/admin/exchange-rates
+ * Remove a currency.
+ * Body: { currency: string }
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    await requireRole("admin");
+
+    const body = await request.json().catch(() => ({}));
+    const result = validate(exchangeRateDeleteSchema, body);
+
+    if (!result.valid) {
+      return validationError("Invalid currency", result.errors);
+    }
+
+    await deleteExchangeRate(result.data.currency);
+
+    return apiSuccess(null);
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return authorizationError(error);
+    }
+    return serverError(error);
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest } from "next/server";
+import {
+  apiSuccess,
+  apiError,
+  validationError,
+  authorizationError,
+  serverError,
+} from "@/lib/api-response";
+import { requireRole, AuthorizationError } from "@/lib/auth";
+import { RefundError } from "@/lib/refunds";
+import { validate } from "@/lib/validation";
+import { refundSchema } from "@/lib/schemas";
+import {
+  createRefund,
+  OrderNotFoundError,
+  OrderStatusConflictError,
+} from "@/services/order-service";
+
+/**
+ * POST /api/admin/orders/[id]/refunds
+ * Refund some or all of a shipped or delivered order.
+ * Body: {
+ *   items?: { order_item_id: string, quantity: number }[],
+ *   include_shipping?: boolean,
+ *   reason?: string
+ * }
+ * Without `items`, everything not yet refunded is refunded. Invalid fields
+ * are rejected with 422 VALIDATION_FAILED.
+ *
+ * Responds 409 when the order can't be refunded as asked (not shipped yet,
+ * more units than remain, or refunded in the meantime).
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    await requireRole("admin", "staff");
+
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const result = validate(refundSchema, body);
+
+    if (!result.valid) {
+      return validationError("Invalid refund", result.errors);
+    }
+
+    const { items, include_shipping, reason } = result.data;
+    const order = await createRefund(id, items, {
+      includeShipping: include_shipping,
+      reason,
+    });
+
+    return apiSuccess(order, 201);
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return authorizationError(error);
+    }
+    if (error instanceof OrderNotFoundError) {
+      return apiError("NOT_FOUND", error.message);
+    }
+    if (
+      error instanceof RefundError ||
+      error instanceof OrderStatusConflictError
+    ) {
+      return apiError("CONFLICT", error.message);
+    }
+    return serverError(error);
+  }
+}
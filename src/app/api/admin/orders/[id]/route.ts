@@ -0,0 +1,89 @@
+import { NextRequest } from "next/server";
+import {
+  apiSuccess,
+  apiError,
+  validationError,
+  authorizationError,
+  serverError,
+} from "@/lib/api-response";
+import { requireRole, AuthorizationError } from "@/lib/auth";
+import { InvalidStatusTransitionError } from "@/lib/order-status";
+import { validate } from "@/lib/validation";
+import { orderStatusUpdateSchema } from "@/lib/schemas";
+import {
+  getAdminOrderById,
+  updateOrderStatus,
+  OrderNotFoundError,
+  OrderStatusConflictError,
+} from "@/services/order-service";
+
+/**
+ * GET /api/admin/orders/[id]
+ * Get an order with its line items and status history.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    await requireRole("admin", "staff");
+
+    const { id } = await params;
+    const order = await getAdminOrderById(id);
+
+    if (!order) {
+      return apiError("NOT_FOUND", "Order not found");
+    }
+
+    return apiSuccess(order);
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return authorizationError(error);
+    }
+    return serverError(error);
+  }
+}
+
+/**
+ * PATCH /api/admin/orders/[id]
+ * Change an order's status.
+ * Body: { status: OrderStatus, note?: string }
+ *
+ * Responds 409 when the transition isn't allowed from the order's current
+ * status (e.g. delivered → pending) or the order changed in the meantime.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    await requireRole("admin", "staff");
+
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const result = validate(orderStatusUpdateSchema, body);
+
+    if (!result.valid) {
+      return validationError("Invalid status change", result.errors);
+    }
+
+    const { status, note } = result.data;
+    const order = await updateOrderStatus(id, status, note);
+
+    return apiSuccess(order);
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return authorizationError(error);
+    }
+    if (error instanceof OrderNotFoundError) {
+      return apiError("NOT_FOUND", error.message);
+    }
+    if (
+      error instanceof InvalidStatusTransitionError ||
+      error instanceof OrderStatusConflictError
+    ) {
+      return apiError("CONFLICT", error.message);
+    }
+    return serverError(error);
+  }
+}
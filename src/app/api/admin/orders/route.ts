@@ -0,0 +1,41 @@
+import { NextRequest } from "next/server";
+import {
+  apiSuccess,
+  validationError,
+  authorizationError,
+  serverError,
+} from "@/lib/api-response";
+import { requireRole, AuthorizationError } from "@/lib/auth";
+import { validate } from "@/lib/validation";
+import { adminOrderQuerySchema } from "@/lib/schemas";
+import { getAdminOrders } from "@/services/order-service";
+
+/**
+ * GET /api/admin/orders
+ * List orders across all customers, newest first.
+ * Query: status?, from? (YYYY-MM-DD), to? (YYYY-MM-DD), customer? (email)
+ * Invalid params are rejected with 422 VALIDATION_FAILED.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireRole("admin", "staff");
+
+    const query = validate(
+      adminOrderQuerySchema,
+      Object.fromEntries(request.nextUrl.searchParams),
+    );
+
+    if (!query.valid) {
+      return validationError("Invalid query parameters", query.errors);
+    }
+
+    const orders = await getAdminOrders(query.data);
+
+    return apiSuccess(orders);
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return authorizationError(error);
+    }
+    return serverError(error);
+  }
+}
@@ -1,108 +1,90 @@
-import { NextRequest, NextResponse } from "next/server";
-import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { NextRequest } from "next/server";
+import {
+  apiSuccess,
+  apiError,
+  validationError,
+  authorizationError,
+  serverError,
+} from "@/lib/api-response";
+import { requireRole, AuthorizationError } from "@/lib/auth";
+import { isPlainObject, validate } from "@/lib/validation";
+import { productSchema, productUpdateSchema, slugify } from "@/lib/schemas";
 import {
   createProduct,
   updateProduct,
   deleteProduct,
 } from "@/services/product-service";
 
-/**
- * Helper: ensure authenticated user for admin operations
- */
-async function requireAuth() {
-  const supabase = await createSupabaseServerClient();
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
-  return user;
-}
-
 /**
  * POST /api/admin/products
- * Create a new product.
+ * Create a new product. The slug defaults to one made from the name.
+ * Body: ProductFormData
+ * Invalid fields are rejected with 422 VALIDATION_FAILED.
  */
 export async function POST(request: NextRequest) {
   try {
-    const user = await requireAuth();
-    if (!user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 },
-      );
-    }
+    await requireRole("admin", "staff");
 
-    const body = await request.json();
-    const {
-      name,
-      slug,
-      description,
-      price,
-      discount_percentage,
-      stock,
-      category,
-      image_url,
-    } = body;
-
-    if (!name || !description || price === undefined || stock === undefined) {
-      return NextResponse.json(
-        { error: "Required fields: name, description, price, stock" },
-        { status: 400 },
-      );
+    const body = await request.json().catch(() => ({}));
+    if (!isPlainObject(body)) {
+      return validationError("The request body must be a JSON object", {});
     }
 
-    const product = await createProduct({
-      name,
-      slug: slug || name.toLowerCase().replace(/[^a-z0-9]+/g, "-"),
-      description,
-      price: parseFloat(price),
-      discount_percentage: discount_percentage
-        ? parseFloat(discount_percentage)
-        : null,
-      stock: parseInt(stock),
-      category: category || "uncategorized",
-      image_url: image_url || "",
+    const result = validate(productSchema, {
+      ...body,
+      slug: body.slug || (body.name ? slugify(String(body.name)) : undefined),
     });
 
-    return NextResponse.json({ data: product }, { status: 201 });
+    if (!result.valid) {
+      return validationError("Please check the product details", result.errors);
+    }
+
+    const product = await createProduct(result.data);
+
+    return apiSuccess(product, 201);
   } catch (error) {
-    const message =
-      error instanceof Error ? error.message : "Internal server error";
-    return NextResponse.json({ error: message }, { status: 500 });
+    if (error instanceof AuthorizationError) {
+      return authorizationError(error);
+    }
+    return serverError(error);
   }
 }
 
 /**
  * PATCH /api/admin/products
  * Update an existing product.
- * Body: { id: string, ...fields }
+ * Body: { id: string, ...fields } — any ProductFormData fields; others are
+ * ignored. Invalid fields are rejected with 422 as for POST.
  */
 export async function PATCH(request: NextRequest) {
   try {
-    const user = await requireAuth();
-    if (!user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 },
-      );
+    await requireRole("admin", "staff");
+
+    const body = await request.json().catch(() => ({}));
+    if (!isPlainObject(body)) {
+      return validationError("The request body must be a JSON object", {});
+    }
+
+    const { id, ...fields } = body;
+
+    if (typeof id !== "string" || !id) {
+      return apiError("BAD_REQUEST", "Product ID is required");
     }
 
-    const body = await request.json();
-    const { id, ...updateData } = body;
+    const result = validate(productUpdateSchema, fields);
 
-    if (!id) {
-      return NextResponse.json(
-        { error: "Product ID is required" },
-        { status: 400 },
-      );
+    if (!result.valid) {
+      return validationError("Please check the product details", result.errors);
     }
 
-    const product = await updateProduct(id, updateData);
+    const product = await updateProduct(id, result.data);
 
-    return NextResponse.json({ data: product }, { status: 200 });
+    return apiSuccess(product);
   } catch (error) {
-    const message =
-      error instanceof Error ? error.message : "Internal server error";
-    return NextResponse.json({ error: message }, { status: 500 });
+    if (error instanceof AuthorizationError) {
+      return authorizationError(error);
+    }
+    return serverError(error);
   }
 }
 
@@ -113,30 +95,26 @@ export async function PATCH(request: NextRequest) {
  */
 export async function DELETE(request: NextRequest) {
   try {
-    const user = await requireAuth();
-    if (!user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 },
-      );
+    await requireRole("admin", "staff");
+
+    const body = await request.json().catch(() => ({}));
+    if (!isPlainObject(body)) {
+      return validationError("The request body must be a JSON object", {});
     }
 
-    const body = await request.json();
     const { id } = body;
 
-    if (!id) {
-      return NextResponse.json(
-        { error: "Product ID is required" },
-        { status: 400 },
-      );
+    if (typeof id !== "string" || !id) {
+      return apiError("BAD_REQUEST", "Product ID is required");
     }
 
     await deleteProduct(id);
 
-    return NextResponse.json({ message: "Product deleted" }, { status: 200 });
+    return apiSuccess(null);
   } catch (error) {
-    const message =
-      error instanceof Error ? error.message : "Internal server error";
-    return NextResponse.json({ error: message }, { status: 500 });
+    if (error instanceof AuthorizationError) {
+      return authorizationError(error);
+    }
+    return serverError(error);
   }
 }
@@ -0,0 +1,139 @@
+import { NextRequest } from "next/server";
+import {
+  apiSuccess,
+  apiError,
+  validationError,
+  authorizationError,
+  serverError,
+} from "@/lib/api-response";
+import { requireRole, AuthorizationError } from "@/lib/auth";
+import { isPlainObject, validate } from "@/lib/validation";
+import { promoCodeSchema, promoCodeUpdateSchema } from "@/lib/schemas";
+import {
+  getPromoCodes,
+  createPromoCode,
+  updatePromoCode,
+  deletePromoCode,
+} from "@/services/promo-service";
+
+/**
+ * GET /api/admin/promo-codes
+ * List all promo codes.
+ */
+export async function GET() {
+  try {
+    await requireRole("admin");
+
+    const promoCodes = await getPromoCodes();
+
+    return apiSuccess(promoCodes);
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return authorizationError(error);
+    }
+    return serverError(error);
+  }
+}
+
+/**
+ * POST /api/admin/promo-codes
+ * Create a new promo code.
+ * Body: PromoCodeFormData; blank limits mean "no limit"
+ * Invalid fields are rejected with 422 VALIDATION_FAILED.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await requireRole("admin");
+
+    const body = await request.json().catch(() => ({}));
+    const result = validate(promoCodeSchema, body);
+
+    if (!result.valid) {
+      return validationError(
+        "Please check the promo code details",
+        result.errors,
+      );
+    }
+
+    const promoCode = await createPromoCode(result.data);
+
+    return apiSuccess(promoCode, 201);
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return authorizationError(error);
+    }
+    return serverError(error);
+  }
+}
+
+/**
+ * PATCH /api/admin/promo-codes
+ * Update an existing promo code.
+ * Body: { id: string, ...fields } — any PromoCodeFormData fields; others are
+ * ignored. Invalid fields are rejected with 422 as for POST.
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    await requireRole("admin");
+
+    const body = await request.json().catch(() => ({}));
+    if (!isPlainObject(body)) {
+      return validationError("The request body must be a JSON object", {});
+    }
+
+    const { id, ...fields } = body;
+
+    if (typeof id !== "string" || !id) {
+      return apiError("BAD_REQUEST", "Promo code ID is required");
+    }
+
+    const result = validate(promoCodeUpdateSchema, fields);
+
+    if (!result.valid) {
+      return validationError(
+        "Please check the promo code details",
+        result.errors,
+      );
+    }
+
+    const promoCode = await updatePromoCode(id, result.data);
+
+    return apiSuccess(promoCode);
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return authorizationError(error);
+    }
+    return serverError(error);
+  }
+}
+
+/**
+ * DELETE /api/admin/promo-codes
+ * Delete a promo code.
+ * Body: { id: string }
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    await requireRole("admin");
+
+    const body = await request.json().catch(() => ({}));
+    if (!isPlainObject(body)) {
+      return validationError("The request body must be a JSON object", {});
+    }
+
+    const { id } = body;
+
+    if (typeof id !== "string" || !id) {
+      return apiError("BAD_REQUEST", "Promo code ID is required");
+    }
+
+    await deletePromoCode(id);
+
+    return apiSuccess(null);
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return authorizationError(error);
+    }
+    return serverError(error);
+  }
+}
@@ -0,0 +1,36 @@
+import { apiSuccess, apiError, serverError } from "@/lib/api-response";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { getGuestCartId, clearGuestCartCookie } from "@/lib/guest-cart";
+import { mergeGuestCart } from "@/services/cart-service";
+
+/**
+ * POST /api/cart/merge
+ * Move the guest cart (from the signed cookie) into the signed-in user's
+ * cart, capping quantities at available stock, then drop the guest cookie.
+ * Called by AuthProvider right after sign-in; a no-op without a guest cart.
+ */
+export async function POST() {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return apiError("AUTH_REQUIRED", "Authentication required");
+    }
+
+    const guestCartId = await getGuestCartId();
+
+    if (!guestCartId) {
+      return apiSuccess({ merged: 0, limited: [] });
+    }
+
+    const result = await mergeGuestCart(guestCartId, user.id);
+    await clearGuestCartCookie();
+
+    return apiSuccess(result);
+  } catch (error) {
+    return serverError(error);
+  }
+}
@@ -1,134 +1,111 @@
-import { NextRequest, NextResponse } from "next/server";
-import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { NextRequest } from "next/server";
+import {
+  apiSuccess,
+  apiError,
+  validationError,
+  serverError,
+} from "@/lib/api-response";
 import {
   getCartItems,
   addToCart,
   updateCartItem,
   removeCartItem,
 } from "@/services/cart-service";
-
-/**
- * Helper: get authenticated user or return 401 response
- */
-async function getAuthenticatedUser() {
-  const supabase = await createSupabaseServerClient();
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
-  return user;
-}
+import { getProductVariants } from "@/services/product-service";
+import { getCartOwner } from "@/lib/cart-owner";
+import { validate } from "@/lib/validation";
+import {
+  cartAddSchema,
+  cartRemoveSchema,
+  cartUpdateSchema,
+} from "@/lib/schemas";
 
 /**
  * GET /api/cart
- * Get all cart items for the authenticated user.
+ * Get all cart items for the signed-in user or the guest cart.
  */
 export async function GET() {
   try {
-    const user = await getAuthenticatedUser();
+    const owner = await getCartOwner();
 
-    if (!user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 },
-      );
+    if (!owner) {
+      return apiSuccess([]);
     }
 
-    const items = await getCartItems(user.id);
+    const items = await getCartItems(owner);
 
-    return NextResponse.json({ data: items }, { status: 200 });
+    return apiSuccess(items);
   } catch (error) {
-    const message =
-      error instanceof Error ? error.message : "Internal server error";
-    return NextResponse.json({ error: message }, { status: 500 });
+    return serverError(error);
   }
 }
 
 /**
  * POST /api/cart
- * Add an item to the cart.
- * Body: { product_id: string, quantity?: number }
+ * Add an item to the cart. Guests without a cart get a new guest cart cookie.
+ * Body: { product_id: string, quantity?: number, variant_id?: string }
+ * quantity is a whole number ≥ 1 (default 1). variant_id is required for
+ * (and only allowed on) products with variants. Invalid fields are rejected
+ * with 422 VALIDATION_FAILED.
  */
 export async function POST(request: NextRequest) {
   try {
-    const user = await getAuthenticatedUser();
+    const body = await request.json().catch(() => ({}));
+    const result = validate(cartAddSchema, body);
 
-    if (!user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 },
-      );
+    if (!result.valid) {
+      return validationError("Invalid cart item", result.errors);
     }
 
-    const body = await request.json();
-    const { product_id, quantity = 1 } = body;
+    const { product_id, quantity, variant_id } = result.data;
+    const variants = await getProductVariants(product_id);
 
-    if (!product_id) {
-      return NextResponse.json(
-        { error: "product_id is required" },
-        { status: 400 },
-      );
+    if (variants.length > 0 && !variant_id) {
+      return apiError("BAD_REQUEST", "variant_id is required for this product");
     }
 
-    if (typeof quantity !== "number" || quantity < 1) {
-      return NextResponse.json(
-        { error: "quantity must be a positive number" },
-        { status: 400 },
+    if (variant_id && !variants.some((v) => v.id === variant_id)) {
+      return apiError(
+        "BAD_REQUEST",
+        "variant_id does not belong to this product",
       );
     }
 
-    await addToCart(user.id, product_id, quantity);
+    const owner = await getCartOwner(true);
+    await addToCart(owner!, product_id, quantity, variant_id);
 
-    return NextResponse.json(
-      { message: "Item added to cart" },
-      { status: 201 },
-    );
+    return apiSuccess(null, 201);
   } catch (error) {
-    const message =
-      error instanceof Error ? error.message : "Internal server error";
-    return NextResponse.json({ error: message }, { status: 500 });
+    return serverError(error);
   }
 }
 
 /**
  * PATCH /api/cart
- * Update a cart item's quantity.
+ * Update a cart item's quantity; 0 removes it.
  * Body: { item_id: string, quantity: number }
  */
 export async function PATCH(request: NextRequest) {
   try {
-    const user = await getAuthenticatedUser();
+    const owner = await getCartOwner();
 
-    if (!user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 },
-      );
+    if (!owner) {
+      return apiError("NOT_FOUND", "Cart item not found");
     }
 
-    const body = await request.json();
-    const { item_id, quantity } = body;
-
-    if (!item_id) {
-      return NextResponse.json(
-        { error: "item_id is required" },
-        { status: 400 },
-      );
-    }
+    const body = await request.json().catch(() => ({}));
+    const result = validate(cartUpdateSchema, body);
 
-    if (typeof quantity !== "number" || quantity < 0) {
-      return NextResponse.json(
-        { error: "quantity must be a non-negative number" },
-        { status: 400 },
-      );
+    if (!result.valid) {
+      return validationError("Invalid cart update", result.errors);
     }
 
-    await updateCartItem(item_id, user.id, quantity);
+    const { item_id, quantity } = result.data;
+    await updateCartItem(item_id, owner, quantity);
 
-    return NextResponse.json({ message: "Cart updated" }, { status: 200 });
+    return apiSuccess(null);
   } catch (error) {
-    const message =
-      error instanceof Error ? error.message : "Internal server error";
-    return NextResponse.json({ error: message }, { status: 500 });
+    return serverError(error);
   }
 }
 
@@ -139,34 +116,23 @@ export async function PATCH(request: NextRequest) {
  */
 export async function DELETE(request: NextRequest) {
   try {
-    const user = await getAuthenticatedUser();
+    const owner = await getCartOwner();
 
-    if (!user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 },
-      );
+    if (!owner) {
+      return apiError("NOT_FOUND", "Cart item not found");
     }
 
-    const body = await request.json();
-    const { item_id } = body;
+    const body = await request.json().catch(() => ({}));
+    const result = validate(cartRemoveSchema, body);
 
-    if (!item_id) {
-      return NextResponse.json(
-        { error: "item_id is required" },
-        { status: 400 },
-      );
+    if (!result.valid) {
+      return validationError("Invalid cart item", result.errors);
     }
 
-    await removeCartItem(item_id, user.id);
+    await removeCartItem(result.data.item_id, owner);
 
-    return NextResponse.json(
-      { message: "Item removed from cart" },
-      { status: 200 },
-    );
+    return apiSuccess(null);
   } catch (error) {
-    const message =
-      error instanceof Error ? error.message : "Internal server error";
-    return NextResponse.json({ error: message }, { status: 500 });
+    return serverError(error);
   }
 }
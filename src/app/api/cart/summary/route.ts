@@ -0,0 +1,43 @@
+import { NextRequest } from "next/server";
+import { apiSuccess, validationError, serverError } from "@/lib/api-response";
+import { getCartSummary } from "@/services/cart-service";
+import { getCartOwner } from "@/lib/cart-owner";
+import { validate } from "@/lib/validation";
+import { cartSummarySchema } from "@/lib/schemas";
+
+/**
+ * POST /api/cart/summary
+ * Price the current cart server-side with the pricing engine, for the
+ * signed-in user's customer group (guests pay retail). The cart and
+ * checkout pages render these figures, and orders are placed at them.
+ * An invalid promo code is reported in `promoResult` rather than as an
+ * error. Without a destination, shipping is the flat-rate estimate.
+ * Body: {
+ *   promo_code?: string,
+ *   destination?: { country: "AU" | "NZ", postcode: string },
+ *   shipping_method?: ShippingMethod,
+ * }
+ * Returns: { data: CartSummaryData }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const result = validate(cartSummarySchema, body);
+
+    if (!result.valid) {
+      return validationError("Invalid cart summary request", result.errors);
+    }
+
+    const { promo_code, destination, shipping_method } = result.data;
+    const owner = await getCartOwner();
+    const summary = await getCartSummary(owner, {
+      promoCode: promo_code,
+      destination,
+      shippingMethod: shipping_method,
+    });
+
+    return apiSuccess(summary);
+  } catch (error) {
+    return serverError(error);
+  }
+}
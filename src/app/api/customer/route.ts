@@ -0,0 +1,23 @@
+import { apiSuccess, serverError } from "@/lib/api-response";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { getCustomerContext } from "@/services/customer-service";
+
+/**
+ * GET /api/customer
+ * Get the pricing context (customer group and group prices) for the
+ * current shopper. Guests receive the guest context rather than a 401.
+ */
+export async function GET() {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    const customer = await getCustomerContext(user?.id ?? null);
+
+    return apiSuccess(customer);
+  } catch (error) {
+    return serverError(error);
+  }
+}
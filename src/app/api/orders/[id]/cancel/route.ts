@@ -0,0 +1,66 @@
+import { NextRequest } from "next/server";
+import {
+  apiSuccess,
+  apiError,
+  validationError,
+  serverError,
+} from "@/lib/api-response";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { InvalidStatusTransitionError } from "@/lib/order-status";
+import { validate } from "@/lib/validation";
+import { orderCancelSchema } from "@/lib/schemas";
+import {
+  cancelOrder,
+  OrderNotFoundError,
+  OrderStatusConflictError,
+} from "@/services/order-service";
+
+/**
+ * POST /api/orders/[id]/cancel
+ * Cancel one of the authenticated user's orders. Stock is returned, any
+ * promo code use is reversed and the order is refunded in full.
+ * Body: { reason?: string }
+ *
+ * Responds 409 once the order has shipped (or was already cancelled).
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return apiError("AUTH_REQUIRED", "Authentication required");
+    }
+
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const result = validate(orderCancelSchema, body);
+
+    if (!result.valid) {
+      return validationError("Invalid cancellation", result.errors);
+    }
+
+    const order = await cancelOrder(id, {
+      userId: user.id,
+      note: result.data.reason,
+    });
+
+    return apiSuccess(order);
+  } catch (error) {
+    if (error instanceof OrderNotFoundError) {
+      return apiError("NOT_FOUND", error.message);
+    }
+    if (
+      error instanceof InvalidStatusTransitionError ||
+      error instanceof OrderStatusConflictError
+    ) {
+      return apiError("CONFLICT", "This order can no longer be cancelled");
+    }
+    return serverError(error);
+  }
+}
@@ -0,0 +1,125 @@
+import { NextRequest } from "next/server";
+import {
+  apiSuccess,
+  apiError,
+  validationError,
+  serverError,
+} from "@/lib/api-response";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import {
+  createOrder,
+  getOrdersByUser,
+  EmptyCartError,
+  InsufficientStockError,
+  ShippingUnavailableError,
+} from "@/services/order-service";
+import { validate } from "@/lib/validation";
+import { orderSchema } from "@/lib/schemas";
+import { PromoCodeError } from "@/services/promo-service";
+import { PaymentDeclinedError } from "@/services/payment-service";
+
+/**
+ * Helper: get authenticated user or return 401 response
+ */
+async function getAuthenticatedUser() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  return user;
+}
+
+/**
+ * GET /api/orders
+ * List the authenticated user's orders with their line items, newest first.
+ */
+export async function GET() {
+  try {
+    const user = await getAuthenticatedUser();
+
+    if (!user) {
+      return apiError("AUTH_REQUIRED", "Authentication required");
+    }
+
+    const orders = await getOrdersByUser(user.id);
+
+    return apiSuccess(orders);
+  } catch (error) {
+    return serverError(error);
+  }
+}
+
+/**
+ * POST /api/orders
+ * Place an order from the authenticated user's cart and pay for it.
+ * Totals are recalculated server-side; the cart is cleared on success.
+ * Body: {
+ *   shipping_address: AddressInput,
+ *   billing_address?: AddressInput, // Defaults to the shipping address
+ *   shipping_method?: ShippingMethod,
+ *   promo_code?: string,
+ *   payment_method?: string
+ * }
+ *
+ * Responds 422 VALIDATION_FAILED when a field is invalid, with address
+ * errors keyed `shipping_address.<field>` / `billing_address.<field>`.
+ * Responds 409 OUT_OF_STOCK (details: product_ids, variant_ids) when any
+ * line exceeds the available stock, and 400 when the promo code can't be applied;
+ * no order is created in either case (nor when nothing ships to the
+ * destination, also 400). Responds 402 when the payment is
+ * declined; the order is cancelled and the cart kept.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser();
+
+    if (!user) {
+      return apiError("AUTH_REQUIRED", "Authentication required");
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const result = validate(orderSchema, body);
+
+    if (!result.valid) {
+      return validationError("Please check your order details", result.errors);
+    }
+
+    const {
+      shipping_address,
+      billing_address,
+      shipping_method,
+      promo_code,
+      payment_method,
+    } = result.data;
+
+    const order = await createOrder(user.id, {
+      shippingAddress: shipping_address,
+      billingAddress: billing_address ?? shipping_address,
+      shippingMethod: shipping_method,
+      promoCode: promo_code,
+      paymentMethod: payment_method,
+    });
+
+    return apiSuccess(order, 201);
+  } catch (error) {
+    if (error instanceof InsufficientStockError) {
+      return apiError("OUT_OF_STOCK", error.message, {
+        details: {
+          product_ids: error.productIds,
+          variant_ids: error.variantIds,
+        },
+      });
+    }
+    if (error instanceof PaymentDeclinedError) {
+      return apiError("PAYMENT_DECLINED", error.message);
+    }
+    if (
+      error instanceof EmptyCartError ||
+      error instanceof PromoCodeError ||
+      error instanceof ShippingUnavailableError
+    ) {
+      return apiError("BAD_REQUEST", error.message);
+    }
+    return serverError(error);
+  }
+}
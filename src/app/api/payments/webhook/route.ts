@@ -0,0 +1,32 @@
+import { NextRequest } from "next/server";
+import { apiSuccess, apiError, serverError } from "@/lib/api-response";
+import { getPaymentProvider, PaymentWebhookError } from "@/lib/payments";
+import { applyPaymentEvent } from "@/services/payment-service";
+
+/**
+ * POST /api/payments/webhook
+ * Payment provider callbacks. The configured provider verifies the
+ * request's signature before the event is applied to its order's payment
+ * status.
+ *
+ * Responds 400 when the request can't be verified, so the gateway doesn't
+ * treat it as delivered; redelivered events are acknowledged and ignored.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const provider = getPaymentProvider();
+
+    // Signatures are computed over the raw body
+    const payload = await request.text();
+    const event = provider.verifyWebhook(payload, request.headers);
+
+    await applyPaymentEvent(provider.name, event);
+
+    return apiSuccess({ received: true });
+  } catch (error) {
+    if (error instanceof PaymentWebhookError) {
+      return apiError("BAD_REQUEST", error.message);
+    }
+    return serverError(error);
+  }
+}
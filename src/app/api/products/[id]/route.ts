@@ -1,4 +1,5 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest } from "next/server";
+import { apiSuccess, apiError, serverError } from "@/lib/api-response";
 import { getProductById } from "@/services/product-service";
 
 /**
@@ -13,22 +14,17 @@ export async function GET(
     const { id } = await params;
 
     if (!id) {
-      return NextResponse.json(
-        { error: "Product ID is required" },
-        { status: 400 },
-      );
+      return apiError("BAD_REQUEST", "Product ID is required");
     }
 
     const product = await getProductById(id);
 
     if (!product) {
-      return NextResponse.json({ error: "Product not found" }, { status: 404 });
+      return apiError("NOT_FOUND", "Product not found");
     }
 
-    return NextResponse.json({ data: product }, { status: 200 });
+    return apiSuccess(product);
   } catch (error) {
-    const message =
-      error instanceof Error ? error.message : "Internal server error";
-    return NextResponse.json({ error: message }, { status: 500 });
+    return serverError(error);
   }
 }
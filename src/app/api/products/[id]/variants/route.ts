@@ -0,0 +1,26 @@
+import { NextRequest } from "next/server";
+import { apiSuccess, apiError, serverError } from "@/lib/api-response";
+import { getProductVariants } from "@/services/product-service";
+
+/**
+ * GET /api/products/[id]/variants
+ * List a product's variants (empty if it isn't sold by variant).
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+
+    if (!id) {
+      return apiError("BAD_REQUEST", "Product ID is required");
+    }
+
+    const variants = await getProductVariants(id);
+
+    return apiSuccess(variants);
+  } catch (error) {
+    return serverError(error);
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest } from "next/server";
+import { apiSuccess, validationError, serverError } from "@/lib/api-response";
+import { getProductFacets } from "@/services/product-service";
+import { validate } from "@/lib/validation";
+import { productQuerySchema } from "@/lib/schemas";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/products/facets
+ * Facet counts for a product listing: how many products each category,
+ * price range, availability and discount filter value would give.
+ *
+ * Query params: the same filters as GET /api/products (sort and paging
+ * are ignored). Each facet is counted with the other filters applied but
+ * not its own.
+ *
+ * Returns: ProductFacets
+ * Invalid params are rejected with 422 VALIDATION_FAILED.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const query = validate(
+      productQuerySchema,
+      Object.fromEntries(searchParams),
+    );
+
+    if (!query.valid) {
+      return validationError("Invalid query parameters", query.errors);
+    }
+
+    const facets = await getProductFacets(query.data);
+
+    return apiSuccess(facets);
+  } catch (error) {
+    return serverError(error);
+  }
+}
@@ -1,6 +1,8 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest } from "next/server";
+import { apiPage, validationError, serverError } from "@/lib/api-response";
 import { getProducts } from "@/services/product-service";
-import type { ProductFilters } from "@/types";
+import { validate } from "@/lib/validation";
+import { productQuerySchema } from "@/lib/schemas";
 
 export const dynamic = "force-dynamic";
 
@@ -10,33 +12,38 @@ export const dynamic = "force-dynamic";
  *
  * Query params:
  * - category: filter by category
- * - search: search by name/description
- * - sort: price_asc | price_desc | newest | name_asc
+ * - search: full-text search over name, category and description, with typo
+ *   tolerance on the name
+ * - min_price, max_price: base price range
+ * - in_stock: true for products in stock only
+ * - on_sale: true for discounted products only
+ * - min_discount: minimum discount percentage
+ * - sort: relevance | price_asc | price_desc | newest | name_asc (default:
+ *   relevance when searching, else newest)
  * - page: page number (default 1)
- * - limit: items per page (default 12)
+ * - limit: items per page, 1-50 (default 12)
+ *
+ * Returns: { data: ProductListItem[], meta: PaginationMeta }; search results
+ * carry `match` (rank plus highlighted name and description snippet).
+ * Invalid params are rejected with 422 VALIDATION_FAILED.
  */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
 
-    const filters: ProductFilters = {
-      category: searchParams.get("category") || undefined,
-      search: searchParams.get("search") || undefined,
-      sort: (searchParams.get("sort") as ProductFilters["sort"]) || "newest",
-      page: parseInt(searchParams.get("page") || "1", 10),
-      limit: parseInt(searchParams.get("limit") || "12", 10),
-    };
+    const query = validate(
+      productQuerySchema,
+      Object.fromEntries(searchParams),
+    );
 
-    // Validation
-    if (filters.page! < 1) filters.page = 1;
-    if (filters.limit! < 1 || filters.limit! > 50) filters.limit = 12;
+    if (!query.valid) {
+      return validationError("Invalid query parameters", query.errors);
+    }
 
-    const result = await getProducts(filters);
+    const result = await getProducts(query.data);
 
-    return NextResponse.json(result, { status: 200 });
+    return apiPage(result);
   } catch (error) {
-    const message =
-      error instanceof Error ? error.message : "Internal server error";
-    return NextResponse.json({ error: message }, { status: 500 });
+    return serverError(error);
   }
 }
@@ -0,0 +1,29 @@
+import { NextRequest } from "next/server";
+import { apiSuccess, validationError, serverError } from "@/lib/api-response";
+import { validate } from "@/lib/validation";
+import { promoLookupSchema } from "@/lib/schemas";
+import { lookupPromoCode } from "@/services/promo-service";
+
+/**
+ * POST /api/promo-codes/validate
+ * Look up a single promo code for the current shopper.
+ * Returns the stored definition (or null) and the shopper's previous uses;
+ * the client evaluates it against its cart with `applyPromoCode`.
+ * Body: { code: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const result = validate(promoLookupSchema, body);
+
+    if (!result.valid) {
+      return validationError("Invalid promo code", result.errors);
+    }
+
+    const lookup = await lookupPromoCode(result.data.code);
+
+    return apiSuccess(lookup);
+  } catch (error) {
+    return serverError(error);
+  }
+}
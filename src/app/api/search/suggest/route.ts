@@ -0,0 +1,64 @@
+import { NextRequest } from "next/server";
+import { cookies } from "next/headers";
+import { apiSuccess, validationError, serverError } from "@/lib/api-response";
+import { getSearchSuggestions } from "@/services/product-service";
+import { validate } from "@/lib/validation";
+import { searchSuggestQuerySchema } from "@/lib/schemas";
+import { parseRecentSearches, RECENT_SEARCHES_COOKIE } from "@/lib/search";
+import type { SearchSuggestions } from "@/types";
+
+export const dynamic = "force-dynamic";
+
+/** Queries shorter than this only get recent searches back */
+const MIN_QUERY_LENGTH = 2;
+
+/**
+ * GET /api/search/suggest
+ * Suggestions for the search box as the shopper types.
+ *
+ * Query params:
+ * - q: what's been typed so far (may be empty)
+ * - limit: suggestions of each kind, 1-10 (default 5)
+ *
+ * Returns: SearchSuggestions — matching products and categories (from one
+ * indexed database call) and the shopper's recent searches containing q.
+ * Responses are privately cacheable for a short while, since they include
+ * the shopper's own searches.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const query = validate(
+      searchSuggestQuerySchema,
+      Object.fromEntries(searchParams),
+    );
+
+    if (!query.valid) {
+      return validationError("Invalid query parameters", query.errors);
+    }
+
+    const { q, limit } = query.data;
+    const cookieStore = await cookies();
+    const recent = parseRecentSearches(
+      cookieStore.get(RECENT_SEARCHES_COOKIE)?.value,
+    )
+      .filter((search) => search.toLowerCase().includes(q.toLowerCase()))
+      .slice(0, limit);
+
+    const { products, categories } =
+      q.length >= MIN_QUERY_LENGTH
+        ? await getSearchSuggestions(q, limit)
+        : { products: [], categories: [] };
+
+    const response = apiSuccess<SearchSuggestions>({
+      products,
+      categories,
+      recent,
+    });
+    response.headers.set("Cache-Control", "private, max-age=30");
+    return response;
+  } catch (error) {
+    return serverError(error);
+  }
+}
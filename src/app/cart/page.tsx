@@ -1,201 +1,119 @@
 "use client";
 
-import { useEffect, useState, useCallback } from "react";
+import { Suspense, useEffect, useState, useCallback } from "react";
+import { useSearchParams } from "next/navigation";
 import { useAuth } from "@/components/providers/auth-provider";
 import { useCart } from "@/components/providers/cart-provider";
-import {
-  calculateProductPrice,
-  calculateShipping,
-  calculateTax,
-  applyPromoCode,
-} from "@/lib/pricing-engine";
+import { useCurrency } from "@/components/providers/currency-provider";
+import { useStoreSettings } from "@/components/providers/store-settings-provider";
+import { formatVariantOptions } from "@/lib/variants";
+import { apiFetch } from "@/lib/api-client";
 import Image from "next/image";
 import Link from "next/link";
 import LoadingSpinner from "@/components/ui/loading-spinner";
 import EmptyState from "@/components/ui/empty-state";
-import type { CartItemWithProduct, Product, GuestCartItem } from "@/types";
+import ErrorState from "@/components/ui/error-state";
+import type { CartSummaryData, CartSummaryItem } from "@/types";
 
-interface CartDisplayItem {
-  id: string;
-  product: Product;
-  quantity: number;
-  isGuest: boolean;
+/**
+ * The id checkout reports when a line runs out of stock: the variant for
+ * products sold by variant, otherwise the product.
+ */
+function stockLineId(item: CartSummaryItem): string {
+  return item.variant?.id ?? item.product.id;
 }
 
-export default function CartPage() {
+function CartContent() {
   const { user, loading: authLoading } = useAuth();
-  const {
-    guestCart,
-    updateGuestCartItem,
-    removeFromGuestCart,
-    refreshCartCount,
-  } = useCart();
-  const [items, setItems] = useState<CartDisplayItem[]>([]);
+  const searchParams = useSearchParams();
+  const { refreshCartCount } = useCart();
+  const settings = useStoreSettings();
+  const { formatPrice } = useCurrency();
+  const [summary, setSummary] = useState<CartSummaryData | null>(null);
   const [loading, setLoading] = useState(true);
+  const [summaryError, setSummaryError] = useState<string | null>(null);
   const [updating, setUpdating] = useState<string | null>(null);
   const [promoInput, setPromoInput] = useState("");
   const [appliedPromo, setAppliedPromo] = useState<string | null>(null);
-  const [promoError, setPromoError] = useState<string | null>(null);
+  const [applyingPromo, setApplyingPromo] = useState(false);
+
+  // Lines rejected by checkout because stock ran out (see POST /api/orders)
+  const [stockErrors, setStockErrors] = useState<string[]>(
+    () => searchParams.get("insufficient_stock")?.split(",") ?? [],
+  );
 
-  const fetchCart = useCallback(async () => {
-    setLoading(true);
+  // The cart, priced server-side (same endpoint for guests and signed-in
+  // users); the promo code is re-evaluated every time the cart changes
+  const fetchSummary = useCallback(async () => {
     try {
-      if (user) {
-        const res = await fetch("/api/cart");
-        if (res.ok) {
-          const data = await res.json();
-          const cartItems: CartItemWithProduct[] = data.data || [];
-          setItems(
-            cartItems.map((item) => ({
-              id: item.id,
-              product: item.products,
-              quantity: item.quantity,
-              isGuest: false,
-            })),
-          );
-        }
-      } else {
-        // Guest cart — need to fetch product details
-        if (guestCart.length > 0) {
-          const productIds = guestCart.map((item) => item.product_id);
-          const res = await fetch(`/api/products?limit=50`);
-          if (res.ok) {
-            const data = await res.json();
-            const products: Product[] = data.data || [];
-            const guestItems: CartDisplayItem[] = guestCart
-              .map((item: GuestCartItem) => {
-                const product = products.find(
-                  (p: Product) => p.id === item.product_id,
-                );
-                if (!product) return null;
-                return {
-                  id: item.product_id,
-                  product,
-                  quantity: item.quantity,
-                  isGuest: true,
-                };
-              })
-              .filter(Boolean) as CartDisplayItem[];
-            setItems(guestItems);
-          }
-        } else {
-          setItems([]);
-        }
-      }
-    } catch {
-      // ignore
+      const data = await apiFetch<CartSummaryData>("/api/cart/summary", {
+        method: "POST",
+        body: { promo_code: appliedPromo ?? undefined },
+      });
+      setSummary(data);
+      setSummaryError(null);
+    } catch (error) {
+      setSummaryError(
+        error instanceof Error ? error.message : "Failed to price your cart",
+      );
     } finally {
       setLoading(false);
+      setApplyingPromo(false);
     }
-  }, [user, guestCart]);
+  }, [appliedPromo]);
 
+  // Refetch when the shopper signs in or out, or changes the promo code
   useEffect(() => {
     if (!authLoading) {
-      fetchCart();
+      fetchSummary();
     }
-  }, [authLoading, fetchCart]);
+  }, [authLoading, user, fetchSummary]);
 
   const handleUpdateQuantity = async (
-    item: CartDisplayItem,
+    item: CartSummaryItem,
     newQty: number,
   ) => {
     if (newQty < 1) return handleRemove(item);
     setUpdating(item.id);
+    setStockErrors((prev) => prev.filter((id) => id !== stockLineId(item)));
     try {
-      if (item.isGuest) {
-        updateGuestCartItem(item.id, newQty);
-        setItems((prev) =>
-          prev.map((i) => (i.id === item.id ? { ...i, quantity: newQty } : i)),
-        );
-      } else {
-        const res = await fetch("/api/cart", {
-          method: "PATCH",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ item_id: item.id, quantity: newQty }),
-        });
-        if (res.ok) {
-          setItems((prev) =>
-            prev.map((i) =>
-              i.id === item.id ? { ...i, quantity: newQty } : i,
-            ),
-          );
-        }
-      }
+      await apiFetch("/api/cart", {
+        method: "PATCH",
+        body: { item_id: item.id, quantity: newQty },
+      });
+      await fetchSummary();
+    } catch {
+      // ignore
     } finally {
       setUpdating(null);
     }
   };
 
-  const handleRemove = async (item: CartDisplayItem) => {
+  const handleRemove = async (item: CartSummaryItem) => {
     setUpdating(item.id);
     try {
-      if (item.isGuest) {
-        removeFromGuestCart(item.id);
-      } else {
-        await fetch("/api/cart", {
-          method: "DELETE",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ item_id: item.id }),
-        });
-      }
-      setItems((prev) => prev.filter((i) => i.id !== item.id));
+      await apiFetch("/api/cart", {
+        method: "DELETE",
+        body: { item_id: item.id },
+      });
+      await fetchSummary();
       refreshCartCount();
+    } catch {
+      // ignore
     } finally {
       setUpdating(null);
     }
   };
 
-  // Calculate pricing
-  const isAuthenticated = !!user;
-  const itemPricings = items.map((item) => ({
-    ...item,
-    pricing: calculateProductPrice(
-      item.product,
-      item.quantity,
-      isAuthenticated,
-    ),
-  }));
-
-  let totalAfterDiscounts = itemPricings.reduce(
-    (sum, item) => sum + item.pricing.finalPrice,
-    0,
-  );
-  const subtotal = itemPricings.reduce(
-    (sum, item) => sum + item.pricing.originalPrice,
-    0,
-  );
-
-  // Apply promo code
-  let promoDiscount = 0;
-  if (appliedPromo) {
-    const result = applyPromoCode(appliedPromo, totalAfterDiscounts);
-    if (result.valid) {
-      promoDiscount = result.discount_amount;
-      totalAfterDiscounts -= promoDiscount;
-    }
-  }
-
-  const totalDiscount = subtotal - totalAfterDiscounts;
-  const tax = calculateTax(totalAfterDiscounts);
-  const shipping = calculateShipping(totalAfterDiscounts);
-  const grandTotal = totalAfterDiscounts + tax.amount + shipping.cost;
-
   const handleApplyPromo = () => {
-    setPromoError(null);
-    if (!promoInput.trim()) return;
-    const result = applyPromoCode(
-      promoInput,
-      totalAfterDiscounts + promoDiscount,
-    );
-    if (result.valid) {
-      setAppliedPromo(result.code);
-      setPromoError(null);
-    } else {
-      setPromoError(result.error || "Invalid code");
-      setAppliedPromo(null);
-    }
+    const code = promoInput.trim().toUpperCase();
+    if (!code || code === appliedPromo) return;
+    setApplyingPromo(true);
+    setAppliedPromo(code);
   };
 
+  const promoResult = summary?.promoResult ?? null;
+
   if (authLoading || loading) {
     return (
       <div className="mx-auto max-w-7xl px-4 py-8">
@@ -210,7 +128,13 @@ export default function CartPage() {
         Shopping Cart
       </h1>
 
-      {items.length === 0 ? (
+      {!summary && summaryError ? (
+        <ErrorState
+          title="Couldn't load your cart"
+          message={summaryError}
+          retry={fetchSummary}
+        />
+      ) : !summary || summary.items.length === 0 ? (
         <EmptyState
           title="Your cart is empty"
           description="Browse our products and add items to your cart to get started."
@@ -243,11 +167,15 @@ export default function CartPage() {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Cart Items */}
           <div className="lg:col-span-2 space-y-4">
-            {itemPricings.map((item) => (
+            {summary.items.map((item) => (
               <div
                 key={item.id}
                 className={`glass rounded-xl p-4 flex gap-4 ${
                   updating === item.id ? "opacity-50" : ""
+                } ${
+                  stockErrors.includes(stockLineId(item))
+                    ? "border-danger/40"
+                    : ""
                 }`}
               >
                 {/* Image */}
@@ -272,19 +200,33 @@ export default function CartPage() {
                   <p className="text-xs text-text-muted capitalize mt-1">
                     {item.product.category}
                   </p>
+                  {item.variant && (
+                    <p className="text-xs text-text-secondary mt-0.5">
+                      {formatVariantOptions(item.variant.options)}
+                    </p>
+                  )}
 
                   {/* Price */}
                   <div className="flex items-center gap-2 mt-2">
                     <span className="text-sm font-bold text-text-primary">
-                      ${item.pricing.finalPrice.toFixed(2)}
+                      {formatPrice(item.pricing.finalPrice)}
                     </span>
                     {item.pricing.totalDiscount > 0 && (
                       <span className="text-xs text-text-muted line-through">
-                        ${item.pricing.originalPrice.toFixed(2)}
+                        {formatPrice(item.pricing.originalPrice)}
                       </span>
                     )}
                   </div>
 
+                  {/* Stock error from a rejected checkout */}
+                  {stockErrors.includes(stockLineId(item)) && (
+                    <p className="text-xs text-danger font-medium mt-1">
+                      {(item.variant ?? item.product).stock === 0
+                        ? "Sold out — please remove this item"
+                        : `Only ${(item.variant ?? item.product).stock} left in stock — please reduce the quantity`}
+                    </p>
+                  )}
+
                   {/* Discounts applied */}
                   {item.pricing.discounts.length > 0 && (
                     <div className="flex flex-wrap gap-1 mt-1">
@@ -358,44 +300,52 @@ export default function CartPage() {
               <div className="space-y-3 text-sm">
                 <div className="flex justify-between text-text-secondary">
                   <span>Subtotal</span>
-                  <span>${subtotal.toFixed(2)}</span>
+                  <span>{formatPrice(summary.subtotal)}</span>
                 </div>
 
-                {totalDiscount > 0 && (
+                {summary.lineDiscount > 0 && (
                   <div className="flex justify-between text-success">
                     <span>Discounts</span>
-                    <span>-${totalDiscount.toFixed(2)}</span>
+                    <span>-{formatPrice(summary.lineDiscount)}</span>
+                  </div>
+                )}
+
+                {summary.promoDiscount > 0 && (
+                  <div className="flex justify-between text-success">
+                    <span>Promo: {appliedPromo}</span>
+                    <span>-{formatPrice(summary.promoDiscount)}</span>
                   </div>
                 )}
 
                 {/* Tax */}
                 <div className="flex justify-between text-text-secondary">
-                  <span>{tax.label}</span>
-                  <span>${tax.amount.toFixed(2)}</span>
+                  <span>{summary.tax.label}</span>
+                  <span>{formatPrice(summary.tax.amount)}</span>
                 </div>
 
                 <div className="flex justify-between text-text-secondary">
                   <span>Shipping</span>
                   <span>
-                    {shipping.isFreeShipping ? (
+                    {summary.shipping.isFreeShipping ? (
                       <span className="text-success font-medium">FREE</span>
                     ) : (
-                      `$${shipping.cost.toFixed(2)}`
+                      formatPrice(summary.shipping.cost)
                     )}
                   </span>
                 </div>
 
-                {!shipping.isFreeShipping && (
-                  <p className="text-xs text-text-muted">
-                    Free shipping on orders over $
-                    {shipping.freeShippingThreshold.toLocaleString()}
-                  </p>
-                )}
+                {!summary.shipping.isFreeShipping &&
+                  summary.shipping.freeShippingThreshold !== null && (
+                    <p className="text-xs text-text-muted">
+                      Free shipping on orders over{" "}
+                      {formatPrice(summary.shipping.freeShippingThreshold)}
+                    </p>
+                  )}
 
                 <div className="border-t border-border/50 pt-3">
                   <div className="flex justify-between text-lg font-bold text-text-primary">
                     <span>Total</span>
-                    <span>${grandTotal.toFixed(2)}</span>
+                    <span>{formatPrice(summary.total)}</span>
                   </div>
                 </div>
               </div>
@@ -415,19 +365,23 @@ export default function CartPage() {
                   />
                   <button
                     onClick={handleApplyPromo}
-                    className="h-9 px-4 rounded-lg bg-primary text-white text-sm font-medium hover:bg-primary-dark transition-colors"
+                    disabled={applyingPromo}
+                    className="h-9 px-4 rounded-lg bg-primary text-white text-sm font-medium hover:bg-primary-dark disabled:opacity-50 transition-colors"
                   >
                     Apply
                   </button>
                 </div>
-                {promoError && (
-                  <p className="text-xs text-danger mt-1">{promoError}</p>
-                )}
                 {appliedPromo && (
                   <div className="flex items-center gap-2 mt-1">
-                    <span className="text-xs text-success">
-                      ✓ {appliedPromo} applied (-${promoDiscount.toFixed(2)})
-                    </span>
+                    {promoResult?.valid ? (
+                      <span className="text-xs text-success">
+                        ✓ {appliedPromo} applied
+                      </span>
+                    ) : (
+                      <span className="text-xs text-danger">
+                        {appliedPromo}: {promoResult?.error}
+                      </span>
+                    )}
                     <button
                       onClick={() => {
                         setAppliedPromo(null);
@@ -445,13 +399,13 @@ export default function CartPage() {
               </div>
 
               {/* Discount breakdown */}
-              {itemPricings.some((i) => i.pricing.discounts.length > 0) && (
+              {summary.items.some((i) => i.pricing.discounts.length > 0) && (
                 <div className="border-t border-border/50 pt-4">
                   <h3 className="text-xs font-semibold uppercase tracking-wider text-text-muted mb-2">
                     Applied Discounts
                   </h3>
                   <div className="space-y-1.5">
-                    {itemPricings.flatMap((item) =>
+                    {summary.items.flatMap((item) =>
                       item.pricing.discounts.map((d, i) => (
                         <div
                           key={`${item.id}-${i}`}
@@ -459,7 +413,7 @@ export default function CartPage() {
                         >
                           <span className="text-success">{d.label}</span>
                           <span className="text-success">
-                            -${d.amount.toFixed(2)}
+                            -{formatPrice(d.amount)}
                           </span>
                         </div>
                       )),
@@ -468,23 +422,50 @@ export default function CartPage() {
                 </div>
               )}
 
-              {!user && (
+              {!user && settings.member_discount_enabled && (
                 <div className="border-t border-border/50 pt-4">
                   <Link
                     href="/login?redirect=/cart"
                     className="block w-full text-center py-2.5 rounded-xl bg-surface-lighter text-sm font-medium text-primary-light hover:bg-surface-light transition-colors"
                   >
-                    Sign in for 5% member discount →
+                    Sign in for {settings.member_discount_percentage}% member
+                    discount →
                   </Link>
                 </div>
               )}
 
-              <Link
-                href="/checkout"
-                className="block w-full py-3 rounded-xl bg-gradient-to-r from-primary to-primary-dark text-white font-semibold text-sm hover:opacity-90 transition-opacity text-center"
-              >
-                Proceed to Checkout
-              </Link>
+              {stockErrors.length > 0 && (
+                <p className="text-xs text-danger">
+                  Some items no longer have enough stock. Update the highlighted
+                  lines to continue.
+                </p>
+              )}
+
+              {summaryError && (
+                <div className="p-3 rounded-lg bg-danger/10 border border-danger/20 text-sm text-danger">
+                  Couldn&apos;t update your totals: {summaryError}
+                </div>
+              )}
+
+              {summaryError ? (
+                <button
+                  onClick={fetchSummary}
+                  className="w-full py-3 rounded-xl bg-surface-lighter text-sm font-semibold text-text-primary hover:bg-surface-light transition-colors"
+                >
+                  Retry Pricing
+                </button>
+              ) : (
+                <Link
+                  href={
+                    promoResult?.valid
+                      ? `/checkout?promo=${encodeURIComponent(promoResult.code)}`
+                      : "/checkout"
+                  }
+                  className="block w-full py-3 rounded-xl bg-gradient-to-r from-primary to-primary-dark text-white font-semibold text-sm hover:opacity-90 transition-opacity text-center"
+                >
+                  Proceed to Checkout
+                </Link>
+              )}
             </div>
           </div>
         </div>
@@ -492,3 +473,17 @@ export default function CartPage() {
     </div>
   );
 }
+
+export default function CartPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="mx-auto max-w-7xl px-4 py-8">
+          <LoadingSpinner size="lg" />
+        </div>
+      }
+    >
+      <CartContent />
+    </Suspense>
+  );
+}
@@ -1,19 +1,22 @@
 import { Suspense } from "react";
-import { getProducts, getCategories } from "@/services/product-service";
+import {
+  getProducts,
+  getCategories,
+  getProductFacets,
+} from "@/services/product-service";
 import ProductGrid from "@/components/products/product-grid";
 import ProductFilters from "@/components/products/product-filters";
 import EmptyState from "@/components/ui/empty-state";
 import LoadingSpinner from "@/components/ui/loading-spinner";
 import Link from "next/link";
 import type { Metadata } from "next";
+import { parseProductQuery, productQueryString } from "@/lib/product-query";
+
+type SearchParams = Record<string, string | string[] | undefined>;
 
 interface CategoryPageProps {
   params: Promise<{ slug: string }>;
-  searchParams: Promise<{
-    sort?: string;
-    search?: string;
-    page?: string;
-  }>;
+  searchParams: Promise<SearchParams>;
 }
 
 export async function generateMetadata({
@@ -33,33 +36,27 @@ async function CategoryProducts({
   searchParams,
 }: {
   category: string;
-  searchParams: { sort?: string; search?: string; page?: string };
+  searchParams: SearchParams;
 }) {
-  const categories = await getCategories();
-  const {
-    data: products,
-    totalPages,
-    page,
-  } = await getProducts({
-    category,
-    sort: searchParams.sort as
-      | "price_asc"
-      | "price_desc"
-      | "newest"
-      | "name_asc"
-      | undefined,
-    search: searchParams.search,
-    page: parseInt(searchParams.page || "1", 10),
-    limit: 12,
-  });
+  // Filters live in the URL, so filtered views can be shared
+  const filters = { ...parseProductQuery(searchParams), category, limit: 12 };
+
+  const [categories, { data: products, totalPages, page }, facets] =
+    await Promise.all([
+      getCategories(),
+      getProducts(filters),
+      getProductFacets(filters),
+    ]);
 
   return (
     <div className="space-y-8">
       <ProductFilters
         categories={categories}
         currentCategory={category}
-        currentSort={searchParams.sort}
-        currentSearch={searchParams.search}
+        currentSort={filters.sort}
+        currentSearch={filters.search}
+        facets={facets}
+        currentFacets={filters}
       />
 
       {products.length === 0 ? (
@@ -83,11 +80,11 @@ async function CategoryProducts({
             <div className="flex items-center justify-center gap-2 pt-4">
               {page > 1 && (
                 <Link
-                  href={`/category/${category}?${new URLSearchParams({
-                    ...(searchParams.sort && { sort: searchParams.sort }),
-                    ...(searchParams.search && { search: searchParams.search }),
-                    page: String(page - 1),
-                  }).toString()}`}
+                  href={`/category/${category}?${productQueryString({
+                    ...filters,
+                    category: undefined,
+                    page: page - 1,
+                  })}`}
                   className="h-9 px-4 inline-flex items-center rounded-lg bg-surface-light text-sm text-text-secondary hover:bg-surface-lighter transition-colors"
                 >
                   ← Previous
@@ -98,11 +95,11 @@ async function CategoryProducts({
               </span>
               {page < totalPages && (
                 <Link
-                  href={`/category/${category}?${new URLSearchParams({
-                    ...(searchParams.sort && { sort: searchParams.sort }),
-                    ...(searchParams.search && { search: searchParams.search }),
-                    page: String(page + 1),
-                  }).toString()}`}
+                  href={`/category/${category}?${productQueryString({
+                    ...filters,
+                    category: undefined,
+                    page: page + 1,
+                  })}`}
                   className="h-9 px-4 inline-flex items-center rounded-lg bg-surface-light text-sm text-text-secondary hover:bg-surface-lighter transition-colors"
                 >
                   Next →
@@ -1,8 +1,22 @@
-"use client";
-
-import { Suspense } from "react";
-import { useSearchParams } from "next/navigation";
+import { notFound, redirect } from "next/navigation";
 import Link from "next/link";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { getOrderById } from "@/services/order-service";
+import { getStoreSettings } from "@/services/settings-service";
+import { formatMoney } from "@/lib/currency";
+import { formatVariantOptions } from "@/lib/variants";
+import { getOrderTaxLabel } from "@/lib/orders";
+import { SHIPPING_METHOD_LABELS } from "@/lib/pricing-engine";
+import OrderAddresses from "@/components/orders/order-addresses";
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Order Confirmed",
+};
+
+interface ConfirmationPageProps {
+  searchParams: Promise<{ orderId?: string }>;
+}
 
 /**
  * Order Confirmation Page
@@ -11,12 +25,37 @@ import Link from "next/link";
  * templates/pages/page.order-confirmation.template.html
  *
  * In Neto, this page is shown after successful payment
- * and displays the order ID, items, and total.
+ * and displays the order ID, items, and total. The order is
+ * loaded from the database by id — nothing is read from the URL
+ * except the id itself.
  */
-function ConfirmationContent() {
-  const params = useSearchParams();
-  const orderId = params.get("orderId") || "ORD-DEMO";
-  const total = params.get("total") || "0.00";
+export default async function ConfirmationPage({
+  searchParams,
+}: ConfirmationPageProps) {
+  const { orderId } = await searchParams;
+
+  if (!orderId) {
+    notFound();
+  }
+
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect(
+      `/login?redirect=${encodeURIComponent(`/checkout/confirmation?orderId=${orderId}`)}`,
+    );
+  }
+
+  const order = await getOrderById(orderId, user.id);
+
+  if (!order) {
+    notFound();
+  }
+
+  const { currency } = await getStoreSettings();
 
   return (
     <div className="mx-auto max-w-2xl px-4 sm:px-6 lg:px-8 py-16 text-center">
@@ -55,23 +94,19 @@ function ConfirmationContent() {
           <div className="flex justify-between">
             <span className="text-text-muted">Order ID</span>
             <span className="font-mono font-semibold text-primary-light">
-              {orderId}
+              {order.id.slice(0, 8).toUpperCase()}
             </span>
           </div>
           <div className="flex justify-between">
             <span className="text-text-muted">Status</span>
-            <span className="inline-flex items-center px-2 py-0.5 rounded-md text-xs font-medium bg-success/10 text-success">
-              Confirmed
+            <span className="inline-flex items-center px-2 py-0.5 rounded-md text-xs font-medium bg-success/10 text-success capitalize">
+              {order.status}
             </span>
           </div>
-          <div className="flex justify-between">
-            <span className="text-text-muted">Total Paid</span>
-            <span className="font-bold text-text-primary">${total}</span>
-          </div>
           <div className="flex justify-between">
             <span className="text-text-muted">Date</span>
             <span className="text-text-secondary">
-              {new Date().toLocaleDateString("en-AU", {
+              {new Date(order.created_at).toLocaleDateString("en-AU", {
                 year: "numeric",
                 month: "long",
                 day: "numeric",
@@ -80,6 +115,67 @@ function ConfirmationContent() {
           </div>
         </div>
 
+        {/* Line items */}
+        <div className="border-t border-border/50 mt-4 pt-4 space-y-2 text-sm">
+          {order.order_items.map((item) => (
+            <div key={item.id} className="flex justify-between gap-4">
+              <span className="text-text-secondary truncate">
+                {item.product_name}
+                {item.variant_options &&
+                  ` (${formatVariantOptions(item.variant_options)})`}{" "}
+                × {item.quantity}
+              </span>
+              <span className="text-text-primary flex-shrink-0">
+                {formatMoney(item.line_total, currency)}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        {/* Totals */}
+        <div className="border-t border-border/50 mt-4 pt-4 space-y-2 text-sm">
+          <div className="flex justify-between text-text-secondary">
+            <span>Subtotal</span>
+            <span>{formatMoney(order.subtotal, currency)}</span>
+          </div>
+          {order.discount_total > 0 && (
+            <div className="flex justify-between text-success">
+              <span>
+                Discounts
+                {order.promo_code ? ` (incl. ${order.promo_code})` : ""}
+              </span>
+              <span>-{formatMoney(order.discount_total, currency)}</span>
+            </div>
+          )}
+          <div className="flex justify-between text-text-secondary">
+            <span>{getOrderTaxLabel(order)}</span>
+            <span>{formatMoney(order.tax_amount, currency)}</span>
+          </div>
+          <div className="flex justify-between text-text-secondary">
+            <span>
+              Shipping
+              {order.shipping_method &&
+                ` (${SHIPPING_METHOD_LABELS[order.shipping_method]})`}
+            </span>
+            <span>
+              {order.shipping_cost === 0
+                ? "FREE"
+                : formatMoney(order.shipping_cost, currency)}
+            </span>
+          </div>
+          <div className="flex justify-between font-bold text-text-primary">
+            <span>Total</span>
+            <span>{formatMoney(order.total, currency)}</span>
+          </div>
+        </div>
+
+        <div className="border-t border-border/50 mt-4 pt-4">
+          <OrderAddresses
+            shippingAddress={order.shipping_address}
+            billingAddress={order.billing_address}
+          />
+        </div>
+
         <div className="border-t border-border/50 mt-4 pt-4">
           <p className="text-xs text-text-muted">
             In Neto, order confirmation emails are sent automatically via the
@@ -101,7 +197,7 @@ function ConfirmationContent() {
               page.order-confirmation.template.html
             </code>
           </li>
-          <li>• Neto auto-generates order IDs via the Orders API</li>
+          <li>• Order totals are re-calculated and stored server-side</li>
           <li>
             • Payment is handled by Neto&apos;s integrated gateway (Stripe,
             PayPal, etc.)
@@ -119,26 +215,12 @@ function ConfirmationContent() {
           Continue Shopping
         </Link>
         <Link
-          href="/"
+          href={`/account/orders/${order.id}`}
           className="px-6 py-2.5 rounded-xl bg-surface-lighter text-sm font-medium text-text-secondary hover:bg-surface-light transition-colors"
         >
-          Back to Home
+          View Order
         </Link>
       </div>
     </div>
   );
 }
-
-export default function ConfirmationPage() {
-  return (
-    <Suspense
-      fallback={
-        <div className="mx-auto max-w-2xl px-4 py-16 text-center">
-          <p className="text-text-muted">Loading confirmation...</p>
-        </div>
-      }
-    >
-      <ConfirmationContent />
-    </Suspense>
-  );
-}
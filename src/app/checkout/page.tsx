@@ -1,143 +1,192 @@
 "use client";
 
-import { useEffect, useState, useCallback } from "react";
+import { Suspense, useEffect, useState, useCallback } from "react";
 import { useAuth } from "@/components/providers/auth-provider";
 import { useCart } from "@/components/providers/cart-provider";
+import { useCurrency } from "@/components/providers/currency-provider";
+import { formatVariantOptions } from "@/lib/variants";
+import { formatMoney } from "@/lib/currency";
+import { apiFetch, ApiError } from "@/lib/api-client";
 import {
-  calculateProductPrice,
-  calculateShipping,
-  calculateTax,
-  applyPromoCode,
-} from "@/lib/pricing-engine";
+  EMPTY_ADDRESS,
+  formatAddressLines,
+  validateAddress,
+} from "@/lib/addresses";
 import Link from "next/link";
-import { useRouter } from "next/navigation";
+import { useRouter, useSearchParams } from "next/navigation";
 import LoadingSpinner from "@/components/ui/loading-spinner";
-import type { CartItemWithProduct, Product, GuestCartItem } from "@/types";
-
-interface CartDisplayItem {
-  id: string;
-  product: Product;
-  quantity: number;
-  isGuest: boolean;
-}
+import ErrorState from "@/components/ui/error-state";
+import AddressForm from "@/components/checkout/address-form";
+import type {
+  Address,
+  AddressFieldErrors,
+  AddressInput,
+  CartSummaryData,
+  Order,
+  ShippingMethod,
+} from "@/types";
 
 /**
- * Checkout Page — Order Review
+ * Checkout Page — Address & Order Review
  *
  * Maps to Neto's built-in checkout flow:
- * - Neto: /checkout/ → order review → payment → confirmation
- * - NetoStore: /checkout → review → /checkout/confirmation
+ * - Neto: /checkout/ → address → order review → payment → confirmation
+ * - NetoStore: /checkout → address & review → /checkout/confirmation
  *
  * In Neto, the checkout template is customizable via
  * templates/pages/page.checkout.template.html
  */
-export default function CheckoutPage() {
+function CheckoutContent() {
   const { user, loading: authLoading } = useAuth();
-  const { guestCart } = useCart();
+  const { refreshCartCount } = useCart();
+  const { currency, baseCurrency, formatPrice } = useCurrency();
   const router = useRouter();
-  const [items, setItems] = useState<CartDisplayItem[]>([]);
+  const searchParams = useSearchParams();
+  const promoParam = searchParams.get("promo");
+  const [summary, setSummary] = useState<CartSummaryData | null>(null);
   const [loading, setLoading] = useState(true);
+  const [summaryError, setSummaryError] = useState<string | null>(null);
   const [placing, setPlacing] = useState(false);
-  const [promoCode] = useState<string | null>(null);
+  const [orderError, setOrderError] = useState<string | null>(null);
+  const [savedAddresses, setSavedAddresses] = useState<Address[]>([]);
+  // A saved address id, or "new" while entering one
+  const [addressChoice, setAddressChoice] = useState("new");
+  const [shippingAddress, setShippingAddress] =
+    useState<AddressInput>(EMPTY_ADDRESS);
+  const [shippingErrors, setShippingErrors] = useState<AddressFieldErrors>({});
+  const [saveAddress, setSaveAddress] = useState(true);
+  const [billingSame, setBillingSame] = useState(true);
+  const [billingAddress, setBillingAddress] =
+    useState<AddressInput>(EMPTY_ADDRESS);
+  const [billingErrors, setBillingErrors] = useState<AddressFieldErrors>({});
+  const [shippingMethod, setShippingMethod] = useState<ShippingMethod>();
 
-  const fetchCart = useCallback(async () => {
-    setLoading(true);
-    try {
-      if (user) {
-        const res = await fetch("/api/cart");
-        if (res.ok) {
-          const data = await res.json();
-          const cartItems: CartItemWithProduct[] = data.data || [];
-          setItems(
-            cartItems.map((item) => ({
-              id: item.id,
-              product: item.products,
-              quantity: item.quantity,
-              isGuest: false,
-            })),
-          );
-        }
-      } else {
-        if (guestCart.length > 0) {
-          const res = await fetch(`/api/products?limit=50`);
-          if (res.ok) {
-            const data = await res.json();
-            const products: Product[] = data.data || [];
-            const guestItems: CartDisplayItem[] = guestCart
-              .map((item: GuestCartItem) => {
-                const product = products.find(
-                  (p: Product) => p.id === item.product_id,
-                );
-                if (!product) return null;
-                return {
-                  id: item.product_id,
-                  product,
-                  quantity: item.quantity,
-                  isGuest: true,
-                };
-              })
-              .filter(Boolean) as CartDisplayItem[];
-            setItems(guestItems);
-          }
-        } else {
-          setItems([]);
+  // Saved addresses, starting with the default one selected
+  useEffect(() => {
+    if (authLoading || !user) return;
+    apiFetch<Address[]>("/api/addresses")
+      .then((addresses) => {
+        setSavedAddresses(addresses);
+        if (addresses.length > 0) {
+          setAddressChoice(addresses[0].id);
+          setShippingAddress(addresses[0]);
         }
-      }
-    } catch {
-      // ignore
+      })
+      .catch(() => setSavedAddresses([]));
+  }, [authLoading, user]);
+
+  const handleAddressChoice = (choice: string) => {
+    setAddressChoice(choice);
+    setShippingErrors({});
+    setShippingAddress(
+      savedAddresses.find((address) => address.id === choice) ?? EMPTY_ADDRESS,
+    );
+  };
+
+  // Quote shipping from the destination's zone once there's a postcode;
+  // until then it's the flat-rate estimate
+  const { country, postcode } = shippingAddress;
+  const destinationPostcode = /^\d{4}$/.test(postcode) ? postcode : null;
+
+  // The cart priced server-side, with the promo code carried over from
+  // the cart page. Re-priced when the destination or method changes, and
+  // when the shopper signs in or out
+  const fetchSummary = useCallback(async () => {
+    try {
+      const data = await apiFetch<CartSummaryData>("/api/cart/summary", {
+        method: "POST",
+        body: {
+          promo_code: promoParam ?? undefined,
+          destination: destinationPostcode
+            ? { country, postcode: destinationPostcode }
+            : undefined,
+          shipping_method: shippingMethod,
+        },
+      });
+      setSummary(data);
+      setSummaryError(null);
+    } catch (error) {
+      setSummaryError(
+        error instanceof Error ? error.message : "Failed to price your cart",
+      );
     } finally {
       setLoading(false);
     }
-  }, [user, guestCart]);
+  }, [promoParam, country, destinationPostcode, shippingMethod]);
 
   useEffect(() => {
     if (!authLoading) {
-      fetchCart();
+      fetchSummary();
     }
-  }, [authLoading, fetchCart]);
-
-  // Pricing calculation
-  const isAuthenticated = !!user;
-  const itemPricings = items.map((item) => ({
-    ...item,
-    pricing: calculateProductPrice(
-      item.product,
-      item.quantity,
-      isAuthenticated,
-    ),
-  }));
-
-  let totalAfterDiscounts = itemPricings.reduce(
-    (sum, item) => sum + item.pricing.finalPrice,
-    0,
-  );
-  const subtotal = itemPricings.reduce(
-    (sum, item) => sum + item.pricing.originalPrice,
-    0,
-  );
-
-  let promoDiscount = 0;
-  if (promoCode) {
-    const result = applyPromoCode(promoCode, totalAfterDiscounts);
-    if (result.valid) {
-      promoDiscount = result.discount_amount;
-      totalAfterDiscounts -= promoDiscount;
-    }
-  }
+  }, [authLoading, user, fetchSummary]);
 
-  const totalDiscount = subtotal - totalAfterDiscounts;
-  const tax = calculateTax(totalAfterDiscounts);
-  const shipping = calculateShipping(totalAfterDiscounts);
-  const grandTotal = totalAfterDiscounts + tax.amount + shipping.cost;
+  const promoResult = summary?.promoResult ?? null;
+  const promoCode = promoResult?.valid ? promoResult.code : null;
 
   const handlePlaceOrder = async () => {
-    setPlacing(true);
-    // Simulate order placement (in real Neto, this hits the order API)
-    await new Promise((resolve) => setTimeout(resolve, 1500));
-    const orderId = `ORD-${Date.now().toString(36).toUpperCase()}`;
-    router.push(
-      `/checkout/confirmation?orderId=${orderId}&total=${grandTotal.toFixed(2)}`,
+    const shippingCheck = validateAddress(shippingAddress);
+    const billingCheck = billingSame
+      ? shippingCheck
+      : validateAddress(billingAddress);
+    setShippingErrors(shippingCheck.valid ? {} : shippingCheck.errors);
+    setBillingErrors(
+      billingSame || billingCheck.valid ? {} : billingCheck.errors,
     );
+    if (!shippingCheck.valid || !billingCheck.valid) {
+      setOrderError("Please check your address details");
+      return;
+    }
+
+    setPlacing(true);
+    setOrderError(null);
+    try {
+      if (addressChoice === "new" && saveAddress) {
+        // Saving is a convenience; a failure shouldn't block the order
+        await apiFetch("/api/addresses", {
+          method: "POST",
+          body: shippingCheck.address,
+        }).catch(() => null);
+      }
+
+      // The server re-prices the cart, so only the promo code is sent
+      const order = await apiFetch<Order>("/api/orders", {
+        method: "POST",
+        body: {
+          promo_code: promoCode,
+          shipping_address: shippingCheck.address,
+          billing_address: billingSame ? null : billingCheck.address,
+          shipping_method: summary?.shipping.method,
+        },
+      });
+
+      refreshCartCount();
+      router.push(`/checkout/confirmation?orderId=${order.id}`);
+    } catch (error) {
+      if (error instanceof ApiError && error.code === "OUT_OF_STOCK") {
+        // Send the shopper back to the cart with the failing lines flagged
+        const lineIds = [
+          ...((error.details.product_ids as string[]) ?? []),
+          ...((error.details.variant_ids as string[]) ?? []),
+        ];
+        router.push(`/cart?insufficient_stock=${lineIds.join(",")}`);
+        return;
+      }
+      if (error instanceof ApiError && error.code === "VALIDATION_FAILED") {
+        // Field errors are keyed "shipping_address.postcode" etc.
+        const fieldErrors = (prefix: string) =>
+          Object.fromEntries(
+            Object.entries(error.fields)
+              .filter(([key]) => key.startsWith(prefix))
+              .map(([key, message]) => [key.slice(prefix.length), message]),
+          );
+        setShippingErrors(fieldErrors("shipping_address."));
+        setBillingErrors(fieldErrors("billing_address."));
+      }
+      setOrderError(
+        error instanceof Error ? error.message : "Something went wrong",
+      );
+      setPlacing(false);
+    }
   };
 
   if (authLoading || loading) {
@@ -148,7 +197,22 @@ export default function CheckoutPage() {
     );
   }
 
-  if (items.length === 0) {
+  if (!summary && summaryError) {
+    return (
+      <div className="mx-auto max-w-4xl px-4 py-8">
+        <h1 className="text-2xl font-bold text-text-primary mb-4 text-center">
+          Checkout
+        </h1>
+        <ErrorState
+          title="Couldn't load your cart"
+          message={summaryError}
+          retry={fetchSummary}
+        />
+      </div>
+    );
+  }
+
+  if (!summary || summary.items.length === 0) {
     return (
       <div className="mx-auto max-w-4xl px-4 py-8 text-center">
         <h1 className="text-2xl font-bold text-text-primary mb-4">Checkout</h1>
@@ -163,6 +227,17 @@ export default function CheckoutPage() {
     );
   }
 
+  const {
+    items,
+    subtotal,
+    lineDiscount,
+    promoDiscount,
+    tax,
+    shipping,
+    total: grandTotal,
+  } = summary;
+  const canShip = destinationPostcode !== null && shipping.method !== null;
+
   return (
     <div className="mx-auto max-w-4xl px-4 sm:px-6 lg:px-8 py-8">
       {/* Breadcrumb */}
@@ -179,7 +254,7 @@ export default function CheckoutPage() {
       </nav>
 
       <h1 className="text-2xl md:text-3xl font-bold text-text-primary mb-8">
-        Order Review
+        Checkout
       </h1>
 
       <div className="grid grid-cols-1 lg:grid-cols-5 gap-8">
@@ -187,10 +262,10 @@ export default function CheckoutPage() {
         <div className="lg:col-span-3 space-y-4">
           <div className="glass rounded-xl p-6">
             <h2 className="text-lg font-semibold text-text-primary mb-4">
-              Items ({items.reduce((s, i) => s + i.quantity, 0)})
+              Items ({summary.itemCount})
             </h2>
             <div className="divide-y divide-border/30">
-              {itemPricings.map((item) => (
+              {items.map((item) => (
                 <div key={item.id} className="py-3 flex justify-between">
                   <div className="flex-1 min-w-0 pr-4">
                     <p className="text-sm font-medium text-text-primary truncate">
@@ -199,6 +274,11 @@ export default function CheckoutPage() {
                     <p className="text-xs text-text-muted capitalize">
                       {item.product.category} · Qty: {item.quantity}
                     </p>
+                    {item.variant && (
+                      <p className="text-xs text-text-secondary">
+                        {formatVariantOptions(item.variant.options)}
+                      </p>
+                    )}
                     {item.pricing.discounts.length > 0 && (
                       <div className="flex flex-wrap gap-1 mt-1">
                         {item.pricing.discounts.map((d, i) => (
@@ -214,11 +294,11 @@ export default function CheckoutPage() {
                   </div>
                   <div className="text-right flex-shrink-0">
                     <p className="text-sm font-bold text-text-primary">
-                      ${item.pricing.finalPrice.toFixed(2)}
+                      {formatPrice(item.pricing.finalPrice)}
                     </p>
                     {item.pricing.totalDiscount > 0 && (
                       <p className="text-xs text-text-muted line-through">
-                        ${item.pricing.originalPrice.toFixed(2)}
+                        {formatPrice(item.pricing.originalPrice)}
                       </p>
                     )}
                   </div>
@@ -227,39 +307,174 @@ export default function CheckoutPage() {
             </div>
           </div>
 
-          {/* Shipping Info (simulated) */}
+          {/* Shipping Address */}
           <div className="glass rounded-xl p-6">
             <h2 className="text-lg font-semibold text-text-primary mb-4">
-              Shipping
+              Shipping Address
             </h2>
-            <div className="flex items-center gap-3">
-              <div className="h-10 w-10 rounded-lg bg-surface-lighter flex items-center justify-center text-text-muted">
-                <svg
-                  xmlns="http://www.w3.org/2000/svg"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                  strokeWidth={1.5}
-                  stroke="currentColor"
-                  className="h-5 w-5"
+
+            {savedAddresses.length > 0 && (
+              <div className="space-y-2 mb-4">
+                {savedAddresses.map((address) => (
+                  <label
+                    key={address.id}
+                    className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                      addressChoice === address.id
+                        ? "border-primary bg-primary/5"
+                        : "border-border/50 hover:bg-surface-light/50"
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="saved-address"
+                      className="mt-1"
+                      checked={addressChoice === address.id}
+                      onChange={() => handleAddressChoice(address.id)}
+                    />
+                    <span className="text-sm text-text-secondary">
+                      {formatAddressLines(address).join(", ")}
+                      {address.is_default && (
+                        <span className="ml-2 text-xs text-primary-light">
+                          Default
+                        </span>
+                      )}
+                    </span>
+                  </label>
+                ))}
+                <label
+                  className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                    addressChoice === "new"
+                      ? "border-primary bg-primary/5"
+                      : "border-border/50 hover:bg-surface-light/50"
+                  }`}
                 >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    d="M8.25 18.75a1.5 1.5 0 0 1-3 0m3 0a1.5 1.5 0 0 0-3 0m3 0h6m-9 0H3.375a1.125 1.125 0 0 1-1.125-1.125V14.25m17.25 4.5a1.5 1.5 0 0 1-3 0m3 0a1.5 1.5 0 0 0-3 0m3 0h1.125c.621 0 1.129-.504 1.09-1.124a17.902 17.902 0 0 0-3.213-9.193 2.056 2.056 0 0 0-1.58-.86H14.25M16.5 18.75h-2.25m0-11.177v-.958c0-.568-.422-1.048-.987-1.106a48.554 48.554 0 0 0-10.026 0 1.106 1.106 0 0 0-.987 1.106v7.635m12-6.677v6.677m0 4.5v-4.5m0 0h-12"
+                  <input
+                    type="radio"
+                    name="saved-address"
+                    checked={addressChoice === "new"}
+                    onChange={() => handleAddressChoice("new")}
                   />
-                </svg>
+                  <span className="text-sm text-text-primary">
+                    Use a new address
+                  </span>
+                </label>
               </div>
-              <div>
-                <p className="text-sm font-medium text-text-primary">
-                  Standard Shipping
-                </p>
-                <p className="text-xs text-text-muted">
-                  {shipping.isFreeShipping
-                    ? "FREE — Order qualifies for free shipping"
-                    : `$${shipping.cost.toFixed(2)} — Free on orders over $${shipping.freeShippingThreshold.toLocaleString()}`}
+            )}
+
+            {addressChoice === "new" ? (
+              <>
+                <AddressForm
+                  id="shipping"
+                  value={shippingAddress}
+                  onChange={setShippingAddress}
+                  errors={shippingErrors}
+                />
+                {user && (
+                  <label className="flex items-center gap-2 mt-4 text-sm text-text-secondary">
+                    <input
+                      type="checkbox"
+                      checked={saveAddress}
+                      onChange={(e) => setSaveAddress(e.target.checked)}
+                    />
+                    Save to my addresses
+                  </label>
+                )}
+              </>
+            ) : (
+              Object.values(shippingErrors).map((message) => (
+                <p key={message} className="text-xs text-danger">
+                  {message}
                 </p>
+              ))
+            )}
+          </div>
+
+          {/* Billing Address */}
+          <div className="glass rounded-xl p-6">
+            <h2 className="text-lg font-semibold text-text-primary mb-4">
+              Billing Address
+            </h2>
+            <label className="flex items-center gap-2 text-sm text-text-secondary">
+              <input
+                type="checkbox"
+                checked={billingSame}
+                onChange={(e) => setBillingSame(e.target.checked)}
+              />
+              Same as shipping address
+            </label>
+            {!billingSame && (
+              <div className="mt-4">
+                <AddressForm
+                  id="billing"
+                  value={billingAddress}
+                  onChange={setBillingAddress}
+                  errors={billingErrors}
+                />
               </div>
-            </div>
+            )}
+          </div>
+
+          {/* Delivery */}
+          <div className="glass rounded-xl p-6">
+            <h2 className="text-lg font-semibold text-text-primary mb-4">
+              Delivery
+            </h2>
+
+            {destinationPostcode === null ? (
+              <p className="text-xs text-text-muted">
+                Enter your shipping address to see delivery options.
+              </p>
+            ) : shipping.options.length === 0 ? (
+              <p className="text-sm text-danger">
+                Sorry, we don&apos;t deliver to this postcode.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {shipping.options.map((option) => (
+                  <label
+                    key={option.method}
+                    className={`flex items-center justify-between gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                      shipping.method === option.method
+                        ? "border-primary bg-primary/5"
+                        : "border-border/50 hover:bg-surface-light/50"
+                    }`}
+                  >
+                    <div className="flex items-center gap-3">
+                      <input
+                        type="radio"
+                        name="shipping-method"
+                        checked={shipping.method === option.method}
+                        onChange={() => setShippingMethod(option.method)}
+                      />
+                      <div>
+                        <p className="text-sm font-medium text-text-primary">
+                          {option.label}
+                        </p>
+                        {option.estimatedDays && (
+                          <p className="text-xs text-text-muted">
+                            {option.estimatedDays}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                    <span className="text-sm font-medium text-text-primary">
+                      {option.cost === 0 ? (
+                        <span className="text-success">FREE</span>
+                      ) : (
+                        formatPrice(option.cost)
+                      )}
+                    </span>
+                  </label>
+                ))}
+                {shipping.freeShippingThreshold !== null &&
+                  !shipping.isFreeShipping && (
+                    <p className="text-xs text-text-muted">
+                      Free standard shipping on orders over{" "}
+                      {formatPrice(shipping.freeShippingThreshold)}
+                    </p>
+                  )}
+              </div>
+            )}
           </div>
         </div>
 
@@ -273,35 +488,40 @@ export default function CheckoutPage() {
             <div className="space-y-3 text-sm">
               <div className="flex justify-between text-text-secondary">
                 <span>Subtotal</span>
-                <span>${subtotal.toFixed(2)}</span>
+                <span>{formatPrice(subtotal)}</span>
               </div>
 
-              {totalDiscount > 0 && (
+              {lineDiscount > 0 && (
                 <div className="flex justify-between text-success">
                   <span>Discounts</span>
-                  <span>-${totalDiscount.toFixed(2)}</span>
+                  <span>-{formatPrice(lineDiscount)}</span>
                 </div>
               )}
 
               {promoDiscount > 0 && (
                 <div className="flex justify-between text-success">
                   <span>Promo: {promoCode}</span>
-                  <span>-${promoDiscount.toFixed(2)}</span>
+                  <span>-{formatPrice(promoDiscount)}</span>
                 </div>
               )}
 
               <div className="flex justify-between text-text-secondary">
                 <span>{tax.label}</span>
-                <span>${tax.amount.toFixed(2)}</span>
+                <span>{formatPrice(tax.amount)}</span>
               </div>
 
               <div className="flex justify-between text-text-secondary">
-                <span>Shipping</span>
+                <span>
+                  Shipping
+                  {destinationPostcode === null && (
+                    <span className="text-text-muted"> (estimate)</span>
+                  )}
+                </span>
                 <span>
                   {shipping.isFreeShipping ? (
                     <span className="text-success font-medium">FREE</span>
                   ) : (
-                    `$${shipping.cost.toFixed(2)}`
+                    formatPrice(shipping.cost)
                   )}
                 </span>
               </div>
@@ -309,21 +529,49 @@ export default function CheckoutPage() {
               <div className="border-t border-border/50 pt-3">
                 <div className="flex justify-between text-lg font-bold text-text-primary">
                   <span>Total</span>
-                  <span>${grandTotal.toFixed(2)}</span>
+                  <span>{formatPrice(grandTotal)}</span>
                 </div>
+                {currency !== baseCurrency && (
+                  <p className="text-xs text-text-muted mt-1 text-right">
+                    You&apos;ll be charged{" "}
+                    {formatMoney(grandTotal, baseCurrency)}
+                  </p>
+                )}
               </div>
             </div>
 
-            <button
-              onClick={handlePlaceOrder}
-              disabled={placing}
-              className="w-full py-3 rounded-xl bg-gradient-to-r from-primary to-primary-dark text-white font-semibold text-sm hover:opacity-90 transition-opacity disabled:opacity-50"
-            >
-              {placing ? "Placing Order..." : "Place Order"}
-            </button>
+            {summaryError && (
+              <div className="p-3 rounded-lg bg-danger/10 border border-danger/20 text-sm text-danger">
+                Couldn&apos;t update your totals: {summaryError}
+              </div>
+            )}
+
+            {orderError && (
+              <div className="p-3 rounded-lg bg-danger/10 border border-danger/20 text-sm text-danger">
+                {orderError}
+              </div>
+            )}
+
+            {user ? (
+              <button
+                onClick={handlePlaceOrder}
+                disabled={placing || !canShip || summaryError !== null}
+                className="w-full py-3 rounded-xl bg-gradient-to-r from-primary to-primary-dark text-white font-semibold text-sm hover:opacity-90 transition-opacity disabled:opacity-50"
+              >
+                {placing ? "Placing Order..." : "Place Order"}
+              </button>
+            ) : (
+              <Link
+                href="/login?redirect=/checkout"
+                className="block w-full py-3 rounded-xl bg-gradient-to-r from-primary to-primary-dark text-white font-semibold text-sm hover:opacity-90 transition-opacity text-center"
+              >
+                Sign in to Place Order
+              </Link>
+            )}
 
             <p className="text-[10px] text-text-muted text-center">
-              Demo checkout — no real payment is processed.
+              Demo checkout — payments go through the configured gateway (a mock
+              one in development).
               <br />
               In Neto, this connects to payment gateways via the Payments API.
             </p>
@@ -340,3 +588,17 @@ export default function CheckoutPage() {
     </div>
   );
 }
+
+export default function CheckoutPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="mx-auto max-w-4xl px-4 py-8">
+          <LoadingSpinner size="lg" />
+        </div>
+      }
+    >
+      <CheckoutContent />
+    </Suspense>
+  );
+}
@@ -3,6 +3,13 @@ import { Inter } from "next/font/google";
 import "./globals.css";
 import { AuthProvider } from "@/components/providers/auth-provider";
 import { CartProvider } from "@/components/providers/cart-provider";
+import { StoreSettingsProvider } from "@/components/providers/store-settings-provider";
+import { CurrencyProvider } from "@/components/providers/currency-provider";
+import { getStoreSettings } from "@/services/settings-service";
+import { getQuantityBreaks } from "@/services/product-service";
+import { getExchangeRates } from "@/services/currency-service";
+import { CURRENCY_COOKIE } from "@/lib/currency";
+import { cookies } from "next/headers";
 import Navbar from "@/components/layout/navbar";
 import Footer from "@/components/layout/footer";
 
@@ -37,21 +44,39 @@ export const metadata: Metadata = {
   },
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const [storeSettings, quantityBreaks, exchangeRates, cookieStore] =
+    await Promise.all([
+      getStoreSettings(),
+      getQuantityBreaks().catch(() => []),
+      getExchangeRates().catch(() => []),
+      cookies(),
+    ]);
+
   return (
     <html lang="en" className={inter.variable}>
       <body className="min-h-screen flex flex-col antialiased">
-        <AuthProvider>
-          <CartProvider>
-            <Navbar />
-            <main className="flex-1">{children}</main>
-            <Footer />
-          </CartProvider>
-        </AuthProvider>
+        <StoreSettingsProvider
+          settings={storeSettings}
+          quantityBreaks={quantityBreaks}
+        >
+          <CurrencyProvider
+            initialCurrency={cookieStore.get(CURRENCY_COOKIE)?.value ?? null}
+            rates={exchangeRates}
+          >
+            <AuthProvider>
+              <CartProvider>
+                <Navbar />
+                <main className="flex-1">{children}</main>
+                <Footer />
+              </CartProvider>
+            </AuthProvider>
+          </CurrencyProvider>
+        </StoreSettingsProvider>
       </body>
     </html>
   );
@@ -1,12 +1,18 @@
 import { Suspense } from "react";
-import { getProducts } from "@/services/product-service";
-import { getCategories } from "@/services/product-service";
+import {
+  getProducts,
+  getCategories,
+  getProductFacets,
+} from "@/services/product-service";
+import { getStoreSettings } from "@/services/settings-service";
 import ProductGrid from "@/components/products/product-grid";
 import ProductFilters from "@/components/products/product-filters";
 import EmptyState from "@/components/ui/empty-state";
 import LoadingSpinner from "@/components/ui/loading-spinner";
 import Link from "next/link";
 import type { Metadata } from "next";
+import { parseProductQuery, productQueryString } from "@/lib/product-query";
+import { formatMoney } from "@/lib/currency";
 
 export const metadata: Metadata = {
   title: "Shop All Products",
@@ -14,48 +20,36 @@ export const metadata: Metadata = {
     "Browse our curated collection of premium tech products, furniture, and accessories with exclusive member discounts.",
 };
 
+type SearchParams = Record<string, string | string[] | undefined>;
+
 interface HomePageProps {
-  searchParams: Promise<{
-    category?: string;
-    sort?: string;
-    search?: string;
-    page?: string;
-  }>;
+  searchParams: Promise<SearchParams>;
 }
 
 async function ProductsSection({
   searchParams,
 }: {
-  searchParams: {
-    category?: string;
-    sort?: string;
-    search?: string;
-    page?: string;
-  };
+  searchParams: SearchParams;
 }) {
-  const categories = await getCategories();
-  const filters = {
-    category: searchParams.category,
-    search: searchParams.search,
-    sort: searchParams.sort as
-      | "price_asc"
-      | "price_desc"
-      | "newest"
-      | "name_asc"
-      | undefined,
-    page: parseInt(searchParams.page || "1", 10),
-    limit: 12,
-  };
+  // Filters live in the URL, so filtered views can be shared
+  const filters = { ...parseProductQuery(searchParams), limit: 12 };
 
-  const { data: products, totalPages, page } = await getProducts(filters);
+  const [categories, { data: products, totalPages, page }, facets] =
+    await Promise.all([
+      getCategories(),
+      getProducts(filters),
+      getProductFacets(filters),
+    ]);
 
   return (
     <div className="space-y-8">
       <ProductFilters
         categories={categories}
-        currentCategory={searchParams.category}
-        currentSort={searchParams.sort}
-        currentSearch={searchParams.search}
+        currentCategory={filters.category}
+        currentSort={filters.sort}
+        currentSearch={filters.search}
+        facets={facets}
+        currentFacets={filters}
       />
 
       {products.length === 0 ? (
@@ -88,16 +82,10 @@ async function ProductsSection({
             <div className="flex items-center justify-center gap-2 pt-4">
               {page > 1 && (
                 <Link
-                  href={`?${new URLSearchParams({
-                    ...(searchParams.category && {
-                      category: searchParams.category,
-                    }),
-                    ...(searchParams.sort && { sort: searchParams.sort }),
-                    ...(searchParams.search && {
-                      search: searchParams.search,
-                    }),
-                    page: String(page - 1),
-                  }).toString()}`}
+                  href={`?${productQueryString({
+                    ...filters,
+                    page: page - 1,
+                  })}`}
                   className="h-9 px-4 inline-flex items-center rounded-lg bg-surface-light text-sm text-text-secondary hover:bg-surface-lighter transition-colors"
                 >
                   ← Previous
@@ -110,16 +98,10 @@ async function ProductsSection({
 
               {page < totalPages && (
                 <Link
-                  href={`?${new URLSearchParams({
-                    ...(searchParams.category && {
-                      category: searchParams.category,
-                    }),
-                    ...(searchParams.sort && { sort: searchParams.sort }),
-                    ...(searchParams.search && {
-                      search: searchParams.search,
-                    }),
-                    page: String(page + 1),
-                  }).toString()}`}
+                  href={`?${productQueryString({
+                    ...filters,
+                    page: page + 1,
+                  })}`}
                   className="h-9 px-4 inline-flex items-center rounded-lg bg-surface-light text-sm text-text-secondary hover:bg-surface-lighter transition-colors"
                 >
                   Next →
@@ -135,6 +117,7 @@ async function ProductsSection({
 
 export default async function HomePage({ searchParams }: HomePageProps) {
   const resolvedParams = await searchParams;
+  const settings = await getStoreSettings();
 
   return (
     <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8 py-8">
@@ -148,7 +131,10 @@ export default async function HomePage({ searchParams }: HomePageProps) {
           <span className="text-primary-light font-medium">
             exclusive member discounts
           </span>
-          , bulk pricing, and free shipping on orders over $1,000.
+          , bulk pricing
+          {settings.free_shipping_enabled &&
+            `, and free shipping on orders over ${formatMoney(settings.free_shipping_threshold, settings.currency)}`}
+          .
         </p>
       </div>
 
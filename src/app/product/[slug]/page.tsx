@@ -1,8 +1,15 @@
 import { Suspense } from "react";
 import { notFound } from "next/navigation";
 import Image from "next/image";
-import { getProductBySlug } from "@/services/product-service";
+import {
+  getProductBySlug,
+  getProductVariants,
+  getQuantityBreaks,
+} from "@/services/product-service";
+import { getStoreSettings } from "@/services/settings-service";
+import { resolveQuantityBreaks } from "@/lib/pricing-engine";
 import Badge from "@/components/ui/badge";
+import Price from "@/components/ui/price";
 import LoadingSpinner from "@/components/ui/loading-spinner";
 import AddToCartButton from "@/components/products/add-to-cart-button";
 import type { Metadata } from "next";
@@ -34,7 +41,13 @@ export async function generateMetadata({
   };
 }
 
-function ProductJsonLd({ product }: { product: Product }) {
+function ProductJsonLd({
+  product,
+  currency,
+}: {
+  product: Product;
+  currency: string;
+}) {
   const hasDiscount =
     product.discount_percentage !== null && product.discount_percentage > 0;
   const price = hasDiscount
@@ -50,7 +63,7 @@ function ProductJsonLd({ product }: { product: Product }) {
     offers: {
       "@type": "Offer",
       price: price.toFixed(2),
-      priceCurrency: "USD",
+      priceCurrency: currency,
       availability:
         product.stock > 0
           ? "https://schema.org/InStock"
@@ -67,12 +80,18 @@ function ProductJsonLd({ product }: { product: Product }) {
 }
 
 async function ProductDetail({ slug }: { slug: string }) {
-  const product = await getProductBySlug(slug);
+  const [product, settings, quantityBreaks] = await Promise.all([
+    getProductBySlug(slug),
+    getStoreSettings(),
+    getQuantityBreaks(),
+  ]);
 
   if (!product) {
     notFound();
   }
 
+  const variants = await getProductVariants(product.id);
+
   const isPremium = product.price > 500;
   const isOutOfStock = product.stock === 0;
   const isLowStock = product.stock > 0 && product.stock < 5;
@@ -81,10 +100,12 @@ async function ProductDetail({ slug }: { slug: string }) {
   const discountedPrice = hasDiscount
     ? product.price * (1 - product.discount_percentage! / 100)
     : null;
+  const unitPrice = discountedPrice ?? product.price;
+  const tiers = resolveQuantityBreaks(product, quantityBreaks, settings);
 
   return (
     <>
-      <ProductJsonLd product={product} />
+      <ProductJsonLd product={product} currency={settings.currency} />
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-10">
         {/* Image Section */}
@@ -124,18 +145,18 @@ async function ProductDetail({ slug }: { slug: string }) {
             {hasDiscount ? (
               <>
                 <span className="text-3xl font-bold text-text-primary">
-                  ${discountedPrice!.toFixed(2)}
+                  <Price amount={discountedPrice!} />
                 </span>
                 <span className="text-xl text-text-muted line-through">
-                  ${product.price.toFixed(2)}
+                  <Price amount={product.price} />
                 </span>
                 <Badge variant="sale">
-                  Save ${(product.price - discountedPrice!).toFixed(2)}
+                  Save <Price amount={product.price - discountedPrice!} />
                 </Badge>
               </>
             ) : (
               <span className="text-3xl font-bold text-text-primary">
-                ${product.price.toFixed(2)}
+                <Price amount={product.price} />
               </span>
             )}
           </div>
@@ -165,40 +186,76 @@ async function ProductDetail({ slug }: { slug: string }) {
             </p>
           </div>
 
+          {/* Quantity Breaks */}
+          {tiers.length > 0 && (
+            <div className="glass rounded-xl p-4 mb-6">
+              <h3 className="text-xs font-semibold uppercase tracking-wider text-text-muted mb-3">
+                Buy More, Save More
+              </h3>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-text-muted">
+                    <th className="pb-2 font-medium">Quantity</th>
+                    <th className="pb-2 font-medium">Discount</th>
+                    <th className="pb-2 font-medium text-right">Price each</th>
+                  </tr>
+                </thead>
+                <tbody className="text-text-secondary">
+                  {tiers.map((tier) => (
+                    <tr
+                      key={tier.minQuantity}
+                      className="border-t border-border/50"
+                    >
+                      <td className="py-2">{tier.label}</td>
+                      <td className="py-2 text-primary-light font-medium">
+                        {tier.percentage}% off
+                      </td>
+                      <td className="py-2 text-right">
+                        <Price
+                          amount={unitPrice * (1 - tier.percentage / 100)}
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
           {/* Pricing Info */}
           <div className="glass rounded-xl p-4 mb-6 space-y-2">
             <h3 className="text-xs font-semibold uppercase tracking-wider text-text-muted mb-3">
               Pricing Benefits
             </h3>
-            <div className="flex items-center gap-2 text-sm text-text-secondary">
-              <span className="text-success">✓</span>
-              <span>
-                Buy 3+ items and get{" "}
-                <strong className="text-primary-light">
-                  10% bulk discount
-                </strong>
-              </span>
-            </div>
-            <div className="flex items-center gap-2 text-sm text-text-secondary">
-              <span className="text-success">✓</span>
-              <span>
-                Sign in for an extra{" "}
-                <strong className="text-primary-light">
-                  5% member discount
-                </strong>
-              </span>
-            </div>
-            <div className="flex items-center gap-2 text-sm text-text-secondary">
-              <span className="text-success">✓</span>
-              <span>
-                Orders over $1,000 get{" "}
-                <strong className="text-primary-light">free shipping</strong>
-              </span>
-            </div>
+            {settings.member_discount_enabled && (
+              <div className="flex items-center gap-2 text-sm text-text-secondary">
+                <span className="text-success">✓</span>
+                <span>
+                  Sign in for an extra{" "}
+                  <strong className="text-primary-light">
+                    {settings.member_discount_percentage}% member discount
+                  </strong>
+                </span>
+              </div>
+            )}
+            {settings.free_shipping_enabled && (
+              <div className="flex items-center gap-2 text-sm text-text-secondary">
+                <span className="text-success">✓</span>
+                <span>
+                  Orders over $
+                  {settings.free_shipping_threshold.toLocaleString()} get{" "}
+                  <strong className="text-primary-light">free shipping</strong>
+                </span>
+              </div>
+            )}
           </div>
 
           {/* Add to Cart */}
-          <AddToCartButton product={product} disabled={isOutOfStock} />
+          <AddToCartButton
+            product={product}
+            variants={variants}
+            disabled={isOutOfStock}
+          />
         </div>
       </div>
     </>
@@ -0,0 +1,163 @@
+"use client";
+
+import { ADDRESS_COUNTRIES, AU_STATES } from "@/lib/addresses";
+import type {
+  AddressFieldErrors,
+  AddressInput,
+  ShippingCountry,
+} from "@/types";
+
+interface AddressFormProps {
+  /** Prefix for input ids, so two forms can share a page */
+  id: string;
+  value: AddressInput;
+  onChange: (value: AddressInput) => void;
+  errors?: AddressFieldErrors;
+}
+
+const inputClass =
+  "w-full h-10 px-3 rounded-lg bg-surface border text-sm text-text-primary placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-primary/50";
+
+/**
+ * Controlled address fields with an error under each invalid field.
+ * Australian addresses pick a state code; NZ addresses have a free-text
+ * region. Validation happens in the parent with validateAddress.
+ */
+export default function AddressForm({
+  id,
+  value,
+  onChange,
+  errors = {},
+}: AddressFormProps) {
+  const set = (field: keyof AddressInput, fieldValue: string) =>
+    onChange({ ...value, [field]: fieldValue });
+
+  const field = (
+    name: keyof AddressInput,
+    label: string,
+    input: React.ReactNode,
+    className = "",
+  ) => (
+    <div className={className}>
+      <label
+        htmlFor={`${id}-${name}`}
+        className="block text-xs font-medium text-text-secondary mb-1"
+      >
+        {label}
+      </label>
+      {input}
+      {errors[name] && (
+        <p className="text-xs text-danger mt-1">{errors[name]}</p>
+      )}
+    </div>
+  );
+
+  const border = (name: keyof AddressInput) =>
+    errors[name] ? "border-danger/60" : "border-border/50";
+
+  const text = (
+    name: keyof AddressInput,
+    props: React.InputHTMLAttributes<HTMLInputElement> = {},
+  ) => (
+    <input
+      id={`${id}-${name}`}
+      type="text"
+      value={(value[name] as string | null) ?? ""}
+      onChange={(e) => set(name, e.target.value)}
+      className={`${inputClass} ${border(name)}`}
+      {...props}
+    />
+  );
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      {field(
+        "full_name",
+        "Full name",
+        text("full_name", { autoComplete: "name" }),
+      )}
+      {field(
+        "company",
+        "Company (optional)",
+        text("company", { autoComplete: "organization" }),
+      )}
+      {field(
+        "line1",
+        "Street address",
+        text("line1", { autoComplete: "address-line1" }),
+        "col-span-2",
+      )}
+      {field(
+        "line2",
+        "Apartment, unit, etc. (optional)",
+        text("line2", { autoComplete: "address-line2" }),
+        "col-span-2",
+      )}
+      {field(
+        "suburb",
+        value.country === "NZ" ? "Town / city" : "Suburb",
+        text("suburb", { autoComplete: "address-level2" }),
+      )}
+      {field(
+        "state",
+        value.country === "NZ" ? "Region (optional)" : "State",
+        value.country === "AU" ? (
+          <select
+            id={`${id}-state`}
+            value={value.state}
+            onChange={(e) => set("state", e.target.value)}
+            className={`${inputClass} ${border("state")}`}
+          >
+            <option value="">Select…</option>
+            {Object.entries(AU_STATES).map(([code, name]) => (
+              <option key={code} value={code}>
+                {code} — {name}
+              </option>
+            ))}
+          </select>
+        ) : (
+          text("state", { autoComplete: "address-level1" })
+        ),
+      )}
+      {field(
+        "postcode",
+        "Postcode",
+        text("postcode", {
+          inputMode: "numeric",
+          maxLength: 4,
+          placeholder: "e.g. 2000",
+          autoComplete: "postal-code",
+          onChange: (e) => set("postcode", e.target.value.replace(/\D/g, "")),
+        }),
+      )}
+      {field(
+        "country",
+        "Country",
+        <select
+          id={`${id}-country`}
+          value={value.country}
+          onChange={(e) =>
+            onChange({
+              ...value,
+              country: e.target.value as ShippingCountry,
+              state: "",
+            })
+          }
+          className={`${inputClass} ${border("country")}`}
+        >
+          {Object.entries(ADDRESS_COUNTRIES).map(([code, name]) => (
+            <option key={code} value={code}>
+              {name}
+            </option>
+          ))}
+        </select>,
+      )}
+      {field(
+        "phone",
+        "Phone (optional)",
+        text("phone", { type: "tel", autoComplete: "tel" }),
+        "col-span-2",
+      )}
+    </div>
+  );
+}
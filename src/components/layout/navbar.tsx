@@ -2,12 +2,16 @@
 
 import Link from "next/link";
 import { useAuth } from "@/components/providers/auth-provider";
+import { ADMIN_ROLES, hasRole } from "@/lib/roles";
 import { useCart } from "@/components/providers/cart-provider";
+import { useCurrency } from "@/components/providers/currency-provider";
 import { useState } from "react";
 
 export default function Navbar() {
-  const { user, loading, signOut } = useAuth();
+  const { user, role, loading, signOut } = useAuth();
+  const isAdmin = hasRole(role, ADMIN_ROLES);
   const { cartCount } = useCart();
+  const { currency, currencies, setCurrency } = useCurrency();
   const [mobileOpen, setMobileOpen] = useState(false);
 
   return (
@@ -54,6 +58,22 @@ export default function Navbar() {
 
           {/* Right side actions */}
           <div className="flex items-center gap-3">
+            {/* Currency */}
+            {currencies.length > 1 && (
+              <select
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value)}
+                aria-label="Currency"
+                className="h-10 px-2 rounded-lg bg-surface-light border border-border/50 text-sm text-text-secondary hover:bg-surface-lighter focus:outline-none focus:ring-2 focus:ring-primary/50"
+              >
+                {currencies.map((code) => (
+                  <option key={code} value={code}>
+                    {code}
+                  </option>
+                ))}
+              </select>
+            )}
+
             {/* Cart */}
             <Link
               href="/cart"
@@ -86,11 +106,19 @@ export default function Navbar() {
             ) : user ? (
               <div className="flex items-center gap-2">
                 <Link
-                  href="/admin/products"
+                  href="/account/orders"
                   className="hidden sm:inline-flex h-10 items-center px-3 rounded-lg text-sm font-medium text-text-secondary hover:text-text-primary hover:bg-surface-light transition-colors"
                 >
-                  Admin
+                  Orders
                 </Link>
+                {isAdmin && (
+                  <Link
+                    href="/admin/products"
+                    className="hidden sm:inline-flex h-10 items-center px-3 rounded-lg text-sm font-medium text-text-secondary hover:text-text-primary hover:bg-surface-light transition-colors"
+                  >
+                    Admin
+                  </Link>
+                )}
                 <button
                   onClick={signOut}
                   className="h-10 px-4 rounded-lg text-sm font-medium bg-surface-light text-text-secondary hover:text-text-primary hover:bg-surface-lighter transition-colors"
@@ -170,6 +198,15 @@ export default function Navbar() {
               Accessories
             </Link>
             {user && (
+              <Link
+                href="/account/orders"
+                className="block px-3 py-2 rounded-lg text-sm text-text-secondary hover:bg-surface-light"
+                onClick={() => setMobileOpen(false)}
+              >
+                My Orders
+              </Link>
+            )}
+            {isAdmin && (
               <Link
                 href="/admin/products"
                 className="block px-3 py-2 rounded-lg text-sm text-text-secondary hover:bg-surface-light"
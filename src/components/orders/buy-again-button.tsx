@@ -0,0 +1,74 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useCart } from "@/components/providers/cart-provider";
+import { apiFetch } from "@/lib/api-client";
+import type { OrderItem } from "@/types";
+
+interface BuyAgainButtonProps {
+  items: OrderItem[];
+  className?: string;
+}
+
+/**
+ * Re-add an order's lines to the cart and open it. Lines whose product or
+ * variant no longer exists are skipped and reported instead.
+ */
+export default function BuyAgainButton({
+  items,
+  className = "",
+}: BuyAgainButtonProps) {
+  const { refreshCartCount } = useCart();
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleBuyAgain = async () => {
+    setLoading(true);
+    setError(null);
+
+    const results = await Promise.all(
+      items.map((item) =>
+        apiFetch("/api/cart", {
+          method: "POST",
+          body: {
+            product_id: item.product_id,
+            variant_id: item.variant_id,
+            quantity: item.quantity,
+          },
+        })
+          .then(() => true)
+          .catch(() => false),
+      ),
+    );
+
+    refreshCartCount();
+    const failed = results.filter((ok) => !ok).length;
+
+    if (failed === 0) {
+      router.push("/cart");
+      return;
+    }
+
+    setError(
+      failed === items.length
+        ? "These items are no longer available."
+        : `${failed} item${failed === 1 ? "" : "s"} could not be added — the rest are in your cart.`,
+    );
+    setLoading(false);
+  };
+
+  return (
+    <div>
+      <button
+        onClick={handleBuyAgain}
+        disabled={loading}
+        className={`px-4 py-2 rounded-xl bg-gradient-to-r from-primary to-primary-dark text-white text-sm font-medium hover:opacity-90 disabled:opacity-50 transition-opacity ${className}`}
+      >
+        {loading ? "Adding..." : "Buy Again"}
+      </button>
+      {error && <p className="text-xs text-danger mt-1">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { formatOrderNumber } from "@/lib/orders";
+import { apiFetch } from "@/lib/api-client";
+
+interface CancelOrderButtonProps {
+  orderId: string;
+}
+
+/**
+ * Cancel an order that hasn't shipped yet, then reload the page to show
+ * the cancellation and its refund.
+ */
+export default function CancelOrderButton({ orderId }: CancelOrderButtonProps) {
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCancel = async () => {
+    if (
+      !confirm(
+        `Cancel order #${formatOrderNumber(orderId)}? You'll be refunded in full.`,
+      )
+    ) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      await apiFetch(`/api/orders/${orderId}/cancel`, { method: "POST" });
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div>
+      <button
+        onClick={handleCancel}
+        disabled={loading}
+        className="px-4 py-2 rounded-xl bg-danger/10 text-danger text-sm font-medium hover:bg-danger/20 disabled:opacity-50 transition-colors"
+      >
+        {loading ? "Cancelling..." : "Cancel Order"}
+      </button>
+      {error && <p className="text-xs text-danger mt-1">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { formatAddressLines } from "@/lib/addresses";
+import type { AddressInput } from "@/types";
+
+interface OrderAddressesProps {
+  shippingAddress: AddressInput | null;
+  billingAddress: AddressInput | null;
+}
+
+function AddressBlock({
+  label,
+  address,
+}: {
+  label: string;
+  address: AddressInput;
+}) {
+  return (
+    <div>
+      <p className="text-xs font-semibold uppercase tracking-wider text-text-muted mb-1">
+        {label}
+      </p>
+      {formatAddressLines(address).map((line, i) => (
+        <p key={i} className="text-text-secondary">
+          {line}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * The shipping and billing addresses copied onto an order at checkout.
+ * Orders placed before addresses were captured have neither.
+ */
+export default function OrderAddresses({
+  shippingAddress,
+  billingAddress,
+}: OrderAddressesProps) {
+  if (!shippingAddress) {
+    return <p className="text-sm text-text-muted">No address recorded.</p>;
+  }
+
+  const billingSame =
+    !billingAddress ||
+    JSON.stringify(billingAddress) === JSON.stringify(shippingAddress);
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+      <AddressBlock label="Shipping" address={shippingAddress} />
+      {billingSame ? (
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-wider text-text-muted mb-1">
+            Billing
+          </p>
+          <p className="text-text-secondary">Same as shipping</p>
+        </div>
+      ) : (
+        <AddressBlock label="Billing" address={billingAddress} />
+      )}
+    </div>
+  );
+}
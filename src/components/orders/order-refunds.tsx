@@ -0,0 +1,69 @@
+import { formatMoney } from "@/lib/currency";
+import type { OrderItem, RefundWithItems } from "@/types";
+
+interface OrderRefundsProps {
+  refunds: RefundWithItems[];
+  items: OrderItem[];
+  /** The store's currency, which the order was charged and refunded in */
+  currency: string;
+}
+
+/**
+ * List an order's refunds with what each one covered.
+ */
+export default function OrderRefunds({
+  refunds,
+  items,
+  currency,
+}: OrderRefundsProps) {
+  const productName = (orderItemId: string) =>
+    items.find((item) => item.id === orderItemId)?.product_name ?? "Item";
+
+  return (
+    <div className="divide-y divide-border/30 text-sm">
+      {refunds.map((refund) => (
+        <div key={refund.id} className="py-3 first:pt-0 last:pb-0">
+          <div className="flex justify-between gap-4">
+            <div>
+              <p className="font-medium text-text-primary">
+                {new Date(refund.created_at).toLocaleDateString("en-AU", {
+                  year: "numeric",
+                  month: "short",
+                  day: "numeric",
+                })}
+              </p>
+              {refund.reason && (
+                <p className="text-xs text-text-muted">{refund.reason}</p>
+              )}
+            </div>
+            <p className="font-bold text-text-primary">
+              {formatMoney(refund.total, currency)}
+            </p>
+          </div>
+          <ul className="mt-2 space-y-0.5 text-xs text-text-secondary">
+            {refund.refund_items.map((item) => (
+              <li key={item.id} className="flex justify-between">
+                <span>
+                  {item.quantity} × {productName(item.order_item_id)}
+                </span>
+                <span>{formatMoney(item.amount, currency)}</span>
+              </li>
+            ))}
+            {refund.tax_amount > 0 && (
+              <li className="flex justify-between">
+                <span>Tax</span>
+                <span>{formatMoney(refund.tax_amount, currency)}</span>
+              </li>
+            )}
+            {refund.shipping_amount > 0 && (
+              <li className="flex justify-between">
+                <span>Shipping</span>
+                <span>{formatMoney(refund.shipping_amount, currency)}</span>
+              </li>
+            )}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import { ORDER_STATUS_LABELS } from "@/lib/orders";
+import type { OrderStatus } from "@/types";
+
+const statusStyles: Record<OrderStatus, string> = {
+  pending: "bg-warning/10 text-warning",
+  confirmed: "bg-primary/10 text-primary-light",
+  processing: "bg-primary/10 text-primary-light",
+  shipped: "bg-secondary/10 text-secondary",
+  delivered: "bg-success/10 text-success",
+  cancelled: "bg-danger/10 text-danger",
+};
+
+export default function OrderStatusBadge({ status }: { status: OrderStatus }) {
+  return (
+    <span
+      className={`inline-flex items-center px-2 py-0.5 rounded-md text-xs font-medium ${statusStyles[status]}`}
+    >
+      {ORDER_STATUS_LABELS[status]}
+    </span>
+  );
+}
@@ -0,0 +1,74 @@
+import { getOrderTimeline } from "@/lib/orders";
+import type { Order, OrderStatusChange } from "@/types";
+
+interface OrderStatusTimelineProps {
+  order: Order;
+  history?: OrderStatusChange[];
+}
+
+/**
+ * Vertical status timeline for an order (placed → delivered, or cancelled).
+ */
+export default function OrderStatusTimeline({
+  order,
+  history = [],
+}: OrderStatusTimelineProps) {
+  const steps = getOrderTimeline(order, history);
+
+  return (
+    <ol className="space-y-4">
+      {steps.map((step, index) => {
+        const isCancelled = step.status === "cancelled";
+        const dotClass =
+          step.state === "upcoming"
+            ? "bg-surface-lighter border border-border/50"
+            : isCancelled
+              ? "bg-danger"
+              : "bg-success";
+
+        return (
+          <li key={step.status} className="relative flex gap-3">
+            {index < steps.length - 1 && (
+              <span
+                className={`absolute left-[7px] top-5 h-[calc(100%-0.25rem)] w-0.5 ${
+                  step.state === "complete" ? "bg-success/50" : "bg-border/50"
+                }`}
+              />
+            )}
+            <span
+              className={`relative mt-0.5 h-4 w-4 flex-shrink-0 rounded-full ${dotClass} ${
+                step.state !== "current"
+                  ? ""
+                  : isCancelled
+                    ? "ring-4 ring-danger/20"
+                    : "ring-4 ring-success/20"
+              }`}
+            />
+            <div>
+              <p
+                className={`text-sm font-medium ${
+                  step.state === "upcoming"
+                    ? "text-text-muted"
+                    : isCancelled
+                      ? "text-danger"
+                      : "text-text-primary"
+                }`}
+              >
+                {step.label}
+              </p>
+              {step.date && (
+                <p className="text-xs text-text-muted">
+                  {new Date(step.date).toLocaleDateString("en-AU", {
+                    year: "numeric",
+                    month: "long",
+                    day: "numeric",
+                  })}
+                </p>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
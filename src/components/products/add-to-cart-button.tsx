@@ -3,59 +3,99 @@
 import { useState } from "react";
 import { useAuth } from "@/components/providers/auth-provider";
 import { useCart } from "@/components/providers/cart-provider";
+import { useCurrency } from "@/components/providers/currency-provider";
+import {
+  useStoreSettings,
+  useQuantityBreaks,
+} from "@/components/providers/store-settings-provider";
+import { resolveQuantityBreaks, findQuantityBreak } from "@/lib/pricing-engine";
+import { findVariant, getVariantOptions } from "@/lib/variants";
+import { apiFetch } from "@/lib/api-client";
 import { useRouter } from "next/navigation";
-import type { Product } from "@/types";
+import type { Product, ProductVariant } from "@/types";
 
 interface AddToCartButtonProps {
   product: Product;
+  variants?: ProductVariant[];
   disabled?: boolean;
 }
 
 export default function AddToCartButton({
   product,
-  disabled,
+  variants = [],
+  disabled: productDisabled,
 }: AddToCartButtonProps) {
   const { user } = useAuth();
-  const { addToGuestCart, refreshCartCount } = useCart();
+  const { refreshCartCount } = useCart();
+  const { formatPrice } = useCurrency();
+  const settings = useStoreSettings();
+  const quantityBreaks = useQuantityBreaks();
   const router = useRouter();
   const [quantity, setQuantity] = useState(1);
+  const [selectedOptions, setSelectedOptions] = useState<
+    Record<string, string>
+  >(() => {
+    const initial = variants.find((v) => v.stock > 0) ?? variants[0];
+    return initial ? { ...initial.options } : {};
+  });
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState<{
     type: "success" | "error";
     text: string;
   } | null>(null);
 
+  const hasVariants = variants.length > 0;
+  const variantOptions = getVariantOptions(variants);
+  const selectedVariant = hasVariants
+    ? findVariant(variants, selectedOptions)
+    : null;
+  const availableStock = hasVariants
+    ? (selectedVariant?.stock ?? 0)
+    : product.stock;
+  const disabled = productDisabled || availableStock === 0;
+
+  const isOptionAvailable = (name: string, value: string) =>
+    variants.some(
+      (v) =>
+        v.stock > 0 &&
+        Object.entries({ ...selectedOptions, [name]: value }).every(
+          ([key, val]) => v.options[key] === val,
+        ),
+    );
+
+  const handleSelectOption = (name: string, value: string) => {
+    setSelectedOptions((prev) => ({ ...prev, [name]: value }));
+    setQuantity(1);
+    setMessage(null);
+  };
+
+  const activeTier = findQuantityBreak(
+    quantity,
+    resolveQuantityBreaks(product, quantityBreaks, settings),
+  );
+
   const handleAddToCart = async () => {
     setLoading(true);
     setMessage(null);
 
     try {
-      if (user) {
-        // Authenticated: add via API
-        const res = await fetch("/api/cart", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            product_id: product.id,
-            quantity,
-          }),
-        });
-
-        if (!res.ok) {
-          const data = await res.json();
-          throw new Error(data.error || "Failed to add to cart");
-        }
-
-        refreshCartCount();
-        setMessage({ type: "success", text: "Added to cart!" });
-      } else {
-        // Guest: add to localStorage
-        addToGuestCart(product.id, quantity);
-        setMessage({
-          type: "success",
-          text: "Added to cart! Sign in for member discounts.",
-        });
-      }
+      // Guests are given a server-side cart (cookie) on first add
+      await apiFetch("/api/cart", {
+        method: "POST",
+        body: {
+          product_id: product.id,
+          variant_id: selectedVariant?.id ?? null,
+          quantity,
+        },
+      });
+
+      refreshCartCount();
+      setMessage({
+        type: "success",
+        text: user
+          ? "Added to cart!"
+          : "Added to cart! Sign in for member discounts.",
+      });
     } catch (error) {
       setMessage({
         type: "error",
@@ -68,6 +108,55 @@ export default function AddToCartButton({
 
   return (
     <div className="space-y-4">
+      {/* Variant selectors */}
+      {variantOptions.map((option) => (
+        <div key={option.name}>
+          <p className="text-sm text-text-secondary font-medium capitalize mb-2">
+            {option.name}:{" "}
+            <span className="text-text-primary">
+              {selectedOptions[option.name]}
+            </span>
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {option.values.map((value) => {
+              const isSelected = selectedOptions[option.name] === value;
+              const isAvailable = isOptionAvailable(option.name, value);
+              return (
+                <button
+                  key={value}
+                  onClick={() => handleSelectOption(option.name, value)}
+                  className={`px-3 h-9 rounded-lg border text-sm transition-colors ${
+                    isSelected
+                      ? "border-primary bg-primary/10 text-primary-light"
+                      : "border-border/50 bg-surface-light text-text-secondary hover:bg-surface-lighter"
+                  } ${isAvailable ? "" : "line-through opacity-60"}`}
+                >
+                  {value}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+
+      {hasVariants && (
+        <p className="text-xs text-text-muted">
+          {selectedVariant
+            ? `SKU ${selectedVariant.sku} · ${
+                selectedVariant.stock > 0
+                  ? `${selectedVariant.stock} available`
+                  : "Out of stock"
+              }${
+                selectedVariant.price_modifier !== 0
+                  ? ` · ${selectedVariant.price_modifier > 0 ? "+" : "−"}${formatPrice(
+                      Math.abs(selectedVariant.price_modifier),
+                    )}`
+                  : ""
+              }`
+            : "This combination is unavailable"}
+        </p>
+      )}
+
       {/* Quantity selector */}
       <div className="flex items-center gap-3">
         <label className="text-sm text-text-secondary font-medium">Qty:</label>
@@ -83,16 +172,16 @@ export default function AddToCartButton({
             {quantity}
           </span>
           <button
-            onClick={() => setQuantity((q) => Math.min(product.stock, q + 1))}
+            onClick={() => setQuantity((q) => Math.min(availableStock, q + 1))}
             className="h-10 w-10 flex items-center justify-center bg-surface-light hover:bg-surface-lighter transition-colors text-text-secondary"
             disabled={disabled}
           >
             +
           </button>
         </div>
-        {quantity >= 3 && (
+        {activeTier && (
           <span className="text-xs text-success font-medium">
-            🎉 10% bulk discount applied!
+            🎉 {activeTier.percentage}% bulk discount applied!
           </span>
         )}
       </div>
@@ -0,0 +1,80 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Price from "@/components/ui/price";
+
+/** Wait this long after the sliders stop moving before applying them */
+const APPLY_DELAY_MS = 400;
+
+interface PriceRangeFilterProps {
+  /** Lowest and highest price among the products the other filters give */
+  bounds: { min: number; max: number };
+  min?: number;
+  max?: number;
+  /** Apply a range; undefined ends are unbounded */
+  onChange: (min: number | undefined, max: number | undefined) => void;
+}
+
+/**
+ * Minimum and maximum price sliders, applied once they stop moving. A
+ * slider at its end of the range leaves that end unbounded.
+ */
+export default function PriceRangeFilter({
+  bounds,
+  min,
+  max,
+  onChange,
+}: PriceRangeFilterProps) {
+  const floor = Math.floor(bounds.min);
+  const ceiling = Math.ceil(bounds.max);
+  const [low, setLow] = useState(clamp(min ?? floor, floor, ceiling));
+  const [high, setHigh] = useState(clamp(max ?? ceiling, floor, ceiling));
+
+  const timer = useRef<ReturnType<typeof setTimeout>>(undefined);
+
+  useEffect(() => () => clearTimeout(timer.current), []);
+
+  const update = (nextLow: number, nextHigh: number) => {
+    setLow(nextLow);
+    setHigh(nextHigh);
+    clearTimeout(timer.current);
+    timer.current = setTimeout(
+      () =>
+        onChange(
+          nextLow > floor ? nextLow : undefined,
+          nextHigh < ceiling ? nextHigh : undefined,
+        ),
+      APPLY_DELAY_MS,
+    );
+  };
+
+  return (
+    <div className="space-y-2 min-w-52">
+      <p className="text-xs text-text-secondary">
+        Price: <Price amount={low} /> – <Price amount={high} />
+      </p>
+      <input
+        type="range"
+        aria-label="Minimum price"
+        min={floor}
+        max={ceiling}
+        value={low}
+        onChange={(e) => update(Math.min(Number(e.target.value), high), high)}
+        className="w-full accent-primary cursor-pointer"
+      />
+      <input
+        type="range"
+        aria-label="Maximum price"
+        min={floor}
+        max={ceiling}
+        value={high}
+        onChange={(e) => update(low, Math.max(Number(e.target.value), low))}
+        className="w-full accent-primary cursor-pointer"
+      />
+    </div>
+  );
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
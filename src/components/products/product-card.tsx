@@ -1,10 +1,12 @@
 import Link from "next/link";
 import Image from "next/image";
 import Badge from "@/components/ui/badge";
-import type { Product } from "@/types";
+import Price from "@/components/ui/price";
+import HighlightedText from "@/components/ui/highlighted-text";
+import type { ProductListItem } from "@/types";
 
 interface ProductCardProps {
-  product: Product;
+  product: ProductListItem;
 }
 
 export default function ProductCard({ product }: ProductCardProps) {
@@ -53,22 +55,32 @@ export default function ProductCard({ product }: ProductCardProps) {
             {product.category}
           </p>
           <h3 className="text-sm font-semibold text-text-primary group-hover:text-primary-light transition-colors line-clamp-2 mb-2">
-            {product.name}
+            {product.match ? (
+              <HighlightedText text={product.match.name} />
+            ) : (
+              product.name
+            )}
           </h3>
 
+          {product.match?.snippet && (
+            <p className="text-xs text-text-muted line-clamp-2 mb-2">
+              <HighlightedText text={product.match.snippet} />
+            </p>
+          )}
+
           <div className="flex items-center gap-2">
             {hasDiscount ? (
               <>
                 <span className="text-lg font-bold text-text-primary">
-                  ${discountedPrice!.toFixed(2)}
+                  <Price amount={discountedPrice!} />
                 </span>
                 <span className="text-sm text-text-muted line-through">
-                  ${product.price.toFixed(2)}
+                  <Price amount={product.price} />
                 </span>
               </>
             ) : (
               <span className="text-lg font-bold text-text-primary">
-                ${product.price.toFixed(2)}
+                <Price amount={product.price} />
               </span>
             )}
           </div>
@@ -1,13 +1,19 @@
 "use client";
 
 import { useRouter, useSearchParams } from "next/navigation";
-import { useCallback, useState, useTransition } from "react";
+import { useCallback, useTransition } from "react";
+import ProductSearch from "@/components/products/product-search";
+import PriceRangeFilter from "@/components/products/price-range-filter";
+import type { ProductFacetFilters, ProductFacets } from "@/types";
 
 interface ProductFiltersProps {
   categories: string[];
   currentCategory?: string;
   currentSort?: string;
   currentSearch?: string;
+  /** Counts per filter value for the current listing */
+  facets: ProductFacets;
+  currentFacets: ProductFacetFilters;
 }
 
 export default function ProductFilters({
@@ -15,19 +21,36 @@ export default function ProductFilters({
   currentCategory,
   currentSort,
   currentSearch,
+  facets,
+  currentFacets,
 }: ProductFiltersProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
   const [isPending, startTransition] = useTransition();
-  const [searchValue, setSearchValue] = useState(currentSearch || "");
+  // Relevance is the default (and only offered) while searching
+  const sortValue =
+    currentSort && (currentSearch || currentSort !== "relevance")
+      ? currentSort
+      : currentSearch
+        ? "relevance"
+        : "newest";
+
+  const categoryCounts = new Map(
+    facets.categories.map(({ value, count }) => [value, count]),
+  );
+  const hasFacetFilters = Object.values(currentFacets).some(
+    (value) => value !== undefined && value !== false,
+  );
 
   const updateFilters = useCallback(
-    (key: string, value: string) => {
+    (changes: Record<string, string>) => {
       const params = new URLSearchParams(searchParams.toString());
-      if (value && value !== "all") {
-        params.set(key, value);
-      } else {
-        params.delete(key);
+      for (const [key, value] of Object.entries(changes)) {
+        if (value && value !== "all") {
+          params.set(key, value);
+        } else {
+          params.delete(key);
+        }
       }
       // Reset to page 1 on filter change
       params.delete("page");
@@ -38,71 +61,28 @@ export default function ProductFilters({
     [router, searchParams],
   );
 
-  const handleSearch = useCallback(
-    (e: React.FormEvent) => {
-      e.preventDefault();
-      updateFilters("search", searchValue);
-    },
-    [searchValue, updateFilters],
+  const updatePriceRange = useCallback(
+    (min: number | undefined, max: number | undefined) =>
+      updateFilters({
+        min_price: min === undefined ? "" : String(min),
+        max_price: max === undefined ? "" : String(max),
+      }),
+    [updateFilters],
   );
 
   return (
     <div className={`space-y-4 ${isPending ? "opacity-60" : ""}`}>
       {/* Search */}
-      <form onSubmit={handleSearch} className="relative">
-        <input
-          type="text"
-          placeholder="Search products..."
-          value={searchValue}
-          onChange={(e) => setSearchValue(e.target.value)}
-          className="w-full h-11 pl-10 pr-4 rounded-xl bg-surface-light border border-border/50 text-sm text-text-primary placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary transition-all"
-        />
-        <svg
-          xmlns="http://www.w3.org/2000/svg"
-          fill="none"
-          viewBox="0 0 24 24"
-          strokeWidth={1.5}
-          stroke="currentColor"
-          className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-text-muted"
-        >
-          <path
-            strokeLinecap="round"
-            strokeLinejoin="round"
-            d="m21 21-5.197-5.197m0 0A7.5 7.5 0 1 0 5.196 5.196a7.5 7.5 0 0 0 10.607 10.607Z"
-          />
-        </svg>
-        {searchValue && (
-          <button
-            type="button"
-            onClick={() => {
-              setSearchValue("");
-              updateFilters("search", "");
-            }}
-            className="absolute right-3 top-1/2 -translate-y-1/2 text-text-muted hover:text-text-primary"
-          >
-            <svg
-              xmlns="http://www.w3.org/2000/svg"
-              fill="none"
-              viewBox="0 0 24 24"
-              strokeWidth={1.5}
-              stroke="currentColor"
-              className="h-4 w-4"
-            >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                d="M6 18 18 6M6 6l12 12"
-              />
-            </svg>
-          </button>
-        )}
-      </form>
+      <ProductSearch
+        currentSearch={currentSearch}
+        onSearch={(search) => updateFilters({ search })}
+      />
 
       <div className="flex flex-col sm:flex-row gap-3">
         {/* Category Filter */}
         <div className="flex flex-wrap gap-2">
           <button
-            onClick={() => updateFilters("category", "all")}
+            onClick={() => updateFilters({ category: "all" })}
             className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${
               !currentCategory || currentCategory === "all"
                 ? "bg-primary text-white"
@@ -114,7 +94,7 @@ export default function ProductFilters({
           {categories.map((cat) => (
             <button
               key={cat}
-              onClick={() => updateFilters("category", cat)}
+              onClick={() => updateFilters({ category: cat })}
               className={`px-3 py-1.5 rounded-lg text-xs font-medium capitalize transition-colors ${
                 currentCategory === cat
                   ? "bg-primary text-white"
@@ -122,22 +102,108 @@ export default function ProductFilters({
               }`}
             >
               {cat}
+              <span className="ml-1 opacity-60">
+                {categoryCounts.get(cat) ?? 0}
+              </span>
             </button>
           ))}
         </div>
 
         {/* Sort */}
         <select
-          value={currentSort || "newest"}
-          onChange={(e) => updateFilters("sort", e.target.value)}
+          value={sortValue}
+          onChange={(e) => updateFilters({ sort: e.target.value })}
           className="h-8 px-3 rounded-lg bg-surface-light border border-border/50 text-xs text-text-secondary focus:outline-none focus:ring-2 focus:ring-primary/50 cursor-pointer ml-auto"
         >
+          {currentSearch && <option value="relevance">Best Match</option>}
           <option value="newest">Newest First</option>
           <option value="price_asc">Price: Low → High</option>
           <option value="price_desc">Price: High → Low</option>
           <option value="name_asc">Name: A → Z</option>
         </select>
       </div>
+
+      {/* Facets */}
+      <div className="flex flex-wrap items-end gap-x-6 gap-y-3">
+        {facets.price.min !== null &&
+          facets.price.max !== null &&
+          facets.price.min < facets.price.max && (
+            <PriceRangeFilter
+              key={`${facets.price.min}-${facets.price.max}-${currentFacets.min_price}-${currentFacets.max_price}`}
+              bounds={{ min: facets.price.min, max: facets.price.max }}
+              min={currentFacets.min_price}
+              max={currentFacets.max_price}
+              onChange={updatePriceRange}
+            />
+          )}
+
+        <label className="flex items-center gap-2 text-xs text-text-secondary cursor-pointer">
+          <input
+            type="checkbox"
+            checked={currentFacets.in_stock ?? false}
+            onChange={(e) =>
+              updateFilters({ in_stock: e.target.checked ? "true" : "" })
+            }
+            className="accent-primary"
+          />
+          In stock only
+          <span className="text-text-muted">({facets.in_stock})</span>
+        </label>
+
+        <label className="flex items-center gap-2 text-xs text-text-secondary cursor-pointer">
+          <input
+            type="checkbox"
+            checked={currentFacets.on_sale ?? false}
+            onChange={(e) =>
+              updateFilters({ on_sale: e.target.checked ? "true" : "" })
+            }
+            className="accent-primary"
+          />
+          On sale
+          <span className="text-text-muted">({facets.on_sale})</span>
+        </label>
+
+        <select
+          aria-label="Minimum discount"
+          value={currentFacets.min_discount ?? ""}
+          onChange={(e) => updateFilters({ min_discount: e.target.value })}
+          className="h-8 px-3 rounded-lg bg-surface-light border border-border/50 text-xs text-text-secondary focus:outline-none focus:ring-2 focus:ring-primary/50 cursor-pointer"
+        >
+          <option value="">Any discount</option>
+          {facets.discounts.map(({ min_discount, count }) => (
+            <option
+              key={min_discount}
+              value={min_discount}
+              disabled={
+                count === 0 && currentFacets.min_discount !== min_discount
+              }
+            >
+              {min_discount}% off or more ({count})
+            </option>
+          ))}
+        </select>
+
+        {hasFacetFilters && (
+          <button
+            onClick={() =>
+              updateFilters({
+                min_price: "",
+                max_price: "",
+                in_stock: "",
+                on_sale: "",
+                min_discount: "",
+              })
+            }
+            className="text-xs text-primary-light hover:underline"
+          >
+            Clear filters
+          </button>
+        )}
+
+        <p className="text-xs text-text-muted ml-auto">
+          {facets.total} {facets.total === 1 ? "product" : "products"}
+        </p>
+      </div>
     </div>
   );
 }
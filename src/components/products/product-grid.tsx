@@ -1,8 +1,8 @@
 import ProductCard from "@/components/products/product-card";
-import type { Product } from "@/types";
+import type { ProductListItem } from "@/types";
 
 interface ProductGridProps {
-  products: Product[];
+  products: ProductListItem[];
 }
 
 export default function ProductGrid({ products }: ProductGridProps) {
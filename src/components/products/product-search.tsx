@@ -0,0 +1,279 @@
+"use client";
+
+import Image from "next/image";
+import { useRouter } from "next/navigation";
+import { useEffect, useId, useState } from "react";
+import { apiFetch } from "@/lib/api-client";
+import { rememberSearch } from "@/lib/search";
+import type { SearchSuggestions } from "@/types";
+
+/** Wait this long after the last keystroke before asking for suggestions */
+const SUGGEST_DELAY_MS = 150;
+
+type Suggestion =
+  | { kind: "recent"; label: string }
+  | { kind: "category"; label: string }
+  | {
+      kind: "product";
+      label: string;
+      slug: string;
+      category: string;
+      image_url: string;
+    };
+
+const GROUP_LABELS: Record<Suggestion["kind"], string> = {
+  recent: "Recent searches",
+  category: "Categories",
+  product: "Products",
+};
+
+function toSuggestions(suggestions: SearchSuggestions): Suggestion[] {
+  return [
+    ...suggestions.recent.map((label) => ({ kind: "recent" as const, label })),
+    ...suggestions.categories.map((label) => ({
+      kind: "category" as const,
+      label,
+    })),
+    ...suggestions.products.map((product) => ({
+      kind: "product" as const,
+      label: product.name,
+      slug: product.slug,
+      category: product.category,
+      image_url: product.image_url,
+    })),
+  ];
+}
+
+interface ProductSearchProps {
+  currentSearch?: string;
+  /** Apply a search to the listing ("" clears it) */
+  onSearch: (search: string) => void;
+}
+
+/**
+ * The product search box, with suggestions as the shopper types: their
+ * recent searches, and categories and products to jump straight to.
+ * Arrow keys move through the suggestions, Enter picks one (or searches
+ * for what's typed) and Escape closes them.
+ */
+export default function ProductSearch({
+  currentSearch,
+  onSearch,
+}: ProductSearchProps) {
+  const router = useRouter();
+  const listboxId = useId();
+  const [value, setValue] = useState(currentSearch || "");
+  const [open, setOpen] = useState(false);
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      apiFetch<SearchSuggestions>(
+        `/api/search/suggest?${new URLSearchParams({ q: value.trim() })}`,
+        { signal: controller.signal },
+      )
+        .then((result) => {
+          setSuggestions(toSuggestions(result));
+          setActiveIndex(-1);
+        })
+        .catch((error) => {
+          if (error instanceof DOMException && error.name === "AbortError") {
+            return;
+          }
+          // Suggestions are a convenience; searching still works without them
+          setSuggestions([]);
+        });
+    }, SUGGEST_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [value, open]);
+
+  const close = () => {
+    setOpen(false);
+    setActiveIndex(-1);
+  };
+
+  const search = (query: string) => {
+    close();
+    if (query.trim()) rememberSearch(query);
+    onSearch(query.trim());
+  };
+
+  const select = (suggestion: Suggestion) => {
+    close();
+    switch (suggestion.kind) {
+      case "recent":
+        setValue(suggestion.label);
+        search(suggestion.label);
+        break;
+      case "category":
+        router.push(`/category/${encodeURIComponent(suggestion.label)}`);
+        break;
+      case "product":
+        router.push(`/product/${suggestion.slug}`);
+        break;
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const count = suggestions.length;
+
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        setOpen(true);
+        if (count > 0) setActiveIndex((i) => (i + 1) % count);
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        if (count > 0) setActiveIndex((i) => (i <= 0 ? count - 1 : i - 1));
+        break;
+      case "Enter":
+        if (open && activeIndex >= 0 && activeIndex < count) {
+          e.preventDefault();
+          select(suggestions[activeIndex]);
+        }
+        break;
+      case "Escape":
+        close();
+        break;
+    }
+  };
+
+  const showSuggestions = open && suggestions.length > 0;
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        search(value);
+      }}
+      className="relative"
+    >
+      <input
+        type="text"
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={showSuggestions}
+        aria-controls={listboxId}
+        aria-activedescendant={
+          showSuggestions && activeIndex >= 0
+            ? `${listboxId}-${activeIndex}`
+            : undefined
+        }
+        placeholder="Search products..."
+        value={value}
+        onChange={(e) => {
+          setValue(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={close}
+        onKeyDown={handleKeyDown}
+        className="w-full h-11 pl-10 pr-4 rounded-xl bg-surface-light border border-border/50 text-sm text-text-primary placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary transition-all"
+      />
+      <svg
+        xmlns="http://www.w3.org/2000/svg"
+        fill="none"
+        viewBox="0 0 24 24"
+        strokeWidth={1.5}
+        stroke="currentColor"
+        className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-text-muted"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          d="m21 21-5.197-5.197m0 0A7.5 7.5 0 1 0 5.196 5.196a7.5 7.5 0 0 0 10.607 10.607Z"
+        />
+      </svg>
+      {value && (
+        <button
+          type="button"
+          onClick={() => {
+            setValue("");
+            search("");
+          }}
+          className="absolute right-3 top-1/2 -translate-y-1/2 text-text-muted hover:text-text-primary"
+        >
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            fill="none"
+            viewBox="0 0 24 24"
+            strokeWidth={1.5}
+            stroke="currentColor"
+            className="h-4 w-4"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              d="M6 18 18 6M6 6l12 12"
+            />
+          </svg>
+        </button>
+      )}
+
+      {/* Suggestions */}
+      <ul
+        id={listboxId}
+        role="listbox"
+        hidden={!showSuggestions}
+        className="absolute z-20 mt-2 w-full max-h-96 overflow-y-auto rounded-xl bg-surface-light border border-border/50 shadow-lg py-2"
+      >
+        {suggestions.map((suggestion, i) => (
+          <li key={`${suggestion.kind}-${suggestion.label}`} role="none">
+            {(i === 0 || suggestions[i - 1].kind !== suggestion.kind) && (
+              <p className="px-4 pt-2 pb-1 text-[10px] font-medium uppercase tracking-wider text-text-muted">
+                {GROUP_LABELS[suggestion.kind]}
+              </p>
+            )}
+            <div
+              id={`${listboxId}-${i}`}
+              role="option"
+              aria-selected={i === activeIndex}
+              // Keep focus in the input so the click isn't lost to blur
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => select(suggestion)}
+              onMouseEnter={() => setActiveIndex(i)}
+              className={`flex items-center gap-3 px-4 py-2 text-sm cursor-pointer ${
+                i === activeIndex
+                  ? "bg-surface-lighter text-text-primary"
+                  : "text-text-secondary"
+              }`}
+            >
+              {suggestion.kind === "product" ? (
+                <>
+                  <div className="relative h-8 w-8 shrink-0 overflow-hidden rounded-md bg-surface-lighter">
+                    <Image
+                      src={suggestion.image_url || "/placeholder.png"}
+                      alt=""
+                      fill
+                      sizes="32px"
+                      className="object-cover"
+                    />
+                  </div>
+                  <span className="truncate">{suggestion.label}</span>
+                  <span className="ml-auto text-xs text-text-muted capitalize">
+                    {suggestion.category}
+                  </span>
+                </>
+              ) : (
+                <span
+                  className={suggestion.kind === "category" ? "capitalize" : ""}
+                >
+                  {suggestion.label}
+                </span>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </form>
+  );
+}
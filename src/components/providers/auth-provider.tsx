@@ -9,11 +9,15 @@ import {
   type ReactNode,
 } from "react";
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
-import type { AuthUser } from "@/types";
+import { GUEST_CUSTOMER } from "@/lib/pricing-engine";
+import { apiFetch } from "@/lib/api-client";
+import type { AuthUser, CustomerContext, UserRole } from "@/types";
 import type { User } from "@supabase/supabase-js";
 
 interface AuthContextType {
   user: AuthUser | null;
+  customer: CustomerContext;
+  role: UserRole | null;
   loading: boolean;
   signIn: (
     email: string,
@@ -33,8 +37,22 @@ function mapUser(user: User | null): AuthUser | null {
   return { id: user.id, email: user.email || "" };
 }
 
+/**
+ * Move anything added to the cart as a guest into the account's cart.
+ * The server reads the guest cart from its cookie and clears it afterwards.
+ */
+async function mergeGuestCart() {
+  try {
+    await apiFetch("/api/cart/merge", { method: "POST" });
+  } catch {
+    // the guest cart stays put and can be merged on the next sign-in
+  }
+}
+
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<AuthUser | null>(null);
+  const [customer, setCustomer] = useState<CustomerContext>(GUEST_CUSTOMER);
+  const [role, setRole] = useState<UserRole | null>(null);
   const [loading, setLoading] = useState(true);
   const supabase = createSupabaseBrowserClient();
 
@@ -53,14 +71,63 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     // Listen for auth changes
     const {
       data: { subscription },
-    } = supabase.auth.onAuthStateChange((_event, session) => {
-      setUser(mapUser(session?.user ?? null));
+    } = supabase.auth.onAuthStateChange((event, session) => {
+      const nextUser = mapUser(session?.user ?? null);
+
+      if (event === "SIGNED_IN" && nextUser) {
+        // Merge before publishing the user so the cart refetch sees it
+        mergeGuestCart().finally(() => {
+          setUser(nextUser);
+          setLoading(false);
+        });
+        return;
+      }
+
+      setUser(nextUser);
       setLoading(false);
     });
 
     return () => subscription.unsubscribe();
   }, [supabase.auth]);
 
+  // Load the customer group used for pricing and the user's role
+  // whenever the user changes
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) {
+      setCustomer(GUEST_CUSTOMER);
+      setRole(null);
+      return;
+    }
+
+    let cancelled = false;
+    const loadCustomer = async () => {
+      try {
+        const data = await apiFetch<CustomerContext>("/api/customer");
+        if (!cancelled) setCustomer(data);
+      } catch {
+        // keep the previous context
+      }
+    };
+
+    const loadRole = async () => {
+      const { data } = await supabase
+        .from("profiles")
+        .select("role")
+        .eq("id", userId)
+        .maybeSingle();
+      if (!cancelled)
+        setRole((data?.role as UserRole | undefined) ?? "customer");
+    };
+
+    loadCustomer();
+    loadRole();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, supabase]);
+
   const signIn = useCallback(
     async (email: string, password: string) => {
       const { error } = await supabase.auth.signInWithPassword({
@@ -92,7 +159,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }, [supabase.auth]);
 
   return (
-    <AuthContext.Provider value={{ user, loading, signIn, signUp, signOut }}>
+    <AuthContext.Provider
+      value={{ user, customer, role, loading, signIn, signUp, signOut }}
+    >
       {children}
     </AuthContext.Provider>
   );
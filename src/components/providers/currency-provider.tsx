@@ -0,0 +1,90 @@
+"use client";
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useState,
+  type ReactNode,
+} from "react";
+import { useStoreSettings } from "@/components/providers/store-settings-provider";
+import {
+  CURRENCY_COOKIE,
+  convertMoney,
+  formatMoney,
+  hasExchangeRate,
+} from "@/lib/currency";
+import type { ExchangeRate } from "@/types";
+
+interface CurrencyContextType {
+  baseCurrency: string;
+  currency: string;
+  currencies: string[];
+  setCurrency: (currency: string) => void;
+  /** Convert an amount in the base currency and format it for display */
+  formatPrice: (amount: number) => string;
+}
+
+const CurrencyContext = createContext<CurrencyContextType | undefined>(
+  undefined,
+);
+
+/**
+ * Holds the shopper's display currency and the exchange rates (loaded on
+ * the server in the root layout). Prices are calculated in the store's
+ * base currency everywhere; they are only converted here, when shown.
+ * The choice is kept in a cookie so server-rendered pages match.
+ */
+export function CurrencyProvider({
+  initialCurrency,
+  rates,
+  children,
+}: {
+  initialCurrency: string | null;
+  rates: ExchangeRate[];
+  children: ReactNode;
+}) {
+  const baseCurrency = useStoreSettings().currency;
+  const [selected, setSelected] = useState(initialCurrency ?? baseCurrency);
+
+  // A currency whose rate has since been removed falls back to the base
+  const currency = hasExchangeRate(selected, rates, baseCurrency)
+    ? selected
+    : baseCurrency;
+
+  const setCurrency = useCallback((next: string) => {
+    document.cookie = `${CURRENCY_COOKIE}=${next}; path=/; max-age=31536000; samesite=lax`;
+    setSelected(next);
+  }, []);
+
+  const formatPrice = useCallback(
+    (amount: number) =>
+      formatMoney(
+        convertMoney(amount, currency, rates, baseCurrency),
+        currency,
+      ),
+    [currency, rates, baseCurrency],
+  );
+
+  return (
+    <CurrencyContext.Provider
+      value={{
+        baseCurrency,
+        currency,
+        currencies: [baseCurrency, ...rates.map((rate) => rate.currency)],
+        setCurrency,
+        formatPrice,
+      }}
+    >
+      {children}
+    </CurrencyContext.Provider>
+  );
+}
+
+export function useCurrency() {
+  const context = useContext(CurrencyContext);
+  if (!context) {
+    throw new Error("useCurrency must be used within a CurrencyProvider");
+  }
+  return context;
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import { createContext, useContext, type ReactNode } from "react";
+import { DEFAULT_STORE_SETTINGS } from "@/lib/pricing-engine";
+import type { QuantityBreak, StoreSettings } from "@/types";
+
+interface StoreSettingsContextType {
+  settings: StoreSettings;
+  quantityBreaks: QuantityBreak[];
+}
+
+const StoreSettingsContext = createContext<StoreSettingsContextType>({
+  settings: DEFAULT_STORE_SETTINGS,
+  quantityBreaks: [],
+});
+
+/**
+ * Makes the store's pricing rules and quantity breaks (loaded on the
+ * server in the root layout) available to client components that run the
+ * pricing engine. Carts are priced on the server (POST /api/cart/summary).
+ */
+export function StoreSettingsProvider({
+  settings,
+  quantityBreaks,
+  children,
+}: {
+  settings: StoreSettings;
+  quantityBreaks: QuantityBreak[];
+  children: ReactNode;
+}) {
+  return (
+    <StoreSettingsContext.Provider value={{ settings, quantityBreaks }}>
+      {children}
+    </StoreSettingsContext.Provider>
+  );
+}
+
+export function useStoreSettings() {
+  return useContext(StoreSettingsContext).settings;
+}
+
+export function useQuantityBreaks() {
+  return useContext(StoreSettingsContext).quantityBreaks;
+}
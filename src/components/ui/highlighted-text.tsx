@@ -0,0 +1,28 @@
+import { splitHighlights } from "@/lib/search";
+
+interface HighlightedTextProps {
+  /** Text with search highlight markers, e.g. a product's `match.name` */
+  text: string;
+}
+
+/**
+ * Search-highlighted text, with the matched words wrapped in <mark>.
+ */
+export default function HighlightedText({ text }: HighlightedTextProps) {
+  return (
+    <>
+      {splitHighlights(text).map((segment, i) =>
+        segment.highlighted ? (
+          <mark
+            key={i}
+            className="bg-primary/20 text-primary-light rounded-sm px-0.5"
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        ),
+      )}
+    </>
+  );
+}
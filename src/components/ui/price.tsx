@@ -0,0 +1,17 @@
+"use client";
+
+import { useCurrency } from "@/components/providers/currency-provider";
+
+interface PriceProps {
+  /** Amount in the store's base currency */
+  amount: number;
+}
+
+/**
+ * A price in the shopper's display currency. Lets server components show
+ * converted prices without becoming client components themselves.
+ */
+export default function Price({ amount }: PriceProps) {
+  const { formatPrice } = useCurrency();
+  return <>{formatPrice(amount)}</>;
+}
@@ -0,0 +1,154 @@
+import type {
+  AddressFieldErrors,
+  AddressInput,
+  ShippingCountry,
+} from "@/types";
+
+export const ADDRESS_COUNTRIES: Record<ShippingCountry, string> = {
+  AU: "Australia",
+  NZ: "New Zealand",
+};
+
+export const AU_STATES: Record<string, string> = {
+  ACT: "Australian Capital Territory",
+  NSW: "New South Wales",
+  NT: "Northern Territory",
+  QLD: "Queensland",
+  SA: "South Australia",
+  TAS: "Tasmania",
+  VIC: "Victoria",
+  WA: "Western Australia",
+};
+
+/**
+ * Australia Post postcode ranges per state (inclusive), including PO box
+ * and large-volume ranges.
+ */
+const AU_STATE_POSTCODES: Record<string, [number, number][]> = {
+  ACT: [
+    [200, 299],
+    [2600, 2618],
+    [2900, 2920],
+  ],
+  NSW: [
+    [1000, 2599],
+    [2619, 2899],
+    [2921, 2999],
+  ],
+  NT: [[800, 999]],
+  QLD: [
+    [4000, 4999],
+    [9000, 9999],
+  ],
+  SA: [[5000, 5999]],
+  TAS: [[7000, 7999]],
+  VIC: [
+    [3000, 3999],
+    [8000, 8999],
+  ],
+  WA: [[6000, 6999]],
+};
+
+const POSTCODE_PATTERN = /^\d{4}$/;
+
+export const EMPTY_ADDRESS: AddressInput = {
+  full_name: "",
+  company: null,
+  line1: "",
+  line2: null,
+  suburb: "",
+  state: "",
+  postcode: "",
+  country: "AU",
+  phone: null,
+};
+
+function optional(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function required(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+/**
+ * Check an address against the rules for its country.
+ *
+ * Australian addresses need one of the eight state/territory codes and a
+ * 4-digit postcode that belongs to that state; New Zealand addresses need
+ * a 4-digit postcode (the region is optional). Values are trimmed, and
+ * state codes upper-cased, in the returned address.
+ *
+ * @returns The cleaned address when valid, otherwise an error per field
+ */
+export function validateAddress(
+  input: unknown,
+):
+  | { valid: true; address: AddressInput }
+  | { valid: false; errors: AddressFieldErrors } {
+  const raw = (
+    typeof input === "object" && input !== null ? input : {}
+  ) as Record<string, unknown>;
+
+  const address: AddressInput = {
+    full_name: required(raw.full_name),
+    company: optional(raw.company),
+    line1: required(raw.line1),
+    line2: optional(raw.line2),
+    suburb: required(raw.suburb),
+    state: required(raw.state).toUpperCase(),
+    postcode: required(raw.postcode),
+    country: raw.country as ShippingCountry,
+    phone: optional(raw.phone),
+  };
+
+  const errors: AddressFieldErrors = {};
+
+  if (!address.full_name) errors.full_name = "Enter a name";
+  if (!address.line1) errors.line1 = "Enter a street address";
+  if (!address.suburb) {
+    errors.suburb =
+      address.country === "NZ" ? "Enter a town or city" : "Enter a suburb";
+  }
+
+  if (!(address.country in ADDRESS_COUNTRIES)) {
+    errors.country = "We only ship to Australia and New Zealand";
+  } else if (!POSTCODE_PATTERN.test(address.postcode)) {
+    errors.postcode = "Postcodes are 4 digits";
+  }
+
+  if (address.country === "AU") {
+    const ranges = AU_STATE_POSTCODES[address.state];
+    if (!ranges) {
+      errors.state = "Choose a state or territory";
+    } else if (!errors.postcode) {
+      const postcode = parseInt(address.postcode, 10);
+      if (!ranges.some(([from, to]) => postcode >= from && postcode <= to)) {
+        errors.postcode = `${address.postcode} isn't a ${address.state} postcode`;
+      }
+    }
+  }
+
+  if (address.phone && !/^\+?[\d\s()-]{6,20}$/.test(address.phone)) {
+    errors.phone = "Enter a valid phone number";
+  }
+
+  return Object.keys(errors).length > 0
+    ? { valid: false, errors }
+    : { valid: true, address };
+}
+
+/**
+ * An address as display lines, e.g. for order pages.
+ */
+export function formatAddressLines(address: AddressInput): string[] {
+  return [
+    address.full_name,
+    address.company,
+    address.line1,
+    address.line2,
+    [address.suburb, address.state, address.postcode].filter(Boolean).join(" "),
+    ADDRESS_COUNTRIES[address.country] ?? address.country,
+    address.phone,
+  ].filter((line): line is string => Boolean(line));
+}
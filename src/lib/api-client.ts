@@ -0,0 +1,88 @@
+import type { ApiErrorCode, ApiResponse, PaginationMeta } from "@/types";
+
+/**
+ * A failed API call: the route's error code and message, plus per-field
+ * messages for VALIDATION_FAILED and the request id to quote when
+ * reporting a problem.
+ */
+export class ApiError extends Error {
+  constructor(
+    public readonly code: ApiErrorCode,
+    message: string,
+    public readonly status: number,
+    public readonly fields: Record<string, string> = {},
+    public readonly details: Record<string, unknown> = {},
+    public readonly requestId: string | null = null,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+interface ApiFetchOptions {
+  method?: "GET" | "POST" | "PATCH" | "DELETE";
+  body?: unknown; // Sent as JSON
+  signal?: AbortSignal;
+}
+
+/**
+ * Call one of the app's API routes and unwrap its ApiResponse envelope.
+ * Resolves with `data` and, for paginated lists, `meta`.
+ *
+ * @throws ApiError when the route answers with an error, or the request
+ *   fails before it gets one (code INTERNAL_ERROR, status 0)
+ */
+export async function apiFetchWithMeta<T>(
+  path: string,
+  options: ApiFetchOptions = {},
+): Promise<{ data: T; meta: PaginationMeta | null }> {
+  const { method = "GET", body, signal } = options;
+
+  let res: Response;
+  let payload: ApiResponse<T> | null;
+  try {
+    res = await fetch(path, {
+      method,
+      signal,
+      ...(body !== undefined && {
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      }),
+    });
+    payload = await res.json().catch(() => null);
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") {
+      throw error;
+    }
+    throw new ApiError("INTERNAL_ERROR", "Couldn't reach the server", 0);
+  }
+
+  const requestId = res.headers.get("x-request-id");
+
+  if (!res.ok || !payload || payload.error) {
+    const error = payload?.error;
+    throw new ApiError(
+      error?.code ?? "INTERNAL_ERROR",
+      error?.message ?? `Request failed (${res.status})`,
+      res.status,
+      error?.fields,
+      error?.details,
+      requestId,
+    );
+  }
+
+  return { data: payload.data, meta: payload.meta ?? null };
+}
+
+/**
+ * Call one of the app's API routes and resolve with its `data`.
+ *
+ * @throws ApiError as for apiFetchWithMeta
+ */
+export async function apiFetch<T>(
+  path: string,
+  options: ApiFetchOptions = {},
+): Promise<T> {
+  const { data } = await apiFetchWithMeta<T>(path, options);
+  return data;
+}
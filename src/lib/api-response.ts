@@ -0,0 +1,107 @@
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+import { AuthorizationError } from "@/lib/auth";
+import type {
+  ApiErrorBody,
+  ApiErrorCode,
+  ApiResponse,
+  PaginatedResponse,
+} from "@/types";
+
+/**
+ * Response helpers for the API routes, so every route answers with the
+ * same ApiResponse envelope:
+ *
+ *   { data, error: null }                   success
+ *   { data, error: null, meta }             a page of a paginated list
+ *   { data: null, error: { code, message } } failure
+ *
+ * Every response also carries the request's id in the `x-request-id`
+ * header (set by the middleware).
+ */
+
+const ERROR_STATUS: Record<ApiErrorCode, number> = {
+  AUTH_REQUIRED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  OUT_OF_STOCK: 409,
+  CONFLICT: 409,
+  VALIDATION_FAILED: 422,
+  BAD_REQUEST: 400,
+  PAYMENT_DECLINED: 402,
+  INTERNAL_ERROR: 500,
+};
+
+/**
+ * A successful response. Actions with nothing to return send `null`.
+ */
+export function apiSuccess<T>(
+  data: T,
+  status = 200,
+): NextResponse<ApiResponse<T>> {
+  return NextResponse.json({ data, error: null }, { status });
+}
+
+/**
+ * One page of a paginated list, with the paging in `meta`.
+ */
+export function apiPage<T>(
+  page: PaginatedResponse<T>,
+): NextResponse<ApiResponse<T[]>> {
+  const { data, ...meta } = page;
+  return NextResponse.json({ data, error: null, meta }, { status: 200 });
+}
+
+/**
+ * An error response. The status defaults to the code's usual status.
+ */
+export function apiError(
+  code: ApiErrorCode,
+  message: string,
+  options: Omit<ApiErrorBody, "code" | "message"> & { status?: number } = {},
+): NextResponse<ApiResponse<never>> {
+  const { status = ERROR_STATUS[code], ...extra } = options;
+  return NextResponse.json(
+    { data: null, error: { code, message, ...extra } },
+    { status },
+  );
+}
+
+/**
+ * 422 VALIDATION_FAILED with a message per invalid field.
+ */
+export function validationError(
+  message: string,
+  fields: Record<string, string>,
+): NextResponse<ApiResponse<never>> {
+  return apiError("VALIDATION_FAILED", message, { fields });
+}
+
+/**
+ * 401 AUTH_REQUIRED or 403 FORBIDDEN for a failed requireRole().
+ */
+export function authorizationError(
+  error: AuthorizationError,
+): NextResponse<ApiResponse<never>> {
+  return apiError(
+    error.status === 401 ? "AUTH_REQUIRED" : "FORBIDDEN",
+    error.message,
+  );
+}
+
+/**
+ * 500 INTERNAL_ERROR for anything a route didn't expect. The error is
+ * logged against the request id; the caller only gets a generic message,
+ * since database and provider errors can describe internals.
+ */
+export async function serverError(
+  error: unknown,
+): Promise<NextResponse<ApiResponse<never>>> {
+  const requestId = (await headers()).get("x-request-id");
+  console.error(`[${requestId ?? "no request id"}] Unhandled error`, error);
+
+  return apiError(
+    "INTERNAL_ERROR",
+    "Something went wrong. Please try again later.",
+  );
+}
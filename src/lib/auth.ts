@@ -0,0 +1,57 @@
+import type { User } from "@supabase/supabase-js";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { hasRole } from "@/lib/roles";
+import { getUserRole } from "@/services/customer-service";
+import type { UserRole } from "@/types";
+
+/**
+ * Thrown when the current request isn't allowed to perform an action.
+ * `status` is 401 when nobody is signed in and 403 when the user's role
+ * isn't permitted.
+ */
+export class AuthorizationError extends Error {
+  constructor(
+    public readonly status: 401 | 403,
+    message: string,
+  ) {
+    super(message);
+    this.name = "AuthorizationError";
+  }
+}
+
+/**
+ * Get the signed-in user and their role, or null for guests.
+ */
+export async function getCurrentUserWithRole(): Promise<{
+  user: User;
+  role: UserRole;
+} | null> {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return null;
+
+  return { user, role: await getUserRole(user.id) };
+}
+
+/**
+ * Require the signed-in user to have one of the given roles.
+ * Used by every admin route; throws AuthorizationError otherwise.
+ */
+export async function requireRole(
+  ...roles: UserRole[]
+): Promise<{ user: User; role: UserRole }> {
+  const current = await getCurrentUserWithRole();
+
+  if (!current) {
+    throw new AuthorizationError(401, "Authentication required");
+  }
+
+  if (!hasRole(current.role, roles)) {
+    throw new AuthorizationError(403, "You don't have permission to do that");
+  }
+
+  return current;
+}
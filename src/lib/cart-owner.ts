@@ -0,0 +1,22 @@
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { getGuestCartId, getOrCreateGuestCartId } from "@/lib/guest-cart";
+import type { CartOwner } from "@/types";
+
+/**
+ * Resolve whose cart a request acts on — the signed-in user, or the guest
+ * cart named by the signed cookie. With `create`, a guest without a cart
+ * is issued one.
+ */
+export async function getCartOwner(create = false): Promise<CartOwner | null> {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (user) return { userId: user.id };
+
+  const guestCartId = create
+    ? await getOrCreateGuestCartId()
+    : await getGuestCartId();
+  return guestCartId ? { guestCartId } : null;
+}
@@ -0,0 +1,93 @@
+import { DEFAULT_STORE_SETTINGS } from "@/lib/pricing-engine";
+import type { ExchangeRate } from "@/types";
+
+/**
+ * Cookie holding the shopper's display currency, so server-rendered pages
+ * start out in the right currency.
+ */
+export const CURRENCY_COOKIE = "neto-currency";
+
+const CURRENCY_CODE_PATTERN = /^[A-Z]{3}$/;
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+function getFormatter(currency: string): Intl.NumberFormat {
+  let formatter = formatters.get(currency);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat("en-AU", {
+      style: "currency",
+      currency,
+    });
+    formatters.set(currency, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Whether a string is an ISO 4217 currency code Intl can format, e.g. "USD".
+ */
+export function isCurrencyCode(code: unknown): code is string {
+  if (typeof code !== "string" || !CURRENCY_CODE_PATTERN.test(code)) {
+    return false;
+  }
+  try {
+    getFormatter(code);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Format an amount of money, e.g. formatMoney(12.5) → "$12.50" and
+ * formatMoney(12.5, "USD") → "USD 12.50". The currency's own minor units
+ * are used (JPY has none).
+ *
+ * @param currency - ISO 4217 code (default: the store's base currency)
+ */
+export function formatMoney(
+  amount: number,
+  currency: string = DEFAULT_STORE_SETTINGS.currency,
+): string {
+  return getFormatter(currency).format(amount);
+}
+
+/**
+ * The English name of a currency, e.g. "US Dollars" for "USD".
+ */
+export function getCurrencyName(currency: string): string {
+  return (
+    new Intl.DisplayNames(["en-AU"], { type: "currency" }).of(currency) ??
+    currency
+  );
+}
+
+/**
+ * Convert an amount in the store's base currency for display.
+ * Amounts in the base currency, or in a currency without a rate, are
+ * returned unchanged — check `hasExchangeRate` before labelling the result.
+ */
+export function convertMoney(
+  amount: number,
+  currency: string,
+  rates: ExchangeRate[],
+  baseCurrency: string = DEFAULT_STORE_SETTINGS.currency,
+): number {
+  if (currency === baseCurrency) return amount;
+  const rate = rates.find((r) => r.currency === currency)?.rate;
+  return rate ? amount * rate : amount;
+}
+
+/**
+ * Whether prices can be shown in a currency: it's the base currency or
+ * has an exchange rate.
+ */
+export function hasExchangeRate(
+  currency: string,
+  rates: ExchangeRate[],
+  baseCurrency: string = DEFAULT_STORE_SETTINGS.currency,
+): boolean {
+  return (
+    currency === baseCurrency || rates.some((r) => r.currency === currency)
+  );
+}
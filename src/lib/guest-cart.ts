@@ -0,0 +1,86 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import { cookies } from "next/headers";
+
+/**
+ * Anonymous carts are stored in `cart_items` under a random guest cart id.
+ * The id is handed to the browser in an HMAC-signed, httpOnly cookie so a
+ * shopper can't switch to someone else's cart by editing it.
+ */
+export const GUEST_CART_COOKIE = "neto-guest-cart";
+
+const GUEST_CART_MAX_AGE = 60 * 60 * 24 * 30; // 30 days
+
+function getSecret(): string {
+  const secret = process.env.GUEST_CART_SECRET;
+  if (!secret) {
+    throw new Error("GUEST_CART_SECRET is not configured");
+  }
+  return secret;
+}
+
+function sign(cartId: string): string {
+  return createHmac("sha256", getSecret()).update(cartId).digest("base64url");
+}
+
+/**
+ * Cookie value for a guest cart id: `<id>.<signature>`.
+ */
+export function signGuestCartId(cartId: string): string {
+  return `${cartId}.${sign(cartId)}`;
+}
+
+/**
+ * Return the guest cart id from a cookie value, or null if the value is
+ * malformed or its signature doesn't match.
+ */
+export function verifyGuestCartId(value: string): string | null {
+  const [cartId, signature] = value.split(".");
+  if (!cartId || !signature) return null;
+
+  const expected = Buffer.from(sign(cartId));
+  const actual = Buffer.from(signature);
+
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  return cartId;
+}
+
+/**
+ * The current request's guest cart id, if it carries a valid cookie.
+ */
+export async function getGuestCartId(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const value = cookieStore.get(GUEST_CART_COOKIE)?.value;
+  return value ? verifyGuestCartId(value) : null;
+}
+
+/**
+ * The current request's guest cart id, issuing a new cookie when there
+ * isn't one yet. Only callable where cookies can be set (route handlers).
+ */
+export async function getOrCreateGuestCartId(): Promise<string> {
+  const existing = await getGuestCartId();
+  if (existing) return existing;
+
+  const cartId = randomUUID();
+  const cookieStore = await cookies();
+  cookieStore.set(GUEST_CART_COOKIE, signGuestCartId(cartId), {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: GUEST_CART_MAX_AGE,
+  });
+
+  return cartId;
+}
+
+/**
+ * Remove the guest cart cookie (e.g. once its items are merged on login).
+ */
+export async function clearGuestCartCookie(): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.delete(GUEST_CART_COOKIE);
+}
@@ -0,0 +1,173 @@
+/**
+ * How to round a fraction of a cent:
+ * - `half-up`: to the nearest cent, halves away from zero (e.g. GST, discounts)
+ * - `half-even`: to the nearest cent, halves to the even cent (banker's rounding)
+ * - `up`: away from zero
+ * - `down`: towards zero
+ */
+export type RoundingMode = "half-up" | "half-even" | "up" | "down";
+
+const EPSILON = 1e-9;
+
+/**
+ * Snap away binary floating-point noise (e.g. 1999 × 0.1 = 199.90000000000003)
+ * so it can't tip a value over a rounding boundary.
+ */
+function snap(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+function roundToInteger(value: number, mode: RoundingMode): number {
+  const snapped = snap(value);
+  const sign = snapped < 0 ? -1 : 1;
+  const whole = Math.floor(Math.abs(snapped));
+  const fraction = Math.abs(snapped) - whole;
+
+  let rounded: number;
+  if (fraction < EPSILON) {
+    rounded = whole;
+  } else if (mode === "down") {
+    rounded = whole;
+  } else if (mode === "up") {
+    rounded = whole + 1;
+  } else if (Math.abs(fraction - 0.5) < EPSILON) {
+    rounded = mode === "half-up" || whole % 2 === 1 ? whole + 1 : whole;
+  } else {
+    rounded = fraction > 0.5 ? whole + 1 : whole;
+  }
+
+  return sign * rounded + 0; // + 0 turns -0 into 0
+}
+
+/**
+ * An amount of money in the store's currency, held as a whole number of
+ * cents so sums never drift. Values are immutable; every operation returns
+ * a new Money, and any step that can produce a fraction of a cent
+ * (multiplying, taking a percentage) rounds with an explicit RoundingMode.
+ *
+ * Amounts enter and leave as dollars (`fromDollars` / `toDollars`), the
+ * unit used by the database and the rest of the app.
+ */
+export class Money {
+  static readonly zero = new Money(0);
+
+  private constructor(readonly cents: number) {}
+
+  /**
+   * @throws RangeError when `cents` isn't a whole number
+   */
+  static fromCents(cents: number): Money {
+    if (!Number.isInteger(cents)) {
+      throw new RangeError(`Money needs a whole number of cents, got ${cents}`);
+    }
+    return new Money(cents);
+  }
+
+  static fromDollars(
+    amount: number,
+    rounding: RoundingMode = "half-up",
+  ): Money {
+    return new Money(roundToInteger(amount * 100, rounding));
+  }
+
+  static sum(amounts: Money[]): Money {
+    return new Money(amounts.reduce((sum, amount) => sum + amount.cents, 0));
+  }
+
+  add(other: Money): Money {
+    return new Money(this.cents + other.cents);
+  }
+
+  subtract(other: Money): Money {
+    return new Money(this.cents - other.cents);
+  }
+
+  times(factor: number, rounding: RoundingMode = "half-up"): Money {
+    return new Money(roundToInteger(this.cents * factor, rounding));
+  }
+
+  /**
+   * `percent`% of this amount, e.g. Money.fromDollars(19.99).percentage(10)
+   * is $2.00.
+   */
+  percentage(percent: number, rounding: RoundingMode = "half-up"): Money {
+    return this.times(percent / 100, rounding);
+  }
+
+  /**
+   * Split this amount in proportion to `weights` (e.g. an order-level
+   * discount across lines by line total). Every part is a whole number of
+   * cents and the parts always add up to exactly this amount: the cents
+   * left over after rounding down go to the parts with the largest
+   * remainders, earliest first. All-zero weights split the amount evenly.
+   *
+   * @throws RangeError when a weight is negative
+   */
+  allocate(weights: number[]): Money[] {
+    if (weights.length === 0) return [];
+    if (weights.some((weight) => weight < 0)) {
+      throw new RangeError("Allocation weights can't be negative");
+    }
+
+    const weightTotal = weights.reduce((sum, weight) => sum + weight, 0);
+    const shares = weightTotal > 0 ? weights : weights.map(() => 1);
+    const shareTotal = weightTotal > 0 ? weightTotal : weights.length;
+
+    const exact = shares.map((share) =>
+      snap((this.cents * share) / shareTotal),
+    );
+    const parts = exact.map((value) => Math.trunc(value));
+
+    const step = this.cents < 0 ? -1 : 1;
+    let left = this.cents - parts.reduce((sum, part) => sum + part, 0);
+    const byRemainder = exact
+      .map((value, index) => ({
+        index,
+        remainder: Math.abs(value - parts[index]),
+      }))
+      .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+
+    for (let i = 0; left !== 0; i++) {
+      parts[byRemainder[i % byRemainder.length].index] += step;
+      left -= step;
+    }
+
+    return parts.map((part) => new Money(part + 0));
+  }
+
+  min(other: Money): Money {
+    return this.cents <= other.cents ? this : other;
+  }
+
+  max(other: Money): Money {
+    return this.cents >= other.cents ? this : other;
+  }
+
+  isZero(): boolean {
+    return this.cents === 0;
+  }
+
+  isPositive(): boolean {
+    return this.cents > 0;
+  }
+
+  isNegative(): boolean {
+    return this.cents < 0;
+  }
+
+  equals(other: Money): boolean {
+    return this.cents === other.cents;
+  }
+
+  greaterThan(other: Money): boolean {
+    return this.cents > other.cents;
+  }
+
+  lessThan(other: Money): boolean {
+    return this.cents < other.cents;
+  }
+
+  toDollars(): number {
+    return this.cents / 100;
+  }
+}
@@ -0,0 +1,76 @@
+import type { OrderStatus } from "@/types";
+
+/**
+ * Order status state machine.
+ *
+ * Orders move forward one step at a time: pending → confirmed →
+ * processing → shipped → delivered. They can be cancelled until they
+ * ship; delivered and cancelled are final.
+ */
+const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["confirmed", "cancelled"],
+  confirmed: ["processing", "cancelled"],
+  processing: ["shipped", "cancelled"],
+  shipped: ["delivered"],
+  delivered: [],
+  cancelled: [],
+};
+
+export const ORDER_STATUSES = Object.keys(
+  ORDER_STATUS_TRANSITIONS,
+) as OrderStatus[];
+
+/**
+ * Thrown when an order is asked to move to a status it can't reach from
+ * its current one (e.g. delivered → pending).
+ */
+export class InvalidStatusTransitionError extends Error {
+  constructor(
+    public readonly from: OrderStatus,
+    public readonly to: OrderStatus,
+  ) {
+    super(`Cannot change order status from ${from} to ${to}`);
+    this.name = "InvalidStatusTransitionError";
+  }
+}
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return (
+    typeof value === "string" && ORDER_STATUSES.includes(value as OrderStatus)
+  );
+}
+
+/**
+ * Statuses an order in `status` can move to next.
+ */
+export function getNextStatuses(status: OrderStatus): OrderStatus[] {
+  return ORDER_STATUS_TRANSITIONS[status];
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Throw InvalidStatusTransitionError unless `from → to` is allowed.
+ */
+export function assertTransition(from: OrderStatus, to: OrderStatus): void {
+  if (!canTransition(from, to)) {
+    throw new InvalidStatusTransitionError(from, to);
+  }
+}
+
+/**
+ * Whether an order can still be cancelled (i.e. it hasn't shipped).
+ */
+export function isCancellable(status: OrderStatus): boolean {
+  return canTransition(status, "cancelled");
+}
+
+/**
+ * Whether an order can be partially or fully refunded. Orders that haven't
+ * shipped are cancelled (and refunded in full) instead.
+ */
+export function isRefundable(status: OrderStatus): boolean {
+  return status === "shipped" || status === "delivered";
+}
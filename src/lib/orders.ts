@@ -0,0 +1,146 @@
+import { Money } from "@/lib/money";
+import { formatMoney } from "@/lib/currency";
+import type {
+  Order,
+  OrderItem,
+  OrderStatus,
+  OrderStatusChange,
+  OrderWithItems,
+  PaymentStatus,
+} from "@/types";
+
+/**
+ * The path an order normally takes. `cancelled` can branch off at any point
+ * before delivery, so it isn't part of the sequence.
+ */
+export const ORDER_STATUS_STEPS: OrderStatus[] = [
+  "pending",
+  "confirmed",
+  "processing",
+  "shipped",
+  "delivered",
+];
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: "Order placed",
+  confirmed: "Confirmed",
+  processing: "Processing",
+  shipped: "Shipped",
+  delivered: "Delivered",
+  cancelled: "Cancelled",
+};
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  unpaid: "Unpaid",
+  failed: "Payment failed",
+  authorized: "Authorised",
+  paid: "Paid",
+  partially_refunded: "Partially refunded",
+  refunded: "Refunded",
+};
+
+/**
+ * Label for an order's tax total: GST added on top, or already included
+ * in the prices.
+ */
+export function getOrderTaxLabel(order: Order): string {
+  return order.tax_inclusive ? "Includes GST" : "GST";
+}
+
+/**
+ * The GST on one order line for invoices, e.g. "GST $5.45" or "GST-free".
+ *
+ * @param currency - The store's currency, which the order was charged in
+ */
+export function formatLineTax(item: OrderItem, currency: string): string {
+  return item.tax_class === "gst_free"
+    ? "GST-free"
+    : `GST ${formatMoney(item.tax_amount, currency)}`;
+}
+
+export interface OrderTimelineStep {
+  status: OrderStatus;
+  label: string;
+  state: "complete" | "current" | "upcoming";
+  date: string | null; // When the order entered this status, if recorded
+}
+
+/**
+ * Build the status timeline for an order: every step up to the current
+ * status is complete, dated from the order's status history where known.
+ * A cancelled order shows the steps it reached followed by the
+ * cancellation.
+ */
+export function getOrderTimeline(
+  order: Order,
+  history: OrderStatusChange[] = [],
+): OrderTimelineStep[] {
+  const dateOf = (status: OrderStatus) =>
+    history.find((change) => change.to_status === status)?.created_at ??
+    (status === "pending" ? order.created_at : null);
+
+  if (order.status === "cancelled") {
+    const reached = ORDER_STATUS_STEPS.filter(
+      (status) =>
+        status === "pending" ||
+        history.some((change) => change.to_status === status),
+    );
+
+    return [
+      ...reached.map((status) => ({
+        status,
+        label: ORDER_STATUS_LABELS[status],
+        state: "complete" as const,
+        date: dateOf(status),
+      })),
+      {
+        status: "cancelled",
+        label: ORDER_STATUS_LABELS.cancelled,
+        state: "current",
+        date: dateOf("cancelled"),
+      },
+    ];
+  }
+
+  const currentIndex = ORDER_STATUS_STEPS.indexOf(order.status);
+
+  return ORDER_STATUS_STEPS.map((status, index) => ({
+    status,
+    label: ORDER_STATUS_LABELS[status],
+    state:
+      index < currentIndex
+        ? "complete"
+        : index === currentIndex
+          ? "current"
+          : "upcoming",
+    date: index <= currentIndex ? dateOf(status) : null,
+  }));
+}
+
+/**
+ * Split an order's discount total into the per-line discounts (product,
+ * bulk and member pricing) and the promo code discount applied on top.
+ */
+export function getOrderDiscountBreakdown(order: OrderWithItems): {
+  lineDiscounts: number;
+  promoDiscount: number;
+} {
+  const lineDiscounts = Money.sum(
+    order.order_items.map((item) => Money.fromDollars(item.discount_amount)),
+  );
+  const promoDiscount = Money.fromDollars(order.discount_total)
+    .subtract(lineDiscounts)
+    .max(Money.zero);
+
+  return {
+    lineDiscounts: lineDiscounts.toDollars(),
+    promoDiscount: promoDiscount.toDollars(),
+  };
+}
+
+/**
+ * Short, human-friendly order reference (first 8 characters of the id).
+ */
+export function formatOrderNumber(orderId: string): string {
+  return orderId.slice(0, 8).toUpperCase();
+}
@@ -0,0 +1,50 @@
+import { Money } from "@/lib/money";
+import { mockPaymentProvider } from "@/lib/payments/mock-provider";
+import type { PaymentProvider } from "@/lib/payments/provider";
+
+export type { PaymentProvider } from "@/lib/payments/provider";
+export { PaymentWebhookError } from "@/lib/payments/provider";
+
+const PAYMENT_PROVIDERS: Record<string, PaymentProvider> = {
+  [mockPaymentProvider.name]: mockPaymentProvider,
+};
+
+/**
+ * `PAYMENT_PROVIDER`, falling back to the mock gateway only in
+ * development and tests — a production deploy that forgot to set it
+ * must not approve every payment.
+ */
+function getConfiguredProviderName(): string {
+  const name = process.env.PAYMENT_PROVIDER;
+  if (name) return name;
+
+  if (
+    process.env.NODE_ENV === "development" ||
+    process.env.NODE_ENV === "test"
+  ) {
+    return mockPaymentProvider.name;
+  }
+
+  throw new Error("PAYMENT_PROVIDER is not configured");
+}
+
+/**
+ * The provider named by `PAYMENT_PROVIDER`, or a specific one, e.g. the
+ * provider an existing order was paid with.
+ */
+export function getPaymentProvider(
+  name: string = getConfiguredProviderName(),
+): PaymentProvider {
+  const provider = PAYMENT_PROVIDERS[name];
+  if (!provider) {
+    throw new Error(`Unknown payment provider: ${name}`);
+  }
+  return provider;
+}
+
+/**
+ * Dollars to cents.
+ */
+export function toMinorUnits(amount: number): number {
+  return Money.fromDollars(amount).cents;
+}
@@ -0,0 +1,137 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import {
+  PaymentWebhookError,
+  type PaymentProvider,
+} from "@/lib/payments/provider";
+import type { PaymentWebhookEvent } from "@/types";
+
+/**
+ * In-process stand-in for a payment gateway, for development and testing.
+ *
+ * It's stateless and deterministic: ids are derived from their inputs and
+ * every payment succeeds except those confirmed with the
+ * `pm_mock_declined` payment method. Webhooks are signed with
+ * `MOCK_PAYMENT_WEBHOOK_SECRET` (HMAC-SHA256, hex) in the
+ * `x-mock-signature` header.
+ */
+
+export const MOCK_DECLINED_PAYMENT_METHOD = "pm_mock_declined";
+
+const MOCK_SIGNATURE_HEADER = "x-mock-signature";
+
+const WEBHOOK_EVENT_TYPES: PaymentWebhookEvent["type"][] = [
+  "payment.succeeded",
+  "payment.failed",
+  "refund.succeeded",
+];
+
+function mockId(prefix: string, ...parts: (string | number)[]): string {
+  const hash = createHash("sha256").update(parts.join(":")).digest("hex");
+  return `${prefix}_${hash.slice(0, 24)}`;
+}
+
+/**
+ * The intent's amount and currency travel in its id, so later calls
+ * don't need any stored state.
+ */
+function parseIntentId(intentId: string): { amount: number; currency: string } {
+  const [, , amount, currency] = intentId.split("_");
+  return { amount: Number(amount) || 0, currency: currency || "aud" };
+}
+
+function signPayload(payload: string): string {
+  const secret = process.env.MOCK_PAYMENT_WEBHOOK_SECRET;
+  if (!secret) {
+    throw new PaymentWebhookError(
+      "MOCK_PAYMENT_WEBHOOK_SECRET is not configured",
+    );
+  }
+  return createHmac("sha256", secret).update(payload).digest("hex");
+}
+
+export const mockPaymentProvider: PaymentProvider = {
+  name: "mock",
+
+  async createIntent({ orderId, amount, currency }) {
+    const currencyCode = currency.toLowerCase();
+    return {
+      id: `${mockId("mpi", orderId, amount)}_${amount}_${currencyCode}`,
+      status: "requires_confirmation",
+      amount,
+      currency: currencyCode,
+    };
+  },
+
+  async confirmIntent(intentId, paymentMethod) {
+    const { amount, currency } = parseIntentId(intentId);
+
+    if (paymentMethod === MOCK_DECLINED_PAYMENT_METHOD) {
+      return {
+        id: intentId,
+        status: "failed",
+        amount,
+        currency,
+        failureReason: "Your card was declined",
+      };
+    }
+
+    return { id: intentId, status: "requires_capture", amount, currency };
+  },
+
+  async captureIntent(intentId) {
+    const { amount, currency } = parseIntentId(intentId);
+    return { id: intentId, status: "succeeded", amount, currency };
+  },
+
+  async refund(intentId, amount) {
+    return {
+      id: mockId("mre", intentId, amount),
+      intentId,
+      amount,
+      status: "succeeded",
+    };
+  },
+
+  verifyWebhook(payload, headers) {
+    const signature = headers.get(MOCK_SIGNATURE_HEADER);
+    if (!signature) {
+      throw new PaymentWebhookError(`Missing ${MOCK_SIGNATURE_HEADER} header`);
+    }
+
+    const expected = Buffer.from(signPayload(payload));
+    const actual = Buffer.from(signature);
+    if (
+      expected.length !== actual.length ||
+      !timingSafeEqual(expected, actual)
+    ) {
+      throw new PaymentWebhookError("Invalid webhook signature");
+    }
+
+    let event: Record<string, unknown>;
+    try {
+      event = JSON.parse(payload);
+    } catch {
+      throw new PaymentWebhookError("Webhook payload is not valid JSON");
+    }
+
+    const type = event.type as PaymentWebhookEvent["type"];
+    if (
+      typeof event.id !== "string" ||
+      typeof event.intent_id !== "string" ||
+      !WEBHOOK_EVENT_TYPES.includes(type)
+    ) {
+      throw new PaymentWebhookError("Unrecognised webhook event");
+    }
+
+    return {
+      id: event.id,
+      type,
+      intentId: event.intent_id,
+      amountRefunded:
+        typeof event.amount_refunded === "number"
+          ? event.amount_refunded
+          : undefined,
+      payload: event,
+    };
+  },
+};
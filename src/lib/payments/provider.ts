@@ -0,0 +1,51 @@
+import type {
+  PaymentIntent,
+  PaymentRefund,
+  PaymentWebhookEvent,
+} from "@/types";
+
+/**
+ * A payment gateway. Checkout and the order service only talk to this
+ * interface, so a real gateway can be added by implementing it and
+ * registering it in lib/payments/index.ts.
+ *
+ * Amounts are in cents.
+ */
+export interface PaymentProvider {
+  readonly name: string;
+
+  createIntent(input: {
+    orderId: string;
+    amount: number;
+    currency: string;
+  }): Promise<PaymentIntent>;
+
+  /**
+   * Authorise the payment with a payment method (a gateway token).
+   * Resolves with a `failed` intent when the payment is declined.
+   */
+  confirmIntent(
+    intentId: string,
+    paymentMethod?: string,
+  ): Promise<PaymentIntent>;
+
+  captureIntent(intentId: string): Promise<PaymentIntent>;
+
+  refund(intentId: string, amount: number): Promise<PaymentRefund>;
+
+  /**
+   * Check a webhook request's signature and parse its event.
+   * @throws PaymentWebhookError when the request isn't genuine
+   */
+  verifyWebhook(payload: string, headers: Headers): PaymentWebhookEvent;
+}
+
+/**
+ * Thrown when a webhook request can't be verified or parsed.
+ */
+export class PaymentWebhookError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentWebhookError";
+  }
+}
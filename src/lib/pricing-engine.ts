@@ -21,33 +21,74 @@
  * 3. Reusable, testable logic
  * 4. Transparent discount breakdown for display
  *
- * Rules:
+ * Rules (thresholds and rates come from `StoreSettings`):
  * - Product discount: Applied if product has `discount_percentage`
- * - Bulk discount: 10% off if quantity >= 3
- * - Member discount: Extra 5% off if user is authenticated
- * - Free shipping: If cart total > $1000
+ * - Bulk discount: best matching quantity break for the product, falling
+ *   back to its category's breaks, then to the global rule (e.g. 10% at 3+)
+ * - Member discount: brings the line down to the customer group's price for
+ *   the product, or takes the group's discount percentage (e.g. Wholesale
+ *   15%)
+ * - Shipping: the destination's zone rate table for each service level;
+ *   free standard shipping if cart total > e.g. $1000
+ * - Tax: GST per line by tax class (GST-free lines pay none), added on top
+ *   or — when `tax_inclusive` is set — extracted from the prices (1/11th)
+ *
+ * Amounts are worked in whole cents with `Money` and rounded once, at the
+ * step that produces them, so line and order totals always agree. Inputs
+ * and results stay in dollars.
+ *
+ * Settings are stored in the `store_settings` table and default to the
+ * `pricing` block of neto-theme-simulator/config/settings.json, the same
+ * values the Liquid snippets read via `settings.*`.
  * ============================================
  */
 
 import type {
+  CartSummaryData,
   Product,
   DiscountBreakdown,
   PricingResult,
+  ShippingMethod,
+  ShippingOption,
+  ShippingParcel,
+  ShippingRequest,
   ShippingResult,
+  ShippingZone,
+  CategoryTaxClasses,
+  TaxableLine,
+  TaxClass,
   TaxResult,
-  PromoCode,
+  PromoCodeLookup,
   PromoResult,
+  StoreSettings,
+  QuantityBreak,
+  QuantityBreakTier,
+  CustomerContext,
+  MemberDiscountRule,
+  ProductVariant,
 } from "@/types";
+import { Money } from "@/lib/money";
+import { formatMoney } from "@/lib/currency";
+import themeSettings from "../../neto-theme-simulator/config/settings.json";
 
 // ============================================
-// Constants (no hardcoded values in logic)
+// Store Settings (no hardcoded values in logic)
 // ============================================
 
-const BULK_DISCOUNT_THRESHOLD = 3;
-const BULK_DISCOUNT_PERCENTAGE = 10;
-const MEMBER_DISCOUNT_PERCENTAGE = 5;
-const FREE_SHIPPING_THRESHOLD = 1000;
-const STANDARD_SHIPPING_COST = 15;
+/**
+ * Fallback pricing rules, shared with the Liquid theme's settings.json.
+ * Used when the `store_settings` table can't be read.
+ */
+export const DEFAULT_STORE_SETTINGS: StoreSettings = themeSettings.pricing;
+
+/**
+ * Pricing context for shoppers who aren't signed in.
+ */
+export const GUEST_CUSTOMER: CustomerContext = {
+  isAuthenticated: false,
+  group: null,
+  groupPrices: [],
+};
 
 // ============================================
 // Core Pricing Functions
@@ -57,120 +98,470 @@ const STANDARD_SHIPPING_COST = 15;
  * Calculate the final price for a product considering all applicable discounts.
  *
  * Simulates Neto's Liquid-style conditional pricing:
+ * - Starts from the base price plus the variant's price modifier, if any
  * - First applies product-level discount (like Neto's sale price)
  * - Then applies bulk discount (quantity-based tier pricing)
- * - Then applies member discount (authenticated user benefits)
+ * - Then applies member discount (customer group pricing)
+ *
+ * Each discount is rounded to the cent as it is taken, so the final price
+ * is exactly the original price less the listed discounts.
  *
  * @param product - The product being priced
  * @param quantity - Number of units being purchased
- * @param isAuthenticated - Whether the user is logged in
+ * @param customer - Who is buying (guest or customer group)
+ * @param settings - Store pricing rules
+ * @param quantityBreaks - Quantity break rows (may include other products')
+ * @param variant - The selected variant, for products sold by variant
  * @returns PricingResult with full discount breakdown
  */
 export function calculateProductPrice(
   product: Product,
   quantity: number,
-  isAuthenticated: boolean,
+  customer: CustomerContext,
+  settings: StoreSettings,
+  quantityBreaks: QuantityBreak[] = [],
+  variant: ProductVariant | null = null,
 ): PricingResult {
   const discounts: DiscountBreakdown[] = [];
-  const originalPrice = product.price * quantity;
+  const unitPrice = Money.fromDollars(product.price).add(
+    Money.fromDollars(variant?.price_modifier ?? 0),
+  );
+  const originalPrice = unitPrice.times(quantity);
   let currentPrice = originalPrice;
 
   // Rule 1: Product-level discount (equivalent to Neto's "sale_price" tag)
   if (product.discount_percentage && product.discount_percentage > 0) {
-    const discountAmount = currentPrice * (product.discount_percentage / 100);
+    const discountAmount = currentPrice.percentage(product.discount_percentage);
     discounts.push({
       type: "product",
       label: `${product.discount_percentage}% Product Discount`,
       percentage: product.discount_percentage,
-      amount: Math.round(discountAmount * 100) / 100,
+      amount: discountAmount.toDollars(),
     });
-    currentPrice -= discountAmount;
+    currentPrice = currentPrice.subtract(discountAmount);
   }
 
   // Rule 2: Bulk discount (equivalent to Neto's quantity-based pricing tiers)
-  const bulkDiscount = applyBulkDiscount(currentPrice, quantity);
-  if (bulkDiscount > 0) {
+  const tiers = resolveQuantityBreaks(product, quantityBreaks, settings);
+  const tier = findQuantityBreak(quantity, tiers);
+  const bulkDiscount = applyBulkDiscount(currentPrice, quantity, tiers);
+  if (tier && bulkDiscount.isPositive()) {
     discounts.push({
       type: "bulk",
-      label: `${BULK_DISCOUNT_PERCENTAGE}% Bulk Discount (${BULK_DISCOUNT_THRESHOLD}+ items)`,
-      percentage: BULK_DISCOUNT_PERCENTAGE,
-      amount: Math.round(bulkDiscount * 100) / 100,
+      label: `${tier.percentage}% Bulk Discount (${tier.label} items)`,
+      percentage: tier.percentage,
+      amount: bulkDiscount.toDollars(),
+      tier: tier.label,
     });
-    currentPrice -= bulkDiscount;
+    currentPrice = currentPrice.subtract(bulkDiscount);
   }
 
   // Rule 3: Member discount (equivalent to Neto's customer group pricing)
-  const memberDiscount = applyMemberDiscount(currentPrice, isAuthenticated);
-  if (memberDiscount > 0) {
+  const memberRule = getMemberDiscountRule(product, customer, settings);
+  const memberDiscount = applyMemberDiscount(
+    currentPrice,
+    product,
+    customer,
+    settings,
+    quantity,
+    variant,
+  );
+  if (memberRule && memberDiscount.isPositive()) {
     discounts.push({
       type: "member",
-      label: `${MEMBER_DISCOUNT_PERCENTAGE}% Member Discount`,
-      percentage: MEMBER_DISCOUNT_PERCENTAGE,
-      amount: Math.round(memberDiscount * 100) / 100,
+      label: memberRule.label,
+      // A group price is shown as the share of the original price it saves
+      percentage:
+        "percentage" in memberRule
+          ? memberRule.percentage
+          : Math.round((memberDiscount.cents / originalPrice.cents) * 10000) /
+            100,
+      amount: memberDiscount.toDollars(),
     });
-    currentPrice -= memberDiscount;
+    currentPrice = currentPrice.subtract(memberDiscount);
   }
 
-  const finalPrice = Math.round(currentPrice * 100) / 100;
-  const totalDiscount = Math.round((originalPrice - finalPrice) * 100) / 100;
-
   return {
-    originalPrice: Math.round(originalPrice * 100) / 100,
-    finalPrice,
+    originalPrice: originalPrice.toDollars(),
+    finalPrice: currentPrice.toDollars(),
     discounts,
-    totalDiscount,
+    totalDiscount: originalPrice.subtract(currentPrice).toDollars(),
   };
 }
 
+/**
+ * Resolve the quantity break tiers that apply to a product.
+ * Simulates Neto's quantity break pricing, where breaks can be set per
+ * product or inherited from the category.
+ *
+ * Product-specific breaks win; otherwise the product's category breaks
+ * are used; otherwise the global bulk rule from settings becomes a single
+ * tier. Returns no tiers when bulk discounts are disabled.
+ *
+ * @param product - The product being priced
+ * @param quantityBreaks - Quantity break rows (may include other products')
+ * @param settings - Store pricing rules
+ * @returns Tiers sorted by ascending minimum quantity
+ */
+export function resolveQuantityBreaks(
+  product: Product,
+  quantityBreaks: QuantityBreak[],
+  settings: StoreSettings,
+): QuantityBreakTier[] {
+  if (!settings.bulk_discount_enabled) return [];
+
+  const productBreaks = quantityBreaks.filter(
+    (qb) => qb.product_id === product.id,
+  );
+  const breaks =
+    productBreaks.length > 0
+      ? productBreaks
+      : quantityBreaks.filter(
+          (qb) => qb.product_id === null && qb.category === product.category,
+        );
+
+  const rules =
+    breaks.length > 0
+      ? breaks.map((qb) => ({
+          minQuantity: qb.min_quantity,
+          percentage: qb.discount_percentage,
+        }))
+      : [
+          {
+            minQuantity: settings.bulk_discount_threshold,
+            percentage: settings.bulk_discount_percentage,
+          },
+        ];
+
+  const sorted = [...rules].sort((a, b) => a.minQuantity - b.minQuantity);
+
+  return sorted.map((rule, index) => {
+    const next = sorted[index + 1];
+    const maxQuantity = next ? next.minQuantity - 1 : null;
+    return {
+      ...rule,
+      maxQuantity,
+      label:
+        maxQuantity === null
+          ? `${rule.minQuantity}+`
+          : maxQuantity === rule.minQuantity
+            ? `${rule.minQuantity}`
+            : `${rule.minQuantity}–${maxQuantity}`,
+    };
+  });
+}
+
+/**
+ * Pick the best quantity break for a quantity: the highest discount among
+ * the tiers whose minimum quantity has been reached.
+ *
+ * @param quantity - Number of items
+ * @param tiers - Tiers from resolveQuantityBreaks()
+ * @returns The matching tier, or null if no tier applies
+ */
+export function findQuantityBreak(
+  quantity: number,
+  tiers: QuantityBreakTier[],
+): QuantityBreakTier | null {
+  let best: QuantityBreakTier | null = null;
+  for (const tier of tiers) {
+    if (
+      quantity >= tier.minQuantity &&
+      (!best || tier.percentage > best.percentage)
+    ) {
+      best = tier;
+    }
+  }
+  return best;
+}
+
 /**
  * Apply bulk discount based on quantity.
  * Simulates Neto's quantity break pricing rules.
  *
  * @param subtotal - Current subtotal after previous discounts
  * @param quantity - Number of items
- * @returns The discount amount to subtract
+ * @param tiers - Tiers from resolveQuantityBreaks()
+ * @returns The discount amount to subtract, rounded half-up to the cent
  */
-export function applyBulkDiscount(subtotal: number, quantity: number): number {
-  if (quantity >= BULK_DISCOUNT_THRESHOLD) {
-    return subtotal * (BULK_DISCOUNT_PERCENTAGE / 100);
+export function applyBulkDiscount(
+  subtotal: Money,
+  quantity: number,
+  tiers: QuantityBreakTier[],
+): Money {
+  const tier = findQuantityBreak(quantity, tiers);
+  if (tier) {
+    return subtotal.percentage(tier.percentage, "half-up");
   }
-  return 0;
+  return Money.zero;
 }
 
 /**
- * Apply member discount for authenticated users.
+ * Work out which member discount a customer gets on a product.
  * Simulates Neto's customer group pricing logic.
  *
+ * An explicit group price for the product wins and sets the unit price
+ * (see applyMemberDiscount). Otherwise the group's discount percentage
+ * applies. Signed-in customers without a group get the store's default
+ * member discount.
+ *
+ * @param product - The product being priced
+ * @param customer - Who is buying (guest or customer group)
+ * @param settings - Store pricing rules
+ * @returns The rule's label and percentage or unit price, or null if none
+ *   applies
+ */
+export function getMemberDiscountRule(
+  product: Product,
+  customer: CustomerContext,
+  settings: StoreSettings,
+): MemberDiscountRule | null {
+  if (!settings.member_discount_enabled || !customer.isAuthenticated) {
+    return null;
+  }
+
+  const { group } = customer;
+
+  if (!group) {
+    return settings.member_discount_percentage > 0
+      ? {
+          label: `${settings.member_discount_percentage}% Member Discount`,
+          percentage: settings.member_discount_percentage,
+        }
+      : null;
+  }
+
+  const groupPrice = customer.groupPrices.find(
+    (gp) => gp.product_id === product.id && gp.customer_group === group.id,
+  );
+  if (groupPrice && groupPrice.price < product.price) {
+    return { label: `${group.name} Price`, unitPrice: groupPrice.price };
+  }
+
+  if (group.discount_percentage > 0) {
+    return {
+      label: `${group.discount_percentage}% ${group.name} Discount`,
+      percentage: group.discount_percentage,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Apply member discount for the customer's group.
+ *
+ * A group price sets the line to that unit price (plus the variant's price
+ * modifier) rather than stacking on the product and bulk discounts, so a
+ * $100 product on a 10% sale with an $80 group price costs $80. If those
+ * discounts already took the line lower, nothing more comes off.
+ *
  * @param subtotal - Current subtotal after previous discounts
- * @param isAuthenticated - Whether user is logged in
- * @returns The discount amount to subtract
+ * @param product - The product being priced
+ * @param customer - Who is buying (guest or customer group)
+ * @param settings - Store pricing rules
+ * @param quantity - Number of units on the line
+ * @param variant - The selected variant, for products sold by variant
+ * @returns The discount amount to subtract, rounded half-up to the cent
  */
 export function applyMemberDiscount(
-  subtotal: number,
-  isAuthenticated: boolean,
-): number {
-  if (isAuthenticated) {
-    return subtotal * (MEMBER_DISCOUNT_PERCENTAGE / 100);
+  subtotal: Money,
+  product: Product,
+  customer: CustomerContext,
+  settings: StoreSettings,
+  quantity = 1,
+  variant: ProductVariant | null = null,
+): Money {
+  const rule = getMemberDiscountRule(product, customer, settings);
+  if (!rule) return Money.zero;
+
+  if ("unitPrice" in rule) {
+    const groupTotal = Money.fromDollars(rule.unitPrice)
+      .add(Money.fromDollars(variant?.price_modifier ?? 0))
+      .max(Money.zero)
+      .times(quantity);
+    return subtotal.greaterThan(groupTotal)
+      ? subtotal.subtract(groupTotal)
+      : Money.zero;
   }
-  return 0;
+
+  return subtotal.percentage(rule.percentage, "half-up");
+}
+
+// ============================================
+// Shipping
+// (Maps to Neto's shipping zones and rate tables)
+// ============================================
+
+export const SHIPPING_METHOD_LABELS: Record<ShippingMethod, string> = {
+  standard: "Standard Shipping",
+  express: "Express Shipping",
+  pickup: "Store Pickup",
+};
+
+const SHIPPING_METHODS = Object.keys(
+  SHIPPING_METHOD_LABELS,
+) as ShippingMethod[];
+
+function qualifiesForFreeShipping(
+  total: number,
+  settings: StoreSettings,
+): boolean {
+  return (
+    settings.free_shipping_enabled &&
+    Money.fromDollars(total).greaterThan(
+      Money.fromDollars(settings.free_shipping_threshold),
+    )
+  );
+}
+
+/**
+ * Total weight and item count of the cart's lines, for rate tables.
+ */
+export function getShippingParcel(
+  items: Array<{ product: Product; quantity: number }>,
+): ShippingParcel {
+  return items.reduce(
+    (parcel, item) => ({
+      weight: parcel.weight + (item.product.weight_kg ?? 0) * item.quantity,
+      itemCount: parcel.itemCount + item.quantity,
+    }),
+    { weight: 0, itemCount: 0 },
+  );
 }
 
 /**
- * Calculate shipping cost based on order total.
- * Simulates Neto's conditional shipping rules.
+ * Find the zone that covers a destination. A zone whose postcode range
+ * contains the postcode wins over the country-wide zone; overlapping
+ * ranges go by `sort_order`.
+ */
+export function findShippingZone(
+  zones: ShippingZone[],
+  destination: ShippingRequest["destination"],
+): ShippingZone | null {
+  const postcode = parseInt(destination.postcode, 10);
+
+  const matches = zones.filter(
+    (zone) =>
+      zone.country === destination.country &&
+      (zone.postcode_from === null ||
+        (postcode >= zone.postcode_from && postcode <= zone.postcode_to!)),
+  );
+
+  matches.sort(
+    (a, b) =>
+      Number(a.postcode_from === null) - Number(b.postcode_from === null) ||
+      a.sort_order - b.sort_order,
+  );
+
+  return matches[0] ?? null;
+}
+
+/**
+ * Every service level a zone offers for a parcel. A level is offered when
+ * one of its rate brackets covers the parcel's weight (or item count).
+ * Standard shipping is free above the store's free shipping threshold.
  *
  * In Liquid: {% if cart.total > 1000 %}Free Shipping{% endif %}
+ */
+export function getShippingOptions(
+  zone: ShippingZone,
+  parcel: ShippingParcel,
+  total: number,
+  settings: StoreSettings,
+): ShippingOption[] {
+  const qualifiesForFree = qualifiesForFreeShipping(total, settings);
+
+  return SHIPPING_METHODS.flatMap((method) => {
+    const rate = zone.shipping_rates.find((candidate) => {
+      if (candidate.method !== method) return false;
+      const value =
+        candidate.basis === "weight" ? parcel.weight : parcel.itemCount;
+      return (
+        value >= candidate.min_value &&
+        (candidate.max_value === null || value < candidate.max_value)
+      );
+    });
+    if (!rate) return [];
+
+    const isFreeShipping = method === "standard" && qualifiesForFree;
+    return [
+      {
+        method,
+        label: SHIPPING_METHOD_LABELS[method],
+        cost: isFreeShipping ? 0 : Money.fromDollars(rate.cost).toDollars(),
+        isFreeShipping,
+        estimatedDays: rate.estimated_days,
+      },
+    ];
+  });
+}
+
+/**
+ * Calculate shipping for an order.
+ *
+ * With a destination, the options come from its zone's rate tables
+ * (see getShippingOptions) and the requested method is chosen, falling
+ * back to standard, then to whatever the zone offers. A destination no
+ * zone covers gets no options and `method: null`.
+ *
+ * Without one (e.g. the cart page, before an address is known) the
+ * result is the store's flat standard rate, as an estimate.
  *
  * @param total - The cart total after discounts
- * @returns ShippingResult with cost and free shipping flag
+ * @param settings - Store pricing rules
+ * @param request - Destination, zones and preferred method, if known
+ * @param parcel - The cart's weight and item count (see getShippingParcel)
+ * @returns ShippingResult with the chosen option and all available ones
  */
-export function calculateShipping(total: number): ShippingResult {
-  const isFreeShipping = total > FREE_SHIPPING_THRESHOLD;
+export function calculateShipping(
+  total: number,
+  settings: StoreSettings,
+  request?: ShippingRequest,
+  parcel: ShippingParcel = { weight: 0, itemCount: 0 },
+): ShippingResult {
+  const freeShippingThreshold = settings.free_shipping_enabled
+    ? settings.free_shipping_threshold
+    : null;
+
+  if (!request) {
+    const isFreeShipping = qualifiesForFreeShipping(total, settings);
+    const cost = isFreeShipping
+      ? 0
+      : Money.fromDollars(settings.standard_shipping_cost).toDollars();
+
+    return {
+      cost,
+      isFreeShipping,
+      freeShippingThreshold,
+      method: "standard",
+      zone: null,
+      options: [
+        {
+          method: "standard",
+          label: SHIPPING_METHOD_LABELS.standard,
+          cost,
+          isFreeShipping,
+          estimatedDays: null,
+        },
+      ],
+    };
+  }
+
+  const zone = findShippingZone(request.zones, request.destination);
+  const options = zone ? getShippingOptions(zone, parcel, total, settings) : [];
+  const chosen =
+    options.find((option) => option.method === request.method) ??
+    options.find((option) => option.method === "standard") ??
+    options[0];
 
   return {
-    cost: isFreeShipping ? 0 : STANDARD_SHIPPING_COST,
-    isFreeShipping,
-    freeShippingThreshold: FREE_SHIPPING_THRESHOLD,
+    cost: chosen?.cost ?? 0,
+    isFreeShipping: chosen?.isFreeShipping ?? false,
+    freeShippingThreshold,
+    method: chosen?.method ?? null,
+    zone: zone?.name ?? null,
+    options,
   };
 }
 
@@ -179,27 +570,99 @@ export function calculateShipping(total: number): ShippingResult {
 // (Maps to Neto's GST/tax configuration)
 // ============================================
 
-const DEFAULT_TAX_RATE = 10; // 10% GST (Australian standard)
+export const TAX_CLASS_LABELS: Record<TaxClass, string> = {
+  standard: "GST",
+  gst_free: "GST-free",
+};
+
+/**
+ * Resolve a product's tax class: its own class wins, then its category's,
+ * otherwise the standard rate.
+ */
+export function getTaxClass(
+  product: Product,
+  categoryTaxClasses: CategoryTaxClasses = {},
+): TaxClass {
+  return (
+    product.tax_class ?? categoryTaxClasses[product.category] ?? "standard"
+  );
+}
 
 /**
- * Calculate tax on the given amount.
+ * Turn priced cart lines into taxable lines.
+ * A promo discount applies to the whole order, so it is allocated across
+ * the lines by their price (see Money.allocate); the shares add up to
+ * exactly the discount, so the lines add up to exactly what the customer
+ * pays.
+ */
+export function getTaxableLines(
+  items: Array<{
+    product: Product;
+    variant?: ProductVariant | null;
+    pricing: PricingResult;
+  }>,
+  categoryTaxClasses: CategoryTaxClasses = {},
+  promoDiscount = 0,
+): TaxableLine[] {
+  const amounts = items.map((item) =>
+    Money.fromDollars(item.pricing.finalPrice),
+  );
+  const promoShares = Money.fromDollars(promoDiscount).allocate(
+    amounts.map((amount) => amount.cents),
+  );
+
+  return items.map((item, index) => ({
+    id: item.variant?.id ?? item.product.id,
+    amount: amounts[index].subtract(promoShares[index]).toDollars(),
+    taxClass: getTaxClass(item.product, categoryTaxClasses),
+  }));
+}
+
+/**
+ * Calculate tax line by line.
  * Simulates Neto's GST calculation which is configurable per-store.
  *
+ * Standard-class lines are taxed at the store's rate and GST-free lines
+ * at 0%. When prices exclude tax (`tax_inclusive: false`) the tax is added
+ * on top; when they include it, the GST already in each line is extracted
+ * (amount × rate / (100 + rate), i.e. 1/11th at 10%) and nothing is added
+ * to the total. Each line's tax is rounded half-up to the cent, and the
+ * order's tax is the sum of the lines.
+ *
  * In Neto, tax is typically applied after discounts but before shipping.
  *
- * @param amount - The amount to calculate tax on
- * @param taxRate - Tax rate as a percentage (default: 10% GST)
- * @returns TaxResult with rate, amount, and label
+ * @param lines - Taxable lines, from getTaxableLines
+ * @param settings - The store's tax rate and whether prices include it
+ * @returns TaxResult with the rate, total and per-line tax
  */
 export function calculateTax(
-  amount: number,
-  taxRate: number = DEFAULT_TAX_RATE,
+  lines: TaxableLine[],
+  settings: Pick<
+    StoreSettings,
+    "tax_rate" | "tax_inclusive"
+  > = DEFAULT_STORE_SETTINGS,
 ): TaxResult {
-  const taxAmount = Math.round(amount * (taxRate / 100) * 100) / 100;
+  const { tax_rate: taxRate, tax_inclusive: inclusive } = settings;
+
+  const taxes = lines.map((line) => {
+    const rate = line.taxClass === "gst_free" ? 0 : taxRate;
+    const amount = Money.fromDollars(line.amount);
+    const tax = inclusive
+      ? amount.times(rate / (100 + rate), "half-up")
+      : amount.percentage(rate, "half-up");
+    return { line, rate, tax };
+  });
+
   return {
     rate: taxRate,
-    amount: taxAmount,
-    label: `GST (${taxRate}%)`,
+    amount: Money.sum(taxes.map(({ tax }) => tax)).toDollars(),
+    label: inclusive ? `Includes GST (${taxRate}%)` : `GST (${taxRate}%)`,
+    inclusive,
+    lines: taxes.map(({ line, rate, tax }) => ({
+      ...line,
+      rate,
+      tax: tax.toDollars(),
+    })),
   };
 }
 
@@ -208,55 +671,28 @@ export function calculateTax(
 // (Maps to Neto's coupon/discount code engine)
 // ============================================
 
-/**
- * Built-in demo promo codes.
- * In production, these would come from the database.
- * In Neto, this is managed via Marketing → Discount Coupons.
- */
-const PROMO_CODES: PromoCode[] = [
-  {
-    code: "SAVE10",
-    discount_type: "percentage",
-    discount_value: 10,
-    min_order_amount: 50,
-    max_uses: null,
-    current_uses: 0,
-    active: true,
-    expires_at: null,
-  },
-  {
-    code: "FLAT20",
-    discount_type: "fixed",
-    discount_value: 20,
-    min_order_amount: 100,
-    max_uses: 100,
-    current_uses: 12,
-    active: true,
-    expires_at: null,
-  },
-  {
-    code: "WELCOME15",
-    discount_type: "percentage",
-    discount_value: 15,
-    min_order_amount: null,
-    max_uses: 1,
-    current_uses: 0,
-    active: true,
-    expires_at: null,
-  },
-];
-
 /**
  * Validate and apply a promo code.
  * Simulates Neto's coupon validation logic.
  *
- * @param code - The promo code string
+ * Promo codes live in the `promo_codes` table (managed from
+ * /admin/promo-codes, like Neto's Marketing → Discount Coupons);
+ * the caller looks the code up and passes the result in, which keeps
+ * this rule evaluation pure and usable on both server and client.
+ *
+ * @param lookup - The stored promo code (if any) and the customer's prior uses
  * @param orderTotal - Current order total before promo
+ * @param currency - The store's currency, for amounts in error messages
  * @returns PromoResult with validation status and discount amount
  */
-export function applyPromoCode(code: string, orderTotal: number): PromoResult {
-  const normalized = code.trim().toUpperCase();
-  const promo = PROMO_CODES.find((p) => p.code === normalized);
+export function applyPromoCode(
+  lookup: PromoCodeLookup,
+  orderTotal: number,
+  currency: string = DEFAULT_STORE_SETTINGS.currency,
+): PromoResult {
+  const normalized = lookup.code.trim().toUpperCase();
+  const promo = lookup.promo;
+  const total = Money.fromDollars(orderTotal);
 
   if (!promo) {
     return {
@@ -294,31 +730,40 @@ export function applyPromoCode(code: string, orderTotal: number): PromoResult {
     };
   }
 
-  if (promo.min_order_amount !== null && orderTotal < promo.min_order_amount) {
+  if (
+    promo.max_uses_per_customer !== null &&
+    lookup.customerUses >= promo.max_uses_per_customer
+  ) {
     return {
       valid: false,
       code: normalized,
       discount_amount: 0,
-      error: `Minimum order of $${promo.min_order_amount.toFixed(2)} required`,
+      error: "You have already used this promo code",
     };
   }
 
-  let discount_amount: number;
-  if (promo.discount_type === "percentage") {
-    discount_amount =
-      Math.round(orderTotal * (promo.discount_value / 100) * 100) / 100;
-  } else {
-    discount_amount = Math.min(promo.discount_value, orderTotal);
+  if (
+    promo.min_order_amount !== null &&
+    total.lessThan(Money.fromDollars(promo.min_order_amount))
+  ) {
+    return {
+      valid: false,
+      code: normalized,
+      discount_amount: 0,
+      error: `Minimum order of ${formatMoney(promo.min_order_amount, currency)} required`,
+    };
   }
 
-  return { valid: true, code: normalized, discount_amount };
-}
+  const discount =
+    promo.discount_type === "percentage"
+      ? total.percentage(promo.discount_value, "half-up")
+      : Money.fromDollars(promo.discount_value).min(total);
 
-/**
- * Get list of available promo codes (for demo display).
- */
-export function getAvailablePromoCodes(): PromoCode[] {
-  return PROMO_CODES.filter((p) => p.active);
+  return {
+    valid: true,
+    code: normalized,
+    discount_amount: discount.toDollars(),
+  };
 }
 
 // ============================================
@@ -328,26 +773,46 @@ export function getAvailablePromoCodes(): PromoCode[] {
 /**
  * Calculate complete cart summary including all items, discounts, tax, and shipping.
  *
- * @param items - Array of cart items with product data
- * @param isAuthenticated - Whether user is logged in
- * @param promoCode - Optional promo code to apply
- * @returns Complete cart summary with full pricing breakdown
+ * @param items - Array of cart items with product (and variant) data
+ * @param customer - Who is buying (guest or customer group)
+ * @param settings - Store pricing rules
+ * @param quantityBreaks - Quantity break rows for the cart's products
+ * @param promo - Optional looked-up promo code to apply
+ * @param shippingRequest - Destination and method; omit for the flat-rate estimate
+ * @param categoryTaxClasses - Tax class per category (standard when absent)
+ * @returns Complete cart summary with full pricing breakdown; each item is
+ *   the given line with its `pricing` added
  */
-export function calculateCartSummary(
-  items: Array<{ product: Product; quantity: number }>,
-  isAuthenticated: boolean,
-  promoCode?: string,
-) {
-  let subtotal = 0;
+export function calculateCartSummary<
+  T extends {
+    product: Product;
+    quantity: number;
+    variant?: ProductVariant | null;
+  },
+>(
+  items: T[],
+  customer: CustomerContext,
+  settings: StoreSettings,
+  quantityBreaks: QuantityBreak[],
+  promo?: PromoCodeLookup,
+  shippingRequest?: ShippingRequest,
+  categoryTaxClasses: CategoryTaxClasses = {},
+): Omit<CartSummaryData, "items"> & {
+  items: Array<T & { pricing: PricingResult }>;
+} {
+  let subtotal = Money.zero;
   const allDiscounts: DiscountBreakdown[] = [];
 
   const itemPricings = items.map((item) => {
     const pricing = calculateProductPrice(
       item.product,
       item.quantity,
-      isAuthenticated,
+      customer,
+      settings,
+      quantityBreaks,
+      item.variant ?? null,
     );
-    subtotal += pricing.originalPrice;
+    subtotal = subtotal.add(Money.fromDollars(pricing.originalPrice));
     allDiscounts.push(...pricing.discounts);
     return {
       ...item,
@@ -355,15 +820,20 @@ export function calculateCartSummary(
     };
   });
 
-  let totalAfterDiscounts = itemPricings.reduce(
-    (sum, item) => sum + item.pricing.finalPrice,
-    0,
+  let totalAfterDiscounts = Money.sum(
+    itemPricings.map((item) => Money.fromDollars(item.pricing.finalPrice)),
   );
 
+  const lineDiscount = subtotal.subtract(totalAfterDiscounts);
+
   // Apply promo code if provided
-  let promoResult: PromoResult | undefined;
-  if (promoCode) {
-    promoResult = applyPromoCode(promoCode, totalAfterDiscounts);
+  let promoResult: PromoResult | null = null;
+  if (promo) {
+    promoResult = applyPromoCode(
+      promo,
+      totalAfterDiscounts.toDollars(),
+      settings.currency,
+    );
     if (promoResult.valid) {
       allDiscounts.push({
         type: "promo",
@@ -371,29 +841,47 @@ export function calculateCartSummary(
         percentage: 0,
         amount: promoResult.discount_amount,
       });
-      totalAfterDiscounts -= promoResult.discount_amount;
+      totalAfterDiscounts = totalAfterDiscounts.subtract(
+        Money.fromDollars(promoResult.discount_amount),
+      );
     }
   }
 
   // Calculate tax (after all discounts)
-  const tax = calculateTax(totalAfterDiscounts);
+  const tax = calculateTax(
+    getTaxableLines(
+      itemPricings,
+      categoryTaxClasses,
+      promoResult?.valid ? promoResult.discount_amount : 0,
+    ),
+    settings,
+  );
 
   // Calculate shipping
-  const shipping = calculateShipping(totalAfterDiscounts);
+  const shipping = calculateShipping(
+    totalAfterDiscounts.toDollars(),
+    settings,
+    shippingRequest,
+    getShippingParcel(items),
+  );
 
-  const total =
-    Math.round((totalAfterDiscounts + tax.amount + shipping.cost) * 100) / 100;
+  // Tax-inclusive prices already contain the GST
+  const total = totalAfterDiscounts
+    .add(tax.inclusive ? Money.zero : Money.fromDollars(tax.amount))
+    .add(Money.fromDollars(shipping.cost));
 
   return {
     items: itemPricings,
-    subtotal: Math.round(subtotal * 100) / 100,
-    totalAfterDiscounts: Math.round(totalAfterDiscounts * 100) / 100,
-    totalDiscount: Math.round((subtotal - totalAfterDiscounts) * 100) / 100,
+    subtotal: subtotal.toDollars(),
+    totalAfterDiscounts: totalAfterDiscounts.toDollars(),
+    lineDiscount: lineDiscount.toDollars(),
+    promoDiscount: promoResult?.valid ? promoResult.discount_amount : 0,
+    totalDiscount: subtotal.subtract(totalAfterDiscounts).toDollars(),
     discounts: allDiscounts,
     tax,
     shipping,
     promoResult,
-    total,
+    total: total.toDollars(),
     itemCount: items.reduce((sum, item) => sum + item.quantity, 0),
   };
 }
@@ -0,0 +1,52 @@
+import { validate } from "@/lib/validation";
+import { productQuerySchema } from "@/lib/schemas";
+import type { ProductFilters } from "@/types";
+
+/** The listing filters kept in the URL, in the order they're written */
+const QUERY_KEYS = [
+  "category",
+  "search",
+  "min_price",
+  "max_price",
+  "in_stock",
+  "on_sale",
+  "min_discount",
+  "sort",
+  "page",
+] as const satisfies readonly (keyof ProductFilters)[];
+
+/**
+ * Listing filters from a page's search params, so filtered views can be
+ * shared and rendered on the server. Unlike the API, a page drops the
+ * params it can't read rather than failing.
+ */
+export function parseProductQuery(
+  searchParams: Record<string, string | string[] | undefined>,
+): ProductFilters {
+  const params: Record<string, string> = {};
+  for (const [key, value] of Object.entries(searchParams)) {
+    if (typeof value === "string") params[key] = value;
+  }
+
+  const result = validate(productQuerySchema, params);
+  if (result.valid) return result.data;
+
+  for (const key of Object.keys(result.errors)) delete params[key];
+  const retry = validate(productQuerySchema, params);
+  return retry.valid ? retry.data : {};
+}
+
+/**
+ * The query string for a listing with these filters, e.g. for pagination
+ * links. Unset filters and page 1 are left out.
+ */
+export function productQueryString(filters: ProductFilters): string {
+  const params = new URLSearchParams();
+  for (const key of QUERY_KEYS) {
+    const value = filters[key];
+    if (value === undefined || value === false || value === "") continue;
+    if (key === "page" && value === 1) continue;
+    params.set(key, String(value));
+  }
+  return params.toString();
+}
@@ -0,0 +1,208 @@
+import { Money } from "@/lib/money";
+import { getOrderDiscountBreakdown } from "@/lib/orders";
+import type { OrderWithItems, RefundLine, RefundWithItems } from "@/types";
+
+/**
+ * Thrown when a refund can't be made as requested (unknown lines, more
+ * units than are left to refund, nothing to refund).
+ */
+export class RefundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RefundError";
+  }
+}
+
+/**
+ * A refund ready to be written by `cancel_order` / `create_refund`.
+ */
+export interface RefundCalculation {
+  items: { order_item_id: string; quantity: number; amount: number }[];
+  items_amount: number;
+  tax_amount: number;
+  shipping_amount: number;
+  total: number;
+}
+
+/**
+ * What the customer actually paid for each order line: its `line_total`
+ * (already net of the line's `discount_amount`) less its share of the
+ * promo code discount, allocated across lines by line total the same way
+ * as at checkout (see getTaxableLines).
+ */
+function getPaidLineAmounts(order: OrderWithItems): Map<string, Money> {
+  const { promoDiscount } = getOrderDiscountBreakdown(order);
+  const lineTotals = order.order_items.map((item) =>
+    Money.fromDollars(item.line_total),
+  );
+  const promoShares = Money.fromDollars(promoDiscount).allocate(
+    lineTotals.map((total) => total.cents),
+  );
+
+  return new Map(
+    order.order_items.map((item, index) => [
+      item.id,
+      lineTotals[index].subtract(promoShares[index]),
+    ]),
+  );
+}
+
+/**
+ * Units and amounts already refunded per order line.
+ */
+export function getRefundedByItem(
+  refunds: RefundWithItems[],
+): Map<string, { quantity: number; amount: number }> {
+  const refunded = new Map<string, { quantity: number; amount: number }>();
+
+  for (const item of refunds.flatMap((refund) => refund.refund_items)) {
+    const current = refunded.get(item.order_item_id) ?? {
+      quantity: 0,
+      amount: 0,
+    };
+    refunded.set(item.order_item_id, {
+      quantity: current.quantity + item.quantity,
+      amount: Money.fromDollars(current.amount)
+        .add(Money.fromDollars(item.amount))
+        .toDollars(),
+    });
+  }
+
+  return refunded;
+}
+
+/**
+ * Every unit of the order that hasn't been refunded yet.
+ */
+export function getRemainingRefundLines(
+  order: OrderWithItems,
+  previousRefunds: RefundWithItems[] = [],
+): RefundLine[] {
+  const refunded = getRefundedByItem(previousRefunds);
+
+  return order.order_items
+    .map((item) => ({
+      order_item_id: item.id,
+      quantity: item.quantity - (refunded.get(item.id)?.quantity ?? 0),
+    }))
+    .filter((line) => line.quantity > 0);
+}
+
+/**
+ * Calculate a refund for some units of an order.
+ *
+ * Each line is refunded pro rata from what was paid for it (see
+ * getPaidLineAmounts), along with the same share of the line's GST
+ * (orders placed before per-line tax was recorded refund tax in
+ * proportion to the items). On tax-inclusive orders the GST is part of
+ * the line amounts, so it is reported but not added to the total.
+ * Shipping is only refunded when asked for, and only once. When a line's
+ * last units are refunded they get whatever is left of what was paid for
+ * it, so rounding never makes the refunds add up to more (or less) than
+ * the order. Amounts are worked in whole cents and rounded half-up.
+ *
+ * @throws RefundError when a line isn't on the order, more units are
+ *   requested than remain, or there's nothing to refund
+ */
+export function calculateRefund(
+  order: OrderWithItems,
+  lines: RefundLine[],
+  options: {
+    includeShipping?: boolean;
+    previousRefunds?: RefundWithItems[];
+  } = {},
+): RefundCalculation {
+  const previousRefunds = options.previousRefunds ?? [];
+  const refunded = getRefundedByItem(previousRefunds);
+  const paid = getPaidLineAmounts(order);
+  const requested = new Map<string, number>();
+
+  for (const line of lines) {
+    requested.set(
+      line.order_item_id,
+      (requested.get(line.order_item_id) ?? 0) + line.quantity,
+    );
+  }
+
+  const items = [...requested].map(([orderItemId, quantity]) => {
+    const orderItem = order.order_items.find((item) => item.id === orderItemId);
+    if (!orderItem) {
+      throw new RefundError(`Order item ${orderItemId} is not on this order`);
+    }
+
+    const already = refunded.get(orderItemId) ?? { quantity: 0, amount: 0 };
+    const remaining = orderItem.quantity - already.quantity;
+    if (quantity > remaining) {
+      throw new RefundError(
+        `Only ${remaining} of ${orderItem.product_name} left to refund`,
+      );
+    }
+
+    const linePaid = paid.get(orderItemId) ?? Money.zero;
+    const amount =
+      quantity === remaining
+        ? linePaid.subtract(Money.fromDollars(already.amount))
+        : linePaid.times(quantity / orderItem.quantity, "half-up");
+
+    return {
+      order_item_id: orderItemId,
+      quantity,
+      amount: amount.max(Money.zero),
+    };
+  });
+
+  const itemsAmount = Money.sum(items.map((item) => item.amount));
+
+  const previousTax = Money.sum(
+    previousRefunds.map((refund) => Money.fromDollars(refund.tax_amount)),
+  );
+  const refundsEverything = order.order_items.every(
+    (item) =>
+      (refunded.get(item.id)?.quantity ?? 0) + (requested.get(item.id) ?? 0) ===
+      item.quantity,
+  );
+  const paidTotal = Money.sum([...paid.values()]);
+  const orderTax = Money.fromDollars(order.tax_amount);
+  const hasLineTax = order.order_items.some((item) => item.tax_amount > 0);
+  const taxAmount = refundsEverything
+    ? orderTax.subtract(previousTax)
+    : hasLineTax
+      ? Money.sum(
+          [...requested].map(([orderItemId, quantity]) => {
+            const orderItem = order.order_items.find(
+              (item) => item.id === orderItemId,
+            )!;
+            return Money.fromDollars(orderItem.tax_amount).times(
+              quantity / orderItem.quantity,
+              "half-up",
+            );
+          }),
+        )
+      : paidTotal.isPositive()
+        ? orderTax.times(itemsAmount.cents / paidTotal.cents, "half-up")
+        : Money.zero;
+  const refundTax = taxAmount.max(Money.zero);
+
+  const shippingRefunded = previousRefunds.some(
+    (refund) => refund.shipping_amount > 0,
+  );
+  const shippingAmount =
+    options.includeShipping && !shippingRefunded
+      ? Money.fromDollars(order.shipping_cost)
+      : Money.zero;
+
+  if (items.length === 0 && shippingAmount.isZero()) {
+    throw new RefundError("Nothing to refund");
+  }
+
+  return {
+    items: items.map((item) => ({ ...item, amount: item.amount.toDollars() })),
+    items_amount: itemsAmount.toDollars(),
+    tax_amount: refundTax.toDollars(),
+    shipping_amount: shippingAmount.toDollars(),
+    total: itemsAmount
+      .add(order.tax_inclusive ? Money.zero : refundTax)
+      .add(shippingAmount)
+      .toDollars(),
+  };
+}
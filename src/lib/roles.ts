@@ -0,0 +1,30 @@
+import type { UserRole } from "@/types";
+
+/**
+ * Roles allowed into the admin panel at all.
+ */
+export const ADMIN_ROLES: UserRole[] = ["admin", "staff"];
+
+/**
+ * Admin sections restricted further than ADMIN_ROLES.
+ * Checked by prefix, so sub-pages inherit their section's roles.
+ */
+const ADMIN_SECTION_ROLES: Array<{ prefix: string; roles: UserRole[] }> = [
+  { prefix: "/admin/promo-codes", roles: ["admin"] },
+  { prefix: "/admin/exchange-rates", roles: ["admin"] },
+];
+
+/**
+ * Roles allowed to view an /admin path.
+ * Pure so it can run in middleware as well as on the server.
+ */
+export function getAdminPathRoles(pathname: string): UserRole[] {
+  const section = ADMIN_SECTION_ROLES.find(
+    ({ prefix }) => pathname === prefix || pathname.startsWith(`${prefix}/`),
+  );
+  return section?.roles ?? ADMIN_ROLES;
+}
+
+export function hasRole(role: UserRole | null, allowed: UserRole[]): boolean {
+  return role !== null && allowed.includes(role);
+}
@@ -0,0 +1,277 @@
+import { validateAddress } from "@/lib/addresses";
+import { isCurrencyCode } from "@/lib/currency";
+import { ORDER_STATUSES } from "@/lib/order-status";
+import {
+  array,
+  boolean,
+  dateTime,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  partial,
+  string,
+  withDefault,
+  type Shape,
+  type Validator,
+} from "@/lib/validation";
+import type {
+  AddressInput,
+  AdminOrderFilters,
+  CartAddInput,
+  CartRemoveInput,
+  CartSummaryInput,
+  CartUpdateInput,
+  ExchangeRateDeleteInput,
+  ExchangeRateInput,
+  OrderCancelInput,
+  OrderInput,
+  OrderStatusUpdateInput,
+  ProductFilters,
+  ProductFormData,
+  PromoCodeFormData,
+  PromoLookupInput,
+  RefundInput,
+  SearchSuggestQuery,
+  ShippingCountry,
+  ShippingMethod,
+  TaxClass,
+} from "@/types";
+
+/**
+ * Request schemas for the API routes, one per body or query string.
+ */
+
+const TAX_CLASSES: readonly TaxClass[] = ["standard", "gst_free"];
+const SHIPPING_COUNTRIES: readonly ShippingCountry[] = ["AU", "NZ"];
+const SHIPPING_METHODS: readonly ShippingMethod[] = [
+  "standard",
+  "express",
+  "pickup",
+];
+
+// ============================================
+// Products
+// ============================================
+
+/**
+ * URL-safe slug from a product name, e.g. "Red Mug (Large)" → "red-mug-large".
+ */
+export function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+const productShape: Shape<ProductFormData> = {
+  name: string({ max: 200 }),
+  slug: string({
+    max: 200,
+    pattern: /^[a-z0-9]+(?:-[a-z0-9]+)*$/,
+    message: "Use lowercase letters, numbers and hyphens",
+  }),
+  description: string({ max: 5000 }),
+  price: number({ min: 0 }),
+  discount_percentage: nullable(number({ min: 0, max: 100 })),
+  stock: number({ min: 0, integer: true }),
+  category: withDefault(string({ max: 100 }), "uncategorized"),
+  image_url: withDefault(string({ min: 0, max: 2000 }), ""),
+  weight_kg: withDefault(number({ min: 0 }), 0),
+  tax_class: nullable(
+    oneOf(TAX_CLASSES, "Must be GST, GST-free or the category's default"),
+  ),
+};
+
+/**
+ * A new product. Fill in `slug` from the name before validating when it's
+ * left blank.
+ */
+export const productSchema = object(productShape);
+
+/**
+ * Changes to a product: only the fields sent are checked and updated.
+ */
+export const productUpdateSchema = partial(productShape);
+
+/**
+ * Query string for GET /api/products and /api/products/facets, and the
+ * listing pages' URLs.
+ */
+export const productQuerySchema = object<ProductFilters>({
+  category: optional(string({ max: 100 })),
+  search: optional(string({ max: 200 })),
+  min_price: optional(number({ min: 0 })),
+  max_price: optional(number({ min: 0 })),
+  in_stock: optional(boolean()),
+  on_sale: optional(boolean()),
+  min_discount: optional(number({ min: 0, max: 100 })),
+  sort: optional(
+    oneOf([
+      "relevance",
+      "price_asc",
+      "price_desc",
+      "newest",
+      "name_asc",
+    ] as const),
+  ),
+  page: withDefault(number({ min: 1, integer: true }), 1),
+  limit: withDefault(number({ min: 1, max: 50, integer: true }), 12),
+});
+
+/**
+ * Query string for GET /api/search/suggest. An empty query is allowed (the
+ * shopper's recent searches are still suggested).
+ */
+export const searchSuggestQuerySchema = object<SearchSuggestQuery>({
+  q: withDefault(string({ min: 0, max: 100 }), ""),
+  limit: withDefault(number({ min: 1, max: 10, integer: true }), 5),
+});
+
+// ============================================
+// Promo codes
+// ============================================
+
+const promoCodeShape: Shape<PromoCodeFormData> = {
+  code: string({ max: 50 }),
+  discount_type: oneOf(
+    ["percentage", "fixed"] as const,
+    "Must be percentage or fixed",
+  ),
+  discount_value: number({ min: 0 }),
+  min_order_amount: nullable(number({ min: 0 })),
+  max_uses: nullable(number({ min: 1, integer: true })),
+  max_uses_per_customer: nullable(number({ min: 1, integer: true })),
+  active: withDefault(boolean(), true),
+  expires_at: nullable(dateTime()),
+};
+
+export const promoCodeSchema = object(promoCodeShape);
+
+export const promoCodeUpdateSchema = partial(promoCodeShape);
+
+/**
+ * Body for POST /api/promo-codes/validate.
+ */
+export const promoLookupSchema = object<PromoLookupInput>({
+  code: string({ max: 50 }),
+});
+
+// ============================================
+// Cart
+// ============================================
+
+export const cartAddSchema = object<CartAddInput>({
+  product_id: string(),
+  quantity: withDefault(number({ min: 1, integer: true }), 1),
+  variant_id: nullable(string()),
+});
+
+export const cartUpdateSchema = object<CartUpdateInput>({
+  item_id: string(),
+  quantity: number({ min: 0, integer: true }),
+});
+
+export const cartRemoveSchema = object<CartRemoveInput>({
+  item_id: string(),
+});
+
+export const cartSummarySchema = object<CartSummaryInput>({
+  promo_code: optional(string({ max: 50 })),
+  destination: optional(
+    object({
+      country: oneOf(SHIPPING_COUNTRIES, "Must be AU or NZ"),
+      postcode: string({ pattern: /^\d{4}$/, message: "Must be 4 digits" }),
+    }),
+  ),
+  shipping_method: optional(
+    oneOf(SHIPPING_METHODS, "Must be standard, express or pickup"),
+  ),
+});
+
+// ============================================
+// Orders
+// ============================================
+
+/**
+ * An address, checked against the rules for its country by
+ * validateAddress (errors keyed by field, e.g. "postcode").
+ */
+const address: Validator<AddressInput> = (value) => {
+  const result = validateAddress(value);
+  return result.valid
+    ? { ok: true, value: result.address }
+    : { ok: false, errors: result.errors };
+};
+
+export const orderSchema = object<OrderInput>({
+  shipping_address: address,
+  billing_address: nullable(address),
+  shipping_method: optional(
+    oneOf(SHIPPING_METHODS, "Must be standard, express or pickup"),
+  ),
+  promo_code: optional(string({ max: 50 })),
+  payment_method: optional(string({ max: 100 })),
+});
+
+export const orderCancelSchema = object<OrderCancelInput>({
+  reason: optional(string({ max: 500 })),
+});
+
+export const orderStatusUpdateSchema = object<OrderStatusUpdateInput>({
+  status: oneOf(ORDER_STATUSES, "Must be a valid order status"),
+  note: optional(string({ max: 500 })),
+});
+
+export const refundSchema = object<RefundInput>({
+  items: optional(
+    array(
+      object({
+        order_item_id: string(),
+        quantity: number({ min: 1, integer: true }),
+      }),
+      { min: 1 },
+    ),
+  ),
+  include_shipping: withDefault(boolean(), false),
+  reason: optional(string({ max: 500 })),
+});
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Query string for GET /api/admin/orders. Dates are `YYYY-MM-DD`.
+ */
+export const adminOrderQuerySchema = object<AdminOrderFilters>({
+  status: optional(oneOf(ORDER_STATUSES, "Must be a valid order status")),
+  from: optional(string({ pattern: DATE_PATTERN, message: "Use YYYY-MM-DD" })),
+  to: optional(string({ pattern: DATE_PATTERN, message: "Use YYYY-MM-DD" })),
+  customer: optional(string({ max: 200 })),
+});
+
+// ============================================
+// Exchange rates
+// ============================================
+
+/**
+ * An ISO 4217 currency code, upper-cased.
+ */
+const currencyCode: Validator<string> = (value) => {
+  const checked = string({ max: 3 })(value);
+  if (!checked.ok) return checked;
+
+  const code = checked.value.toUpperCase();
+  return isCurrencyCode(code)
+    ? { ok: true, value: code }
+    : { ok: false, errors: { "": "Must be a 3-letter ISO 4217 code" } };
+};
+
+export const exchangeRateSchema = object<ExchangeRateInput>({
+  currency: currencyCode,
+  rate: number({ min: 0.000001 }), // Units per 1 base currency unit
+});
+
+export const exchangeRateDeleteSchema = object<ExchangeRateDeleteInput>({
+  currency: currencyCode,
+});
@@ -0,0 +1,89 @@
+/**
+ * Markers around matched words in search highlights, as produced by the
+ * `search_products` database function (Unicode private-use characters, so
+ * they can't clash with product text and nothing is rendered as HTML).
+ */
+export const HIGHLIGHT_START = "\uE000";
+export const HIGHLIGHT_END = "\uE001";
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Split highlighted text into plain and matched runs, e.g.
+ * "Wireless Headphones" → ["Wireless ", "Headphones" (matched)].
+ * Text without markers comes back as a single plain segment.
+ */
+export function splitHighlights(text: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let highlighted = false;
+  let current = "";
+
+  for (const char of text) {
+    if (char === HIGHLIGHT_START || char === HIGHLIGHT_END) {
+      if (current) segments.push({ text: current, highlighted });
+      current = "";
+      highlighted = char === HIGHLIGHT_START;
+    } else {
+      current += char;
+    }
+  }
+  if (current) segments.push({ text: current, highlighted });
+
+  return segments;
+}
+
+/**
+ * The shopper's recent searches, newest first, kept in a cookie so the
+ * suggest endpoint can offer them back.
+ */
+export const RECENT_SEARCHES_COOKIE = "neto-recent-searches";
+export const MAX_RECENT_SEARCHES = 5;
+
+/**
+ * Read the recent searches cookie, as read on the server (already decoded)
+ * or from document.cookie (still URI-encoded). Anything unreadable counts
+ * as none.
+ */
+export function parseRecentSearches(value: string | undefined): string[] {
+  if (!value) return [];
+  try {
+    const json = value.startsWith("[") ? value : decodeURIComponent(value);
+    const parsed: unknown = JSON.parse(json);
+    return Array.isArray(parsed)
+      ? parsed
+          .filter((item): item is string => typeof item === "string")
+          .slice(0, MAX_RECENT_SEARCHES)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Put a search at the front of the recent searches, dropping any earlier
+ * copy of it (ignoring case) and the oldest beyond the limit.
+ */
+export function addRecentSearch(recent: string[], query: string): string[] {
+  const search = query.trim();
+  if (!search) return recent;
+  return [
+    search,
+    ...recent.filter((item) => item.toLowerCase() !== search.toLowerCase()),
+  ].slice(0, MAX_RECENT_SEARCHES);
+}
+
+/**
+ * Record a search in the recent searches cookie (browser only).
+ */
+export function rememberSearch(query: string): void {
+  const prefix = `${RECENT_SEARCHES_COOKIE}=`;
+  const current = document.cookie
+    .split("; ")
+    .find((cookie) => cookie.startsWith(prefix))
+    ?.slice(prefix.length);
+  const recent = addRecentSearch(parseRecentSearches(current), query);
+  document.cookie = `${prefix}${encodeURIComponent(JSON.stringify(recent))}; path=/; max-age=31536000; samesite=lax`;
+}
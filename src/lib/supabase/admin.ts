@@ -0,0 +1,19 @@
+import { createClient } from "@supabase/supabase-js";
+
+/**
+ * Service-role client for server-only work that has no user session
+ * behind it (payment webhooks, payment status updates). It bypasses RLS,
+ * so never use it for reads or writes a user asked for directly.
+ */
+export function createSupabaseAdminClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!url || !key) {
+    throw new Error("SUPABASE_SERVICE_ROLE_KEY is not configured");
+  }
+
+  return createClient(url, key, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
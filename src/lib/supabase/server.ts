@@ -1,7 +1,13 @@
 import { createServerClient } from "@supabase/ssr";
 import { cookies } from "next/headers";
 
-export async function createSupabaseServerClient() {
+/**
+ * Pass `guestCartId` (already verified, see lib/guest-cart.ts) to act on a
+ * guest cart; RLS reads it from the x-guest-cart-id request header.
+ */
+export async function createSupabaseServerClient(
+  options: { guestCartId?: string } = {},
+) {
   const cookieStore = await cookies();
 
   const url =
@@ -9,6 +15,9 @@ export async function createSupabaseServerClient() {
   const key = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || "placeholder-key";
 
   return createServerClient(url, key, {
+    global: options.guestCartId
+      ? { headers: { "x-guest-cart-id": options.guestCartId } }
+      : undefined,
     cookies: {
       getAll() {
         return cookieStore.getAll();
@@ -0,0 +1,293 @@
+/**
+ * Request validation.
+ *
+ * A Validator checks one value from a request body or query string and
+ * returns it cleaned up (trimmed, numeric strings turned into numbers) or
+ * an error message. `object` builds a validator for a whole body from one
+ * validator per field, typed against the shape it produces, and only ever
+ * returns the fields it knows about — anything else in the body is dropped.
+ *
+ * API routes answer a failed validation with 422 VALIDATION_FAILED and
+ * the per-field messages (see validationError in api-response).
+ */
+
+/**
+ * Error messages by field; nested fields are joined with dots, e.g.
+ * "destination.postcode" or "items.0.quantity".
+ */
+export type FieldErrors = Record<string, string>;
+
+export type ValidationResult<T> =
+  { valid: true; data: T } | { valid: false; errors: FieldErrors };
+
+type Checked<T> = { ok: true; value: T } | { ok: false; errors: FieldErrors };
+
+export type Validator<T> = (value: unknown) => Checked<T>;
+
+/**
+ * One validator per field of T.
+ */
+export type Shape<T> = { [K in keyof T]-?: Validator<T[K]> };
+
+function pass<T>(value: T): Checked<T> {
+  return { ok: true, value };
+}
+
+function fail(message: string): Checked<never> {
+  return { ok: false, errors: { "": message } };
+}
+
+/**
+ * Whether a value is a JSON object (not null, an array or a primitive) —
+ * check a request body with this before reading its fields.
+ */
+export function isPlainObject(
+  value: unknown,
+): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isBlank(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === "string" && value.trim() === "")
+  );
+}
+
+function prefixErrors(prefix: string, errors: FieldErrors): FieldErrors {
+  return Object.fromEntries(
+    Object.entries(errors).map(([field, message]) => [
+      field ? `${prefix}.${field}` : prefix,
+      message,
+    ]),
+  );
+}
+
+// ============================================
+// Values
+// ============================================
+
+/**
+ * A string, trimmed. Blank strings fail unless `min` is 0.
+ */
+export function string(
+  options: {
+    min?: number;
+    max?: number;
+    pattern?: RegExp;
+    message?: string;
+  } = {},
+): Validator<string> {
+  const { min = 1, max, pattern, message } = options;
+
+  return (value) => {
+    if (value === undefined || value === null) {
+      return fail(message ?? "Required");
+    }
+    if (typeof value !== "string") return fail("Must be text");
+
+    const trimmed = value.trim();
+    if (trimmed.length < min) {
+      return fail(
+        message ??
+          (min === 1 ? "Required" : `Must be at least ${min} characters`),
+      );
+    }
+    if (max !== undefined && trimmed.length > max) {
+      return fail(`Must be at most ${max} characters`);
+    }
+    if (pattern && !pattern.test(trimmed)) {
+      return fail(message ?? "Isn't in the right format");
+    }
+    return pass(trimmed);
+  };
+}
+
+/**
+ * A number. Numeric strings are accepted too, as sent by query strings
+ * and form fields.
+ */
+export function number(
+  options: {
+    min?: number;
+    max?: number;
+    integer?: boolean;
+    message?: string;
+  } = {},
+): Validator<number> {
+  const { min, max, integer = false, message } = options;
+
+  return (value) => {
+    if (isBlank(value)) return fail(message ?? "Required");
+
+    const parsed = typeof value === "string" ? Number(value.trim()) : value;
+    if (typeof parsed !== "number" || !Number.isFinite(parsed)) {
+      return fail(message ?? "Must be a number");
+    }
+    if (integer && !Number.isInteger(parsed)) {
+      return fail(message ?? "Must be a whole number");
+    }
+    if (min !== undefined && parsed < min) {
+      return fail(message ?? `Must be at least ${min}`);
+    }
+    if (max !== undefined && parsed > max) {
+      return fail(message ?? `Must be at most ${max}`);
+    }
+    return pass(parsed);
+  };
+}
+
+/**
+ * A boolean; "true" and "false" are accepted for query strings.
+ */
+export function boolean(): Validator<boolean> {
+  return (value) => {
+    if (typeof value === "boolean") return pass(value);
+    if (value === "true" || value === "false") return pass(value === "true");
+    return fail("Must be true or false");
+  };
+}
+
+/**
+ * One of a fixed set of strings, e.g. an enum column.
+ */
+export function oneOf<T extends string>(
+  values: readonly T[],
+  message?: string,
+): Validator<T> {
+  return (value) =>
+    typeof value === "string" && (values as readonly string[]).includes(value)
+      ? pass(value as T)
+      : fail(message ?? `Must be one of: ${values.join(", ")}`);
+}
+
+/**
+ * A date/time string, normalized to ISO 8601.
+ */
+export function dateTime(message = "Must be a date"): Validator<string> {
+  return (value) => {
+    if (typeof value !== "string" || isBlank(value)) return fail(message);
+    const date = new Date(value);
+    return Number.isNaN(date.getTime())
+      ? fail(message)
+      : pass(date.toISOString());
+  };
+}
+
+// ============================================
+// Optional values
+// ============================================
+
+/**
+ * Leave the value out (undefined) when it's missing or blank.
+ */
+export function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+  return (value) => (isBlank(value) ? pass(undefined) : validator(value));
+}
+
+/**
+ * Treat a missing, null or blank value as null, e.g. "no limit".
+ */
+export function nullable<T>(validator: Validator<T>): Validator<T | null> {
+  return (value) => (isBlank(value) ? pass(null) : validator(value));
+}
+
+/**
+ * Use `fallback` when the value is missing or blank.
+ */
+export function withDefault<T>(
+  validator: Validator<T>,
+  fallback: T,
+): Validator<T> {
+  return (value) => (isBlank(value) ? pass(fallback) : validator(value));
+}
+
+// ============================================
+// Lists and objects
+// ============================================
+
+export function array<T>(
+  item: Validator<T>,
+  options: { min?: number; message?: string } = {},
+): Validator<T[]> {
+  const { min = 0, message } = options;
+
+  return (value) => {
+    if (!Array.isArray(value)) return fail(message ?? "Must be a list");
+    if (value.length < min) {
+      return fail(message ?? `Must have at least ${min} item(s)`);
+    }
+
+    const items: T[] = [];
+    let errors: FieldErrors = {};
+    value.forEach((entry, index) => {
+      const checked = item(entry);
+      if (checked.ok) {
+        items.push(checked.value);
+      } else {
+        errors = { ...errors, ...prefixErrors(String(index), checked.errors) };
+      }
+    });
+
+    return Object.keys(errors).length > 0 ? { ok: false, errors } : pass(items);
+  };
+}
+
+function checkFields<T>(
+  shape: Shape<T>,
+  value: unknown,
+  partial: boolean,
+): Checked<T> {
+  if (!isPlainObject(value)) {
+    return fail("Must be an object");
+  }
+
+  const input = value;
+  const data: Partial<T> = {};
+  let errors: FieldErrors = {};
+
+  for (const key of Object.keys(shape) as (keyof T & string)[]) {
+    if (partial && !(key in input)) continue;
+
+    const checked = shape[key](input[key]);
+    if (checked.ok) {
+      if (checked.value !== undefined) data[key] = checked.value;
+    } else {
+      errors = { ...errors, ...prefixErrors(key, checked.errors) };
+    }
+  }
+
+  return Object.keys(errors).length > 0
+    ? { ok: false, errors }
+    : pass(data as T);
+}
+
+/**
+ * An object with the fields in `shape`. Fields not in the shape are
+ * dropped, so a body can't set columns the route doesn't expect.
+ */
+export function object<T>(shape: Shape<T>): Validator<T> {
+  return (value) => checkFields(shape, value, false);
+}
+
+/**
+ * Like `object`, for updates: only the fields present in the body are
+ * checked and returned.
+ */
+export function partial<T>(shape: Shape<T>): Validator<Partial<T>> {
+  return (value) => checkFields(shape, value, true);
+}
+
+/**
+ * Run a validator over a request body or query string.
+ */
+export function validate<T>(
+  validator: Validator<T>,
+  input: unknown,
+): ValidationResult<T> {
+  const checked = validator(input);
+  return checked.ok
+    ? { valid: true, data: checked.value }
+    : { valid: false, errors: checked.errors };
+}
@@ -0,0 +1,42 @@
+import type { ProductVariant, VariantOption } from "@/types";
+
+/**
+ * Collect the option groups (e.g. Size, Color) offered by a product's
+ * variants, preserving the order values first appear in.
+ */
+export function getVariantOptions(variants: ProductVariant[]): VariantOption[] {
+  const options = new Map<string, string[]>();
+
+  for (const variant of variants) {
+    for (const [name, value] of Object.entries(variant.options)) {
+      const values = options.get(name) ?? [];
+      if (!values.includes(value)) values.push(value);
+      options.set(name, values);
+    }
+  }
+
+  return [...options.entries()].map(([name, values]) => ({ name, values }));
+}
+
+/**
+ * Find the variant matching every selected option, if there is one.
+ */
+export function findVariant(
+  variants: ProductVariant[],
+  selected: Record<string, string>,
+): ProductVariant | null {
+  return (
+    variants.find((variant) =>
+      Object.entries(variant.options).every(
+        ([name, value]) => selected[name] === value,
+      ),
+    ) ?? null
+  );
+}
+
+/**
+ * Format variant options for display, e.g. "15 inch / Black".
+ */
+export function formatVariantOptions(options: Record<string, string>): string {
+  return Object.values(options).join(" / ");
+}
@@ -1,7 +1,33 @@
 import { createServerClient } from "@supabase/ssr";
 import { NextResponse, type NextRequest } from "next/server";
+import { ADMIN_ROLES, getAdminPathRoles, hasRole } from "@/lib/roles";
+import type { UserRole } from "@/types";
+
+const REQUEST_ID_HEADER = "x-request-id";
+
+/**
+ * Keep a caller's request id (e.g. from a load balancer) when it looks
+ * like one, otherwise start a new one.
+ */
+function getRequestId(request: NextRequest): string {
+  const incoming = request.headers.get(REQUEST_ID_HEADER);
+  return incoming && /^[\w-]{1,128}$/.test(incoming)
+    ? incoming
+    : crypto.randomUUID();
+}
 
 export async function middleware(request: NextRequest) {
+  // Every request carries an id, passed on to route handlers and echoed
+  // in the response so errors can be traced
+  const requestId = getRequestId(request);
+  request.headers.set(REQUEST_ID_HEADER, requestId);
+
+  const response = await handle(request);
+  response.headers.set(REQUEST_ID_HEADER, requestId);
+  return response;
+}
+
+async function handle(request: NextRequest): Promise<NextResponse> {
   let response = NextResponse.next({
     request: { headers: request.headers },
   });
@@ -34,13 +60,35 @@ export async function middleware(request: NextRequest) {
     data: { user },
   } = await supabase.auth.getUser();
 
-  // Protect /admin routes — redirect to login if not authenticated
-  if (!user && request.nextUrl.pathname.startsWith("/admin")) {
+  // Protect /admin and /account routes — redirect to login if not authenticated
+  if (
+    !user &&
+    (request.nextUrl.pathname.startsWith("/admin") ||
+      request.nextUrl.pathname.startsWith("/account"))
+  ) {
     const loginUrl = new URL("/login", request.url);
     loginUrl.searchParams.set("redirect", request.nextUrl.pathname);
     return NextResponse.redirect(loginUrl);
   }
 
+  // Signed-in users also need an admin role for the section they're opening
+  if (user && request.nextUrl.pathname.startsWith("/admin")) {
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("role")
+      .eq("id", user.id)
+      .maybeSingle();
+
+    const role = (profile?.role as UserRole | undefined) ?? "customer";
+    const allowed = getAdminPathRoles(request.nextUrl.pathname);
+
+    if (!hasRole(role, allowed)) {
+      // Staff land back on the catalog; everyone else goes to the store
+      const fallback = hasRole(role, ADMIN_ROLES) ? "/admin/products" : "/";
+      return NextResponse.redirect(new URL(fallback, request.url));
+    }
+  }
+
   return response;
 }
 
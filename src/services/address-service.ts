@@ -0,0 +1,148 @@
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import type { Address, AddressInput } from "@/types";
+
+/**
+ * Thrown when an address doesn't exist or belongs to someone else.
+ */
+export class AddressNotFoundError extends Error {
+  constructor(message = "Address not found") {
+    super(message);
+    this.name = "AddressNotFoundError";
+  }
+}
+
+/**
+ * Only one address per user can be the default, so clear the current one
+ * before another is marked.
+ */
+async function clearDefaultAddress(userId: string): Promise<void> {
+  const supabase = await createSupabaseServerClient();
+
+  const { error } = await supabase
+    .from("addresses")
+    .update({ is_default: false })
+    .eq("user_id", userId)
+    .eq("is_default", true);
+
+  if (error) {
+    throw new Error(`Failed to update addresses: ${error.message}`);
+  }
+}
+
+/**
+ * Fetch a user's saved addresses, default first.
+ */
+export async function getAddresses(userId: string): Promise<Address[]> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from("addresses")
+    .select("*")
+    .eq("user_id", userId)
+    .order("is_default", { ascending: false })
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch addresses: ${error.message}`);
+  }
+
+  return (data as Address[]) || [];
+}
+
+/**
+ * Save an address (already checked with validateAddress) to a user's
+ * address book. A user's first address becomes their default.
+ */
+export async function createAddress(
+  userId: string,
+  input: AddressInput,
+  isDefault = false,
+): Promise<Address> {
+  const supabase = await createSupabaseServerClient();
+
+  const { count, error: countError } = await supabase
+    .from("addresses")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId);
+
+  if (countError) {
+    throw new Error(`Failed to fetch addresses: ${countError.message}`);
+  }
+
+  const makeDefault = isDefault || !count;
+  if (makeDefault) await clearDefaultAddress(userId);
+
+  const { data, error } = await supabase
+    .from("addresses")
+    .insert({ ...input, user_id: userId, is_default: makeDefault })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save address: ${error.message}`);
+  }
+
+  return data as Address;
+}
+
+/**
+ * Replace a saved address, optionally making it the default.
+ *
+ * @throws AddressNotFoundError when the user has no such address
+ */
+export async function updateAddress(
+  id: string,
+  userId: string,
+  input: AddressInput,
+  isDefault?: boolean,
+): Promise<Address> {
+  const supabase = await createSupabaseServerClient();
+
+  if (isDefault) await clearDefaultAddress(userId);
+
+  const { data, error } = await supabase
+    .from("addresses")
+    .update({
+      ...input,
+      ...(isDefault !== undefined && { is_default: isDefault }),
+    })
+    .eq("id", id)
+    .eq("user_id", userId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update address: ${error.message}`);
+  }
+
+  if (!data) {
+    throw new AddressNotFoundError();
+  }
+
+  return data as Address;
+}
+
+/**
+ * Remove a saved address. Orders keep their own copy, so past orders
+ * are unaffected.
+ *
+ * @throws AddressNotFoundError when the user has no such address
+ */
+export async function deleteAddress(id: string, userId: string): Promise<void> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from("addresses")
+    .delete()
+    .eq("id", id)
+    .eq("user_id", userId)
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to delete address: ${error.message}`);
+  }
+
+  if (!data || data.length === 0) {
+    throw new AddressNotFoundError();
+  }
+}
@@ -1,18 +1,54 @@
 import { createSupabaseServerClient } from "@/lib/supabase/server";
-import type { CartItemWithProduct } from "@/types";
+import { calculateCartSummary } from "@/lib/pricing-engine";
+import { lookupPromoCode } from "@/services/promo-service";
+import {
+  getCategoryTaxClasses,
+  getStoreSettings,
+} from "@/services/settings-service";
+import { getQuantityBreaks, PRODUCT_COLUMNS } from "@/services/product-service";
+import { getCustomerContext } from "@/services/customer-service";
+import { getShippingZones } from "@/services/shipping-service";
+import type {
+  CartItemWithProduct,
+  CartMergeResult,
+  CartOwner,
+  CartSummaryData,
+  ShippingDestination,
+  ShippingMethod,
+} from "@/types";
 
 /**
- * Get all cart items for a user, joined with product data.
+ * Supabase client for a cart owner. Guest carts need the guest cart id
+ * sent along so RLS lets the request see that cart's rows.
+ */
+function createCartClient(owner: CartOwner) {
+  return createSupabaseServerClient(
+    "guestCartId" in owner ? { guestCartId: owner.guestCartId } : {},
+  );
+}
+
+/**
+ * The cart_items column and value that identify an owner's rows.
+ */
+function ownerColumn(owner: CartOwner): ["user_id" | "guest_cart_id", string] {
+  return "userId" in owner
+    ? ["user_id", owner.userId]
+    : ["guest_cart_id", owner.guestCartId];
+}
+
+/**
+ * Get all cart items for a user or guest cart, joined with product and
+ * variant data.
  */
 export async function getCartItems(
-  userId: string,
+  owner: CartOwner,
 ): Promise<CartItemWithProduct[]> {
-  const supabase = await createSupabaseServerClient();
+  const supabase = await createCartClient(owner);
 
   const { data, error } = await supabase
     .from("cart_items")
-    .select("*, products(*)")
-    .eq("user_id", userId)
+    .select(`*, products(${PRODUCT_COLUMNS}), product_variants(*)`)
+    .eq(...ownerColumn(owner))
     .order("created_at", { ascending: true });
 
   if (error) {
@@ -23,22 +59,30 @@ export async function getCartItems(
 }
 
 /**
- * Add a product to the cart (or increase quantity if already exists).
+ * Add a product (or one of its variants) to the cart, or increase the
+ * quantity if that line already exists.
  */
 export async function addToCart(
-  userId: string,
+  owner: CartOwner,
   productId: string,
   quantity: number = 1,
+  variantId: string | null = null,
 ): Promise<void> {
-  const supabase = await createSupabaseServerClient();
+  const supabase = await createCartClient(owner);
+  const [column, ownerId] = ownerColumn(owner);
 
   // Check if item already exists in cart
-  const { data: existing } = await supabase
+  let existingQuery = supabase
     .from("cart_items")
     .select("id, quantity")
-    .eq("user_id", userId)
-    .eq("product_id", productId)
-    .single();
+    .eq(column, ownerId)
+    .eq("product_id", productId);
+
+  existingQuery = variantId
+    ? existingQuery.eq("variant_id", variantId)
+    : existingQuery.is("variant_id", null);
+
+  const { data: existing } = await existingQuery.single();
 
   if (existing) {
     // Update quantity
@@ -53,8 +97,9 @@ export async function addToCart(
   } else {
     // Insert new item
     const { error } = await supabase.from("cart_items").insert({
-      user_id: userId,
+      [column]: ownerId,
       product_id: productId,
+      variant_id: variantId,
       quantity,
     });
 
@@ -69,13 +114,13 @@ export async function addToCart(
  */
 export async function updateCartItem(
   itemId: string,
-  userId: string,
+  owner: CartOwner,
   quantity: number,
 ): Promise<void> {
-  const supabase = await createSupabaseServerClient();
+  const supabase = await createCartClient(owner);
 
   if (quantity <= 0) {
-    await removeCartItem(itemId, userId);
+    await removeCartItem(itemId, owner);
     return;
   }
 
@@ -83,7 +128,7 @@ export async function updateCartItem(
     .from("cart_items")
     .update({ quantity })
     .eq("id", itemId)
-    .eq("user_id", userId);
+    .eq(...ownerColumn(owner));
 
   if (error) {
     throw new Error(`Failed to update cart item: ${error.message}`);
@@ -95,15 +140,15 @@ export async function updateCartItem(
  */
 export async function removeCartItem(
   itemId: string,
-  userId: string,
+  owner: CartOwner,
 ): Promise<void> {
-  const supabase = await createSupabaseServerClient();
+  const supabase = await createCartClient(owner);
 
   const { error } = await supabase
     .from("cart_items")
     .delete()
     .eq("id", itemId)
-    .eq("user_id", userId);
+    .eq(...ownerColumn(owner));
 
   if (error) {
     throw new Error(`Failed to remove cart item: ${error.message}`);
@@ -111,15 +156,84 @@ export async function removeCartItem(
 }
 
 /**
- * Get cart item count for a user.
+ * Remove every item from a cart (e.g. after an order is placed).
+ */
+export async function clearCart(owner: CartOwner): Promise<void> {
+  const supabase = await createCartClient(owner);
+
+  const { error } = await supabase
+    .from("cart_items")
+    .delete()
+    .eq(...ownerColumn(owner));
+
+  if (error) {
+    throw new Error(`Failed to clear cart: ${error.message}`);
+  }
+}
+
+/**
+ * Move a guest cart's lines into a user's cart, then empty the guest cart.
+ *
+ * Lines already in the user's cart have the guest quantity added, capped
+ * at the stock available for the product (or variant); guest lines with
+ * no stock left are dropped. Quantities already in the user's cart are
+ * never reduced.
  */
-export async function getCartCount(userId: string): Promise<number> {
-  const supabase = await createSupabaseServerClient();
+export async function mergeGuestCart(
+  guestCartId: string,
+  userId: string,
+): Promise<CartMergeResult> {
+  const guest: CartOwner = { guestCartId };
+  const account: CartOwner = { userId };
+
+  const [guestItems, accountItems] = await Promise.all([
+    getCartItems(guest),
+    getCartItems(account),
+  ]);
+
+  const result: CartMergeResult = { merged: 0, limited: [] };
+
+  for (const item of guestItems) {
+    const stock = (item.product_variants ?? item.products).stock;
+    const existing = accountItems.find(
+      (line) =>
+        line.product_id === item.product_id &&
+        line.variant_id === item.variant_id,
+    );
+    const current = existing?.quantity ?? 0;
+    const quantity = Math.max(
+      current,
+      Math.min(current + item.quantity, stock),
+    );
+
+    if (quantity < current + item.quantity) {
+      result.limited.push(item.variant_id ?? item.product_id);
+    }
+    if (quantity === current) continue;
+
+    if (existing) {
+      await updateCartItem(existing.id, account, quantity);
+    } else {
+      await addToCart(account, item.product_id, quantity, item.variant_id);
+    }
+    result.merged++;
+  }
+
+  await clearCart(guest);
+
+  return result;
+}
+
+/**
+ * Get cart item count for a user or guest cart.
+ */
+export async function getCartCount(owner: CartOwner): Promise<number> {
+  const supabase = await createCartClient(owner);
 
   const { count, error } = await supabase
     .from("cart_items")
     .select("*", { count: "exact", head: true })
-    .eq("user_id", userId);
+    .eq(...ownerColumn(owner));
 
   if (error) {
     return 0;
@@ -127,3 +241,60 @@ export async function getCartCount(userId: string): Promise<number> {
 
   return count || 0;
 }
+
+/**
+ * Price a cart with the pricing engine, exactly as an order placed from it
+ * would be: the owner's customer group (guests pay retail), the store's
+ * settings, quantity breaks and tax classes, and the promo code if one is
+ * given. Shipping is quoted from the destination's zone rates once a
+ * destination is known, otherwise it's the flat-rate estimate.
+ *
+ * An invalid promo code isn't an error here: it's reported in
+ * `promoResult` and left out of the totals. A missing owner (a guest
+ * without a cart yet) gets an empty summary.
+ */
+export async function getCartSummary(
+  owner: CartOwner | null,
+  options: {
+    promoCode?: string;
+    destination?: ShippingDestination;
+    shippingMethod?: ShippingMethod;
+  } = {},
+): Promise<CartSummaryData> {
+  const { promoCode, destination, shippingMethod } = options;
+
+  const [
+    cartItems,
+    promo,
+    settings,
+    quantityBreaks,
+    customer,
+    shippingZones,
+    categoryTaxClasses,
+  ] = await Promise.all([
+    owner ? getCartItems(owner) : [],
+    promoCode ? lookupPromoCode(promoCode) : undefined,
+    getStoreSettings(),
+    getQuantityBreaks(),
+    getCustomerContext(owner && "userId" in owner ? owner.userId : null),
+    destination ? getShippingZones() : [],
+    getCategoryTaxClasses(),
+  ]);
+
+  return calculateCartSummary(
+    cartItems.map((item) => ({
+      id: item.id,
+      product: item.products,
+      variant: item.product_variants,
+      quantity: item.quantity,
+    })),
+    customer,
+    settings,
+    quantityBreaks,
+    promo,
+    destination
+      ? { destination, method: shippingMethod, zones: shippingZones }
+      : undefined,
+    categoryTaxClasses,
+  );
+}
@@ -0,0 +1,58 @@
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import type { ExchangeRate } from "@/types";
+
+/**
+ * Fetch every exchange rate, by currency code.
+ */
+export async function getExchangeRates(): Promise<ExchangeRate[]> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from("exchange_rates")
+    .select("*")
+    .order("currency", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch exchange rates: ${error.message}`);
+  }
+
+  return (data as ExchangeRate[]) || [];
+}
+
+/**
+ * Set the rate for a currency, adding it if it's new.
+ */
+export async function saveExchangeRate(
+  currency: string,
+  rate: number,
+): Promise<ExchangeRate> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from("exchange_rates")
+    .upsert({ currency, rate, updated_at: new Date().toISOString() })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save exchange rate: ${error.message}`);
+  }
+
+  return data as ExchangeRate;
+}
+
+/**
+ * Remove a currency. Shoppers who had picked it see the base currency.
+ */
+export async function deleteExchangeRate(currency: string): Promise<void> {
+  const supabase = await createSupabaseServerClient();
+
+  const { error } = await supabase
+    .from("exchange_rates")
+    .delete()
+    .eq("currency", currency);
+
+  if (error) {
+    throw new Error(`Failed to delete exchange rate: ${error.message}`);
+  }
+}
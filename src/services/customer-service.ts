@@ -0,0 +1,74 @@
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { GUEST_CUSTOMER } from "@/lib/pricing-engine";
+import type {
+  CustomerContext,
+  CustomerGroup,
+  ProductGroupPrice,
+  UserRole,
+} from "@/types";
+
+/**
+ * Build the pricing context for a shopper: their customer group and the
+ * group's explicit product prices. Guests (no user id) get GUEST_CUSTOMER.
+ */
+export async function getCustomerContext(
+  userId: string | null,
+): Promise<CustomerContext> {
+  if (!userId) return GUEST_CUSTOMER;
+
+  const supabase = await createSupabaseServerClient();
+
+  const { data: profile, error } = await supabase
+    .from("profiles")
+    .select("customer_groups(*)")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch customer profile: ${error.message}`);
+  }
+
+  const group =
+    (profile?.customer_groups as unknown as CustomerGroup | null) ?? null;
+
+  if (!group) {
+    return { isAuthenticated: true, group: null, groupPrices: [] };
+  }
+
+  const { data: groupPrices, error: pricesError } = await supabase
+    .from("product_group_prices")
+    .select("*")
+    .eq("customer_group", group.id);
+
+  if (pricesError) {
+    throw new Error(
+      `Failed to fetch customer group prices: ${pricesError.message}`,
+    );
+  }
+
+  return {
+    isAuthenticated: true,
+    group,
+    groupPrices: (groupPrices as ProductGroupPrice[]) || [],
+  };
+}
+
+/**
+ * Get a user's role from their profile.
+ * Users without a profile are treated as customers.
+ */
+export async function getUserRole(userId: string): Promise<UserRole> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch user role: ${error.message}`);
+  }
+
+  return (data?.role as UserRole | undefined) ?? "customer";
+}
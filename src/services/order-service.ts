@@ -0,0 +1,597 @@
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import { getCartSummary, clearCart } from "@/services/cart-service";
+import { PromoCodeError } from "@/services/promo-service";
+import {
+  hasRefundablePayment,
+  payForOrder,
+  PaymentDeclinedError,
+  refundPayment,
+} from "@/services/payment-service";
+import { assertTransition, isRefundable } from "@/lib/order-status";
+import {
+  calculateRefund,
+  getRemainingRefundLines,
+  RefundError,
+} from "@/lib/refunds";
+import type {
+  AddressInput,
+  AdminOrderFilters,
+  OrderStatus,
+  OrderWithHistory,
+  OrderWithItems,
+  RefundLine,
+  ShippingMethod,
+} from "@/types";
+
+const ORDER_DETAIL_SELECT =
+  "*, order_items(*), order_status_history(*), refunds(*, refund_items(*))";
+
+/**
+ * Thrown when an order is requested for a cart with no items.
+ */
+export class EmptyCartError extends Error {
+  constructor() {
+    super("Cart is empty");
+    this.name = "EmptyCartError";
+  }
+}
+
+/**
+ * Thrown when one or more cart lines exceed the stock available at the
+ * moment the order is placed. Lines for variants are reported by variant id.
+ * Nothing is written in that case.
+ */
+export class InsufficientStockError extends Error {
+  constructor(
+    public readonly productIds: string[],
+    public readonly variantIds: string[] = [],
+  ) {
+    super("Insufficient stock for one or more items");
+    this.name = "InsufficientStockError";
+  }
+}
+
+/**
+ * Thrown when no shipping zone covers the destination, or the chosen
+ * service level isn't offered there.
+ */
+export class ShippingUnavailableError extends Error {
+  constructor(message = "We don't ship to this destination") {
+    super(message);
+    this.name = "ShippingUnavailableError";
+  }
+}
+
+/**
+ * Thrown when an order id doesn't match any order the caller can see.
+ */
+export class OrderNotFoundError extends Error {
+  constructor() {
+    super("Order not found");
+    this.name = "OrderNotFoundError";
+  }
+}
+
+/**
+ * Thrown when an order's status changed between being read and being
+ * updated (e.g. two staff members working on the same order).
+ */
+export class OrderStatusConflictError extends Error {
+  constructor(public readonly currentStatus: OrderStatus) {
+    super(`Order status has changed to ${currentStatus}; reload and try again`);
+    this.name = "OrderStatusConflictError";
+  }
+}
+
+/**
+ * Create an order from the user's current cart.
+ *
+ * The cart is re-priced server-side by getCartSummary — the same figures
+ * the cart and checkout pages show — so the persisted totals never depend
+ * on values sent by the client; shipping is quoted from the shipping
+ * address's zone for the chosen service level.
+ * Both addresses are copied onto the order, so later changes to a saved
+ * address don't rewrite it.
+ * The order rows and the stock decrement are written together by the
+ * `place_order` database function, so an order can never oversell and a
+ * promo code's usage count is only incremented when the order succeeds.
+ * That function writes the amounts it's given, so only the service role
+ * may call it — never the customer's own session.
+ *
+ * The order is then paid for through the configured payment provider
+ * (services/payment-service.ts). If the payment fails for any reason the
+ * order is cancelled again — returning its stock and promo code use — and
+ * the payment error is rethrown (PaymentDeclinedError for a decline). On
+ * success the user's cart is cleared.
+ */
+export async function createOrder(
+  userId: string,
+  options: {
+    shippingAddress: AddressInput;
+    billingAddress: AddressInput;
+    shippingMethod?: ShippingMethod;
+    promoCode?: string;
+    paymentMethod?: string;
+  },
+): Promise<OrderWithItems> {
+  const {
+    shippingAddress,
+    billingAddress,
+    shippingMethod,
+    promoCode,
+    paymentMethod,
+  } = options;
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (user?.id !== userId) {
+    throw new Error("Orders can only be placed for the signed-in customer");
+  }
+
+  const summary = await getCartSummary(
+    { userId },
+    {
+      promoCode,
+      destination: {
+        country: shippingAddress.country,
+        postcode: shippingAddress.postcode,
+      },
+      shippingMethod,
+    },
+  );
+
+  if (summary.items.length === 0) {
+    throw new EmptyCartError();
+  }
+
+  if (summary.promoResult && !summary.promoResult.valid) {
+    throw new PromoCodeError(summary.promoResult.error || "Invalid promo code");
+  }
+
+  if (!summary.shipping.method) {
+    throw new ShippingUnavailableError();
+  }
+
+  if (shippingMethod && summary.shipping.method !== shippingMethod) {
+    throw new ShippingUnavailableError(
+      "That shipping option isn't available for this order",
+    );
+  }
+
+  const { data: result, error } = await createSupabaseAdminClient().rpc(
+    "place_order",
+    {
+      p_user_id: userId,
+      p_customer_email: user.email ?? null,
+      p_order: {
+        subtotal: summary.subtotal,
+        discount_total: summary.totalDiscount,
+        tax_amount: summary.tax.amount,
+        tax_inclusive: summary.tax.inclusive,
+        shipping_cost: summary.shipping.cost,
+        shipping_method: summary.shipping.method,
+        total: summary.total,
+        promo_code: summary.promoResult?.code ?? null,
+        shipping_address: shippingAddress,
+        billing_address: billingAddress,
+      },
+      p_items: summary.items.map((item, index) => ({
+        product_id: item.product.id,
+        variant_id: item.variant?.id ?? null,
+        product_name: item.product.name,
+        quantity: item.quantity,
+        unit_price: item.product.price + (item.variant?.price_modifier ?? 0),
+        discount_amount: item.pricing.totalDiscount,
+        line_total: item.pricing.finalPrice,
+        tax_class: summary.tax.lines[index].taxClass,
+        tax_amount: summary.tax.lines[index].tax,
+        variant_options: item.variant?.options ?? null,
+      })),
+    },
+  );
+
+  if (error) {
+    throw new Error(`Failed to create order: ${error.message}`);
+  }
+
+  const placed = result as {
+    order_id?: string;
+    insufficient_stock?: string[];
+    insufficient_variant_stock?: string[];
+    promo_unavailable?: boolean;
+  };
+
+  if (placed.insufficient_stock || placed.insufficient_variant_stock) {
+    throw new InsufficientStockError(
+      placed.insufficient_stock ?? [],
+      placed.insufficient_variant_stock ?? [],
+    );
+  }
+
+  if (placed.promo_unavailable) {
+    // Lost a race for the last redemption since the lookup above
+    throw new PromoCodeError("This promo code is no longer available");
+  }
+
+  const order = await getOrderById(placed.order_id!, userId);
+  if (!order) {
+    throw new Error("Failed to load created order");
+  }
+
+  try {
+    await payForOrder(order, paymentMethod);
+  } catch (paymentError) {
+    // Whatever went wrong, the order mustn't keep holding stock. The
+    // payment error is what the caller needs to see, so a failed cancel
+    // is only logged.
+    const declined = paymentError instanceof PaymentDeclinedError;
+    await cancelOrder(order.id, {
+      userId,
+      note: declined ? "Payment declined" : "Payment failed",
+    }).catch((cancelError) =>
+      console.error(`Failed to cancel unpaid order ${order.id}`, cancelError),
+    );
+    throw paymentError;
+  }
+
+  await clearCart({ userId });
+
+  const paid = await getOrderById(order.id, userId);
+  if (!paid) {
+    throw new Error("Failed to load created order");
+  }
+
+  return paid;
+}
+
+/**
+ * Fetch a user's orders (with their line items), newest first.
+ */
+export async function getOrdersByUser(
+  userId: string,
+): Promise<OrderWithItems[]> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from("orders")
+    .select("*, order_items(*)")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch orders: ${error.message}`);
+  }
+
+  return (data as OrderWithItems[]) || [];
+}
+
+/**
+ * Fetch a single order (with its line items, status history and refunds)
+ * belonging to a user.
+ */
+export async function getOrderById(
+  orderId: string,
+  userId: string,
+): Promise<OrderWithHistory | null> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from("orders")
+    .select(ORDER_DETAIL_SELECT)
+    .eq("id", orderId)
+    .eq("user_id", userId)
+    .order("created_at", { referencedTable: "order_status_history" })
+    .order("created_at", { referencedTable: "refunds" })
+    .single();
+
+  if (error) {
+    if (error.code === "PGRST116") return null;
+    throw new Error(`Failed to fetch order: ${error.message}`);
+  }
+
+  return data as OrderWithHistory;
+}
+
+// ============================================
+// Admin
+// ============================================
+
+/**
+ * The day after a `YYYY-MM-DD` date, so date filters include the whole
+ * of their last day.
+ */
+function nextDay(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + 1);
+  return day.toISOString().slice(0, 10);
+}
+
+/**
+ * Escape LIKE's wildcards (and its escape character) so `text` only
+ * matches itself — a customer filter of "a_b" shouldn't match "axb".
+ */
+function escapeLikePattern(text: string): string {
+  return text.replace(/[\\%_]/g, "\\$&");
+}
+
+/**
+ * Fetch orders across all customers, newest first.
+ */
+export async function getAdminOrders(
+  filters: AdminOrderFilters = {},
+): Promise<OrderWithItems[]> {
+  const supabase = await createSupabaseServerClient();
+
+  let query = supabase
+    .from("orders")
+    .select("*, order_items(*)")
+    .order("created_at", { ascending: false });
+
+  if (filters.status) {
+    query = query.eq("status", filters.status);
+  }
+  if (filters.from) {
+    query = query.gte("created_at", filters.from);
+  }
+  if (filters.to) {
+    query = query.lt("created_at", nextDay(filters.to));
+  }
+  if (filters.customer) {
+    query = query.ilike(
+      "customer_email",
+      `%${escapeLikePattern(filters.customer)}%`,
+    );
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch orders: ${error.message}`);
+  }
+
+  return (data as OrderWithItems[]) || [];
+}
+
+/**
+ * Fetch any order with its line items, status history and refunds.
+ */
+export async function getAdminOrderById(
+  orderId: string,
+): Promise<OrderWithHistory | null> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from("orders")
+    .select(ORDER_DETAIL_SELECT)
+    .eq("id", orderId)
+    .order("created_at", { referencedTable: "order_status_history" })
+    .order("created_at", { referencedTable: "refunds" })
+    .single();
+
+  if (error) {
+    if (error.code === "PGRST116") return null;
+    throw new Error(`Failed to fetch order: ${error.message}`);
+  }
+
+  return data as OrderWithHistory;
+}
+
+/**
+ * Move an order to a new status.
+ *
+ * The transition is checked against the order status state machine
+ * (lib/order-status.ts); the `set_order_status` database function then
+ * applies it only if the order hasn't changed in the meantime and records
+ * the change, with the acting user, in `order_status_history`.
+ * Cancelling goes through cancelOrder so stock is returned and the order
+ * refunded.
+ */
+export async function updateOrderStatus(
+  orderId: string,
+  status: OrderStatus,
+  note?: string,
+): Promise<OrderWithHistory> {
+  if (status === "cancelled") {
+    return cancelOrder(orderId, { note });
+  }
+
+  const order = await getAdminOrderById(orderId);
+  if (!order) {
+    throw new OrderNotFoundError();
+  }
+
+  assertTransition(order.status, status);
+
+  const supabase = await createSupabaseServerClient();
+  const { data, error } = await supabase.rpc("set_order_status", {
+    p_order_id: orderId,
+    p_from_status: order.status,
+    p_to_status: status,
+    p_note: note ?? null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to update order status: ${error.message}`);
+  }
+
+  const result = data as { updated: boolean; current_status?: OrderStatus };
+  if (!result.updated) {
+    throw new OrderStatusConflictError(result.current_status ?? order.status);
+  }
+
+  const updated = await getAdminOrderById(orderId);
+  if (!updated) {
+    throw new Error("Failed to load updated order");
+  }
+
+  return updated;
+}
+
+// ============================================
+// Cancellation & Refunds
+// ============================================
+
+function getRefundedTotal(order: OrderWithHistory): number {
+  return order.refunds.reduce((sum, refund) => sum + refund.total, 0);
+}
+
+/**
+ * Cancel an order that hasn't shipped yet.
+ *
+ * The `cancel_order` database function returns the order's stock
+ * (to the variant for variant lines), reverses its promo code redemption,
+ * records the status change and writes a full refund — including
+ * shipping — all at once, and only if the order is still in the status
+ * read here. The refund is then returned through the payment provider;
+ * orders that were never paid get no refund.
+ *
+ * Pass `userId` when a customer cancels their own order; without it the
+ * order is looked up as an admin. Either way the order is read with the
+ * caller's session (so RLS decides whether they can see it) before the
+ * function is called with the service role, since it writes the refund
+ * calculated here.
+ */
+export async function cancelOrder(
+  orderId: string,
+  options: { userId?: string; note?: string } = {},
+): Promise<OrderWithHistory> {
+  const load = () =>
+    options.userId
+      ? getOrderById(orderId, options.userId)
+      : getAdminOrderById(orderId);
+
+  const order = await load();
+  if (!order) {
+    throw new OrderNotFoundError();
+  }
+
+  assertTransition(order.status, "cancelled");
+
+  const refund = hasRefundablePayment(order)
+    ? calculateRefund(order, getRemainingRefundLines(order, order.refunds), {
+        includeShipping: true,
+        previousRefunds: order.refunds,
+      })
+    : null;
+
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new OrderNotFoundError();
+  }
+
+  const { data, error } = await createSupabaseAdminClient().rpc(
+    "cancel_order",
+    {
+      p_order_id: orderId,
+      p_from_status: order.status,
+      p_refund: refund && {
+        ...refund,
+        reason: options.note || "Order cancelled",
+      },
+      p_note: options.note ?? null,
+      p_actor_id: user.id,
+      p_actor_email: user.email ?? null,
+    },
+  );
+
+  if (error) {
+    throw new Error(`Failed to cancel order: ${error.message}`);
+  }
+
+  const result = data as { cancelled: boolean; current_status?: OrderStatus };
+  if (!result.cancelled) {
+    throw new OrderStatusConflictError(result.current_status ?? order.status);
+  }
+
+  if (refund) {
+    await refundPayment(order, refund.total, getRefundedTotal(order));
+  }
+
+  const cancelled = await load();
+  if (!cancelled) {
+    throw new Error("Failed to load cancelled order");
+  }
+
+  return cancelled;
+}
+
+/**
+ * Refund some or all of a shipped or delivered order.
+ *
+ * Amounts come from lib/refunds.ts, based on what was paid for each line
+ * and what has already been refunded. Without `lines`, everything not yet
+ * refunded is. The `create_refund` database function re-checks the
+ * order's status and earlier refunds under a lock before writing, so two
+ * refunds can't overlap; the money is then returned through the payment
+ * provider.
+ */
+export async function createRefund(
+  orderId: string,
+  lines?: RefundLine[],
+  options: { includeShipping?: boolean; reason?: string } = {},
+): Promise<OrderWithHistory> {
+  const order = await getAdminOrderById(orderId);
+  if (!order) {
+    throw new OrderNotFoundError();
+  }
+
+  if (!isRefundable(order.status)) {
+    throw new RefundError(
+      `Only shipped or delivered orders can be refunded; cancel ${order.status} orders instead`,
+    );
+  }
+
+  const refund = calculateRefund(
+    order,
+    lines ?? getRemainingRefundLines(order, order.refunds),
+    {
+      includeShipping: options.includeShipping,
+      previousRefunds: order.refunds,
+    },
+  );
+
+  const supabase = await createSupabaseServerClient();
+  const { data, error } = await supabase.rpc("create_refund", {
+    p_order_id: orderId,
+    p_refund: { ...refund, reason: options.reason ?? null },
+  });
+
+  if (error) {
+    throw new Error(`Failed to create refund: ${error.message}`);
+  }
+
+  const result = data as {
+    refund_id?: string;
+    not_refundable?: boolean;
+    current_status?: OrderStatus;
+    over_refunded?: string[];
+    exceeds_total?: boolean;
+  };
+
+  if (result.not_refundable) {
+    throw new OrderStatusConflictError(result.current_status ?? order.status);
+  }
+
+  if (result.over_refunded || result.exceeds_total) {
+    // Another refund was written since the order was read
+    throw new RefundError(
+      "This order has been refunded in the meantime; reload and try again",
+    );
+  }
+
+  await refundPayment(order, refund.total, getRefundedTotal(order));
+
+  const updated = await getAdminOrderById(orderId);
+  if (!updated) {
+    throw new Error("Failed to load refunded order");
+  }
+
+  return updated;
+}
@@ -0,0 +1,206 @@
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import { getPaymentProvider, toMinorUnits } from "@/lib/payments";
+import type {
+  Order,
+  PaymentIntent,
+  PaymentStatus,
+  PaymentWebhookEvent,
+} from "@/types";
+
+const PAYMENT_CURRENCY = "aud";
+
+/**
+ * How far along a payment is. Webhooks can arrive late or more than once,
+ * so a status is only ever moved forward.
+ */
+const PAYMENT_STATUS_RANK: Record<PaymentStatus, number> = {
+  unpaid: 0,
+  failed: 1,
+  authorized: 2,
+  paid: 3,
+  partially_refunded: 4,
+  refunded: 5,
+};
+
+/**
+ * Thrown when the payment provider declines an order's payment.
+ */
+export class PaymentDeclinedError extends Error {
+  constructor(message = "Your payment was declined") {
+    super(message);
+    this.name = "PaymentDeclinedError";
+  }
+}
+
+function toPaymentStatus(intent: PaymentIntent): PaymentStatus {
+  switch (intent.status) {
+    case "requires_capture":
+      return "authorized";
+    case "succeeded":
+      return "paid";
+    case "failed":
+      return "failed";
+    default:
+      return "unpaid";
+  }
+}
+
+/**
+ * Whether an order has captured money that can be refunded.
+ */
+export function hasRefundablePayment(order: Order): boolean {
+  return (
+    order.payment_intent_id !== null &&
+    (order.payment_status === "paid" ||
+      order.payment_status === "partially_refunded")
+  );
+}
+
+/**
+ * Payment columns are written with the service role: customers can't
+ * update their own orders, and webhooks have no user session.
+ */
+async function updateOrderPayment(
+  orderId: string,
+  fields: Partial<
+    Pick<Order, "payment_status" | "payment_provider" | "payment_intent_id">
+  >,
+): Promise<void> {
+  const supabase = createSupabaseAdminClient();
+
+  const { error } = await supabase
+    .from("orders")
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq("id", orderId);
+
+  if (error) {
+    throw new Error(`Failed to update order payment: ${error.message}`);
+  }
+}
+
+/**
+ * Take payment for a newly placed order with the configured provider:
+ * create an intent for the order total, confirm it with the shopper's
+ * payment method, then capture it.
+ *
+ * @throws PaymentDeclinedError when the provider declines the payment
+ */
+export async function payForOrder(
+  order: Order,
+  paymentMethod?: string,
+): Promise<PaymentStatus> {
+  const provider = getPaymentProvider();
+
+  const intent = await provider.createIntent({
+    orderId: order.id,
+    amount: toMinorUnits(order.total),
+    currency: PAYMENT_CURRENCY,
+  });
+
+  await updateOrderPayment(order.id, {
+    payment_provider: provider.name,
+    payment_intent_id: intent.id,
+  });
+
+  const confirmed = await provider.confirmIntent(intent.id, paymentMethod);
+
+  if (confirmed.status === "failed") {
+    await updateOrderPayment(order.id, { payment_status: "failed" });
+    throw new PaymentDeclinedError(confirmed.failureReason);
+  }
+
+  const captured =
+    confirmed.status === "requires_capture"
+      ? await provider.captureIntent(intent.id)
+      : confirmed;
+
+  const paymentStatus = toPaymentStatus(captured);
+  await updateOrderPayment(order.id, { payment_status: paymentStatus });
+
+  return paymentStatus;
+}
+
+/**
+ * Return `amount` (dollars) of an order's payment through the provider it
+ * was paid with, after the refund has been recorded. Orders without a
+ * captured payment have nothing to return.
+ *
+ * @param refundedBefore - dollars already refunded on this order
+ */
+export async function refundPayment(
+  order: Order,
+  amount: number,
+  refundedBefore: number,
+): Promise<void> {
+  if (!hasRefundablePayment(order) || amount <= 0) return;
+
+  const provider = getPaymentProvider(order.payment_provider ?? undefined);
+  const refund = await provider.refund(
+    order.payment_intent_id!,
+    toMinorUnits(amount),
+  );
+
+  if (refund.status !== "succeeded") {
+    throw new Error(
+      "The refund was recorded but the payment provider could not return the money",
+    );
+  }
+
+  const fullyRefunded =
+    toMinorUnits(refundedBefore + amount) >= toMinorUnits(order.total);
+
+  await updateOrderPayment(order.id, {
+    payment_status: fullyRefunded ? "refunded" : "partially_refunded",
+  });
+}
+
+/**
+ * Apply a verified webhook event to its order's payment status.
+ * Events are recorded in `payment_events`, so a redelivered event is
+ * ignored; events for unknown intents are recorded without an order.
+ */
+export async function applyPaymentEvent(
+  providerName: string,
+  event: PaymentWebhookEvent,
+): Promise<void> {
+  const supabase = createSupabaseAdminClient();
+
+  const { data: order, error: orderError } = await supabase
+    .from("orders")
+    .select("id, total, payment_status")
+    .eq("payment_intent_id", event.intentId)
+    .maybeSingle();
+
+  if (orderError) {
+    throw new Error(`Failed to look up payment: ${orderError.message}`);
+  }
+
+  const { error: eventError } = await supabase.from("payment_events").insert({
+    provider: providerName,
+    event_id: event.id,
+    type: event.type,
+    order_id: order?.id ?? null,
+    payload: event.payload,
+  });
+
+  if (eventError) {
+    if (eventError.code === "23505") return; // Already processed
+    throw new Error(`Failed to record payment event: ${eventError.message}`);
+  }
+
+  if (!order) return;
+
+  const current = order.payment_status as PaymentStatus;
+  const next: PaymentStatus =
+    event.type === "payment.succeeded"
+      ? "paid"
+      : event.type === "payment.failed"
+        ? "failed"
+        : (event.amountRefunded ?? 0) >= toMinorUnits(order.total)
+          ? "refunded"
+          : "partially_refunded";
+
+  if (PAYMENT_STATUS_RANK[next] > PAYMENT_STATUS_RANK[current]) {
+    await updateOrderPayment(order.id, { payment_status: next });
+  }
+}
@@ -1,28 +1,61 @@
 import { createSupabaseServerClient } from "@/lib/supabase/server";
-import type { Product, ProductFilters, PaginatedResponse } from "@/types";
+import type {
+  Product,
+  ProductFacets,
+  ProductFilters,
+  ProductListItem,
+  ProductSuggestion,
+  PaginatedResponse,
+  QuantityBreak,
+  ProductVariant,
+} from "@/types";
+
+/**
+ * The columns of a Product, for every query that returns products. Rows
+ * also carry `search_vector`, which is only for searching and shouldn't
+ * be sent to the browser.
+ */
+export const PRODUCT_COLUMNS =
+  "id, name, slug, description, price, discount_percentage, stock, category, image_url, weight_kg, tax_class, created_at";
 
 /**
  * Fetch products with filtering, sorting, search, and pagination.
+ * Searches go through searchProducts and are sorted by relevance unless
+ * another sort is asked for.
  */
 export async function getProducts(
   filters: ProductFilters = {},
-): Promise<PaginatedResponse<Product>> {
+): Promise<PaginatedResponse<ProductListItem>> {
+  const search = filters.search?.trim();
+  if (search) {
+    return searchProducts({ ...filters, search });
+  }
+
   const supabase = await createSupabaseServerClient();
-  const { category, search, sort = "newest", page = 1, limit = 12 } = filters;
+  const { category, sort = "newest", page = 1, limit = 12 } = filters;
 
-  let query = supabase.from("products").select("*", { count: "exact" });
+  let query = supabase
+    .from("products")
+    .select(PRODUCT_COLUMNS, { count: "exact" });
 
   // Filter by category
   if (category && category !== "all") {
     query = query.eq("category", category);
   }
 
-  // Search by name or description
-  if (search) {
-    query = query.or(`name.ilike.%${search}%,description.ilike.%${search}%`);
+  // Faceted filters
+  const { min_price, max_price, in_stock, on_sale, min_discount } = filters;
+  if (min_price !== undefined) query = query.gte("price", min_price);
+  if (max_price !== undefined) query = query.lte("price", max_price);
+  if (in_stock) query = query.gt("stock", 0);
+  if (on_sale) query = query.gt("discount_percentage", 0);
+  // product_matches_filters treats no discount as 0%, so a threshold of 0
+  // or less matches every product; above that, NULLs never match anyway
+  if (min_discount !== undefined && min_discount > 0) {
+    query = query.gte("discount_percentage", min_discount);
   }
 
-  // Sorting
+  // Sorting (relevance only applies to searches)
   switch (sort) {
     case "price_asc":
       query = query.order("price", { ascending: true });
@@ -34,6 +67,7 @@ export async function getProducts(
       query = query.order("name", { ascending: true });
       break;
     case "newest":
+    case "relevance":
     default:
       query = query.order("created_at", { ascending: false });
       break;
@@ -59,6 +93,120 @@ export async function getProducts(
   };
 }
 
+/**
+ * Full-text product search, through the `search_products` database
+ * function: words are matched against the name, category and description
+ * (stemmed and weighted in that order), and close trigram matches on the
+ * name catch typos. Each result carries its rank and highlighted name and
+ * description snippet. The query is passed as a parameter, never spliced
+ * into a filter, so any punctuation is safe.
+ */
+async function searchProducts(
+  filters: ProductFilters & { search: string },
+): Promise<PaginatedResponse<ProductListItem>> {
+  const supabase = await createSupabaseServerClient();
+  const { search, sort = "relevance", page = 1, limit = 12 } = filters;
+
+  const { data, error } = await supabase.rpc("search_products", {
+    p_query: search,
+    p_filters: toFilterParams(filters),
+    p_sort: sort,
+    p_limit: limit,
+    p_offset: (page - 1) * limit,
+  });
+
+  if (error) {
+    throw new Error(`Failed to search products: ${error.message}`);
+  }
+
+  const result = data as {
+    total: number;
+    results: {
+      product: Product;
+      rank: number;
+      name_highlight: string;
+      snippet: string;
+    }[];
+  };
+
+  return {
+    data: result.results.map(({ product, rank, name_highlight, snippet }) => ({
+      ...product,
+      match: { rank, name: name_highlight, snippet },
+    })),
+    total: result.total,
+    page,
+    limit,
+    totalPages: Math.ceil(result.total / limit),
+  };
+}
+
+/**
+ * Count the products each filter value would give, for the facets shown
+ * next to a listing. Each facet is counted with the other filters (and any
+ * search) applied but not its own.
+ */
+export async function getProductFacets(
+  filters: ProductFilters = {},
+): Promise<ProductFacets> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data, error } = await supabase.rpc("product_facets", {
+    p_query: filters.search?.trim() || null,
+    p_filters: toFilterParams(filters),
+  });
+
+  if (error) {
+    throw new Error(`Failed to fetch product facets: ${error.message}`);
+  }
+
+  return data as ProductFacets;
+}
+
+/**
+ * The filters in the shape the database functions take them (see
+ * product_matches_filters).
+ */
+function toFilterParams({
+  category,
+  min_price,
+  max_price,
+  in_stock,
+  on_sale,
+  min_discount,
+}: ProductFilters) {
+  return {
+    category: category && category !== "all" ? category : undefined,
+    min_price,
+    max_price,
+    in_stock,
+    on_sale,
+    min_discount,
+  };
+}
+
+/**
+ * Search-as-you-type suggestions: up to `limit` products whose name
+ * contains (or nearly matches) the query, and categories starting with it.
+ */
+export async function getSearchSuggestions(
+  query: string,
+  limit = 5,
+): Promise<{ products: ProductSuggestion[]; categories: string[] }> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data, error } = await supabase.rpc("search_suggestions", {
+    p_query: query,
+    p_limit: limit,
+  });
+
+  if (error) {
+    throw new Error(`Failed to fetch search suggestions: ${error.message}`);
+  }
+
+  return data as { products: ProductSuggestion[]; categories: string[] };
+}
+
 /**
  * Fetch a single product by slug.
  */
@@ -67,7 +215,7 @@ export async function getProductBySlug(slug: string): Promise<Product | null> {
 
   const { data, error } = await supabase
     .from("products")
-    .select("*")
+    .select(PRODUCT_COLUMNS)
     .eq("slug", slug)
     .single();
 
@@ -87,7 +235,7 @@ export async function getProductById(id: string): Promise<Product | null> {
 
   const { data, error } = await supabase
     .from("products")
-    .select("*")
+    .select(PRODUCT_COLUMNS)
     .eq("id", id)
     .single();
 
@@ -99,6 +247,27 @@ export async function getProductById(id: string): Promise<Product | null> {
   return data as Product;
 }
 
+/**
+ * Fetch the variants of a product (empty if it isn't sold by variant).
+ */
+export async function getProductVariants(
+  productId: string,
+): Promise<ProductVariant[]> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from("product_variants")
+    .select("*")
+    .eq("product_id", productId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch product variants: ${error.message}`);
+  }
+
+  return (data as ProductVariant[]) || [];
+}
+
 /**
  * Get all distinct categories.
  */
@@ -118,6 +287,25 @@ export async function getCategories(): Promise<string[]> {
   return categories;
 }
 
+/**
+ * Fetch all quantity break rows (product-specific and category-wide).
+ * The pricing engine picks the ones that apply to each product.
+ */
+export async function getQuantityBreaks(): Promise<QuantityBreak[]> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from("quantity_breaks")
+    .select("*")
+    .order("min_quantity", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch quantity breaks: ${error.message}`);
+  }
+
+  return (data as QuantityBreak[]) || [];
+}
+
 /**
  * Create a new product.
  */
@@ -129,7 +317,7 @@ export async function createProduct(
   const { data, error } = await supabase
     .from("products")
     .insert(productData)
-    .select()
+    .select(PRODUCT_COLUMNS)
     .single();
 
   if (error) {
@@ -152,7 +340,7 @@ export async function updateProduct(
     .from("products")
     .update(productData)
     .eq("id", id)
-    .select()
+    .select(PRODUCT_COLUMNS)
     .single();
 
   if (error) {
@@ -0,0 +1,134 @@
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import type { PromoCode, PromoCodeFormData, PromoCodeLookup } from "@/types";
+
+/**
+ * Thrown when a promo code cannot be applied to an order.
+ */
+export class PromoCodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PromoCodeError";
+  }
+}
+
+/**
+ * Normalize a promo code the same way it is stored (trimmed, upper-case).
+ */
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Look up a promo code for the current shopper.
+ *
+ * Goes through the `lookup_promo_code` database function so shoppers can
+ * check a code they know without being able to list every code in the table.
+ * The result also carries the shopper's previous redemptions so the pricing
+ * engine can enforce per-customer limits.
+ */
+export async function lookupPromoCode(code: string): Promise<PromoCodeLookup> {
+  const supabase = await createSupabaseServerClient();
+  const normalized = normalizePromoCode(code);
+
+  const { data, error } = await supabase.rpc("lookup_promo_code", {
+    p_code: normalized,
+  });
+
+  if (error) {
+    throw new Error(`Failed to look up promo code: ${error.message}`);
+  }
+
+  const result = data as {
+    promo: PromoCode | null;
+    customer_uses: number;
+  };
+
+  return {
+    code: normalized,
+    promo: result.promo,
+    customerUses: result.customer_uses,
+  };
+}
+
+// ============================================
+// Admin CRUD
+// ============================================
+
+/**
+ * Fetch all promo codes, newest first.
+ */
+export async function getPromoCodes(): Promise<PromoCode[]> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from("promo_codes")
+    .select("*")
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch promo codes: ${error.message}`);
+  }
+
+  return (data as PromoCode[]) || [];
+}
+
+/**
+ * Create a new promo code.
+ */
+export async function createPromoCode(
+  promoData: PromoCodeFormData,
+): Promise<PromoCode> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from("promo_codes")
+    .insert({ ...promoData, code: normalizePromoCode(promoData.code) })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create promo code: ${error.message}`);
+  }
+
+  return data as PromoCode;
+}
+
+/**
+ * Update an existing promo code.
+ */
+export async function updatePromoCode(
+  id: string,
+  promoData: Partial<PromoCodeFormData>,
+): Promise<PromoCode> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from("promo_codes")
+    .update(
+      promoData.code
+        ? { ...promoData, code: normalizePromoCode(promoData.code) }
+        : promoData,
+    )
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update promo code: ${error.message}`);
+  }
+
+  return data as PromoCode;
+}
+
+/**
+ * Delete a promo code.
+ */
+export async function deletePromoCode(id: string): Promise<void> {
+  const supabase = await createSupabaseServerClient();
+
+  const { error } = await supabase.from("promo_codes").delete().eq("id", id);
+
+  if (error) {
+    throw new Error(`Failed to delete promo code: ${error.message}`);
+  }
+}
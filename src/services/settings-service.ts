@@ -0,0 +1,49 @@
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { DEFAULT_STORE_SETTINGS } from "@/lib/pricing-engine";
+import type { CategoryTaxClasses, StoreSettings, TaxClass } from "@/types";
+
+const STORE_SETTINGS_COLUMNS = Object.keys(DEFAULT_STORE_SETTINGS).join(", ");
+
+/**
+ * Fetch the store's pricing rules from the single-row `store_settings` table.
+ *
+ * Falls back to the theme's settings.json defaults when the row is missing
+ * or the table can't be read, so pricing never breaks the storefront.
+ */
+export async function getStoreSettings(): Promise<StoreSettings> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from("store_settings")
+    .select(STORE_SETTINGS_COLUMNS)
+    .maybeSingle();
+
+  if (error || !data) {
+    return DEFAULT_STORE_SETTINGS;
+  }
+
+  return {
+    ...DEFAULT_STORE_SETTINGS,
+    ...(data as unknown as Partial<StoreSettings>),
+  };
+}
+
+/**
+ * Fetch the tax class of each category from `category_tax_classes`.
+ * Categories without a row are taxed at the standard rate.
+ */
+export async function getCategoryTaxClasses(): Promise<CategoryTaxClasses> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from("category_tax_classes")
+    .select("category, tax_class");
+
+  if (error) {
+    throw new Error(`Failed to fetch tax classes: ${error.message}`);
+  }
+
+  return Object.fromEntries(
+    (data || []).map((row) => [row.category, row.tax_class as TaxClass]),
+  );
+}
@@ -0,0 +1,22 @@
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import type { ShippingZone } from "@/types";
+
+/**
+ * Fetch every shipping zone with its rate table.
+ * The pricing engine picks the zone that covers a destination.
+ */
+export async function getShippingZones(): Promise<ShippingZone[]> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from("shipping_zones")
+    .select("*, shipping_rates(*)")
+    .order("sort_order", { ascending: true })
+    .order("min_value", { referencedTable: "shipping_rates" });
+
+  if (error) {
+    throw new Error(`Failed to fetch shipping zones: ${error.message}`);
+  }
+
+  return (data as ShippingZone[]) || [];
+}
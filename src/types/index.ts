@@ -12,17 +12,88 @@ export interface Product {
   stock: number;
   category: string;
   image_url: string;
+  weight_kg: number;
+  tax_class: TaxClass | null; // null: use the category's class
   created_at: string;
 }
 
-export interface ProductFilters {
+/**
+ * Product listing order. `relevance` ranks search matches (and is the
+ * default when searching); without a search it falls back to newest.
+ */
+export type ProductSort =
+  "relevance" | "price_asc" | "price_desc" | "newest" | "name_asc";
+
+export interface ProductFilters extends ProductFacetFilters {
   category?: string;
   search?: string;
-  sort?: "price_asc" | "price_desc" | "newest" | "name_asc";
+  sort?: ProductSort;
   page?: number;
   limit?: number;
 }
 
+/**
+ * The faceted filters of a listing. Prices are base prices.
+ */
+export interface ProductFacetFilters {
+  min_price?: number;
+  max_price?: number;
+  in_stock?: boolean;
+  on_sale?: boolean;
+  min_discount?: number; // Percentage
+}
+
+/**
+ * How many products each filter value would give, with the other filters
+ * (and any search) applied.
+ */
+export interface ProductFacets {
+  total: number;
+  categories: { value: string; count: number }[];
+  price: { min: number | null; max: number | null };
+  in_stock: number;
+  on_sale: number;
+  discounts: { min_discount: number; count: number }[];
+}
+
+/**
+ * How a product matched a search. Matched words in `name` and `snippet`
+ * are wrapped in highlight markers (see lib/search.ts).
+ */
+export interface ProductSearchMatch {
+  rank: number;
+  name: string;
+  snippet: string; // Excerpt of the description around the matches
+}
+
+/**
+ * A product in a listing; search results carry their match.
+ */
+export interface ProductListItem extends Product {
+  match?: ProductSearchMatch;
+}
+
+/**
+ * Search-as-you-type suggestions for the search box.
+ */
+export interface SearchSuggestions {
+  products: ProductSuggestion[];
+  categories: string[];
+  recent: string[]; // The shopper's own recent searches
+}
+
+export interface ProductSuggestion {
+  name: string;
+  slug: string;
+  category: string;
+  image_url: string;
+}
+
+export interface SearchSuggestQuery {
+  q: string;
+  limit: number; // Per kind of suggestion
+}
+
 export interface ProductFormData {
   name: string;
   slug: string;
@@ -32,6 +103,8 @@ export interface ProductFormData {
   stock: number;
   category: string;
   image_url: string;
+  weight_kg: number;
+  tax_class: TaxClass | null;
 }
 
 // ============================================
@@ -40,20 +113,51 @@ export interface ProductFormData {
 
 export interface CartItem {
   id: string;
-  user_id: string;
+  user_id: string | null;
+  guest_cart_id: string | null;
   product_id: string;
+  variant_id: string | null;
   quantity: number;
   created_at: string;
 }
 
 export interface CartItemWithProduct extends CartItem {
   products: Product;
+  product_variants: ProductVariant | null;
 }
 
-export interface GuestCartItem {
+/**
+ * Whose cart an operation acts on: a signed-in user, or an anonymous
+ * shopper identified by the guest cart cookie.
+ */
+export type CartOwner = { userId: string } | { guestCartId: string };
+
+/**
+ * Request bodies for POST, PATCH and DELETE /api/cart.
+ */
+export interface CartAddInput {
   product_id: string;
   quantity: number;
-  product?: Product;
+  variant_id: string | null;
+}
+
+export interface CartUpdateInput {
+  item_id: string;
+  quantity: number;
+}
+
+export interface CartRemoveInput {
+  item_id: string;
+}
+
+/**
+ * Result of merging a guest cart into a user's cart on login.
+ * `limited` lists lines (variant id for variant lines, otherwise product id)
+ * whose quantity was capped or dropped because of stock.
+ */
+export interface CartMergeResult {
+  merged: number;
+  limited: string[];
 }
 
 // ============================================
@@ -65,6 +169,30 @@ export interface DiscountBreakdown {
   label: string;
   percentage: number;
   amount: number;
+  tier?: string; // Quantity break that applied, e.g. "20–99" (bulk only)
+}
+
+/**
+ * A quantity break row from the `quantity_breaks` table.
+ * Scoped to a single product, or to a whole category as a fallback.
+ */
+export interface QuantityBreak {
+  id: string;
+  product_id: string | null;
+  category: string | null;
+  min_quantity: number;
+  discount_percentage: number;
+  created_at: string;
+}
+
+/**
+ * A quantity break resolved for one product, ready for pricing and display.
+ */
+export interface QuantityBreakTier {
+  minQuantity: number;
+  maxQuantity: number | null; // null for the open-ended top tier
+  percentage: number;
+  label: string; // e.g. "5–19" or "100+"
 }
 
 export interface PricingResult {
@@ -74,37 +202,232 @@ export interface PricingResult {
   totalDiscount: number;
 }
 
+// ============================================
+// Shipping Types
+// (Maps to Neto's shipping zones and rate tables)
+// ============================================
+
+export type ShippingMethod = "standard" | "express" | "pickup";
+
+export type ShippingCountry = "AU" | "NZ";
+
+export interface ShippingDestination {
+  country: ShippingCountry;
+  postcode: string;
+}
+
+/**
+ * A row from `shipping_rates`: the cost of one service level in a zone for
+ * parcels whose weight (kg) or item count falls in [min_value, max_value).
+ */
+export interface ShippingRate {
+  id: string;
+  zone_id: string;
+  method: ShippingMethod;
+  basis: "weight" | "items";
+  min_value: number;
+  max_value: number | null; // null for the open-ended top bracket
+  cost: number;
+  estimated_days: string | null;
+}
+
+/**
+ * A row from `shipping_zones` with its rates. Zones without a postcode
+ * range cover the rest of their country.
+ */
+export interface ShippingZone {
+  id: string;
+  name: string;
+  country: ShippingCountry;
+  postcode_from: number | null;
+  postcode_to: number | null;
+  sort_order: number;
+  shipping_rates: ShippingRate[];
+}
+
+export interface ShippingOption {
+  method: ShippingMethod;
+  label: string;
+  cost: number;
+  isFreeShipping: boolean;
+  estimatedDays: string | null;
+}
+
+/**
+ * What rate tables price a shipment by: total weight (kg) and item count.
+ */
+export interface ShippingParcel {
+  weight: number;
+  itemCount: number;
+}
+
+/**
+ * Where and how a cart is being shipped.
+ */
+export interface ShippingRequest {
+  destination: ShippingDestination;
+  zones: ShippingZone[];
+  method?: ShippingMethod; // Defaults to standard when available
+}
+
 export interface ShippingResult {
   cost: number;
   isFreeShipping: boolean;
-  freeShippingThreshold: number;
+  freeShippingThreshold: number | null; // null when free shipping is disabled
+  method: ShippingMethod | null; // null when nothing ships to the destination
+  zone: string | null; // Matched zone name; null for the flat-rate estimate
+  options: ShippingOption[];
+}
+
+/**
+ * How a product is taxed (Neto's tax classes): GST at the store's rate,
+ * or GST-free (e.g. basic food, exports).
+ */
+export type TaxClass = "standard" | "gst_free";
+
+/**
+ * Category → tax class, from the `category_tax_classes` table.
+ * Products in unlisted categories are taxed at the standard rate.
+ */
+export type CategoryTaxClasses = Record<string, TaxClass>;
+
+/**
+ * One line's taxable amount: what the customer pays for it after every
+ * discount, including its share of a promo code.
+ */
+export interface TaxableLine {
+  id: string; // Variant id for variant lines, otherwise product id
+  amount: number;
+  taxClass: TaxClass;
+}
+
+export interface TaxLine extends TaxableLine {
+  rate: number;
+  tax: number;
 }
 
 export interface TaxResult {
   rate: number;
   amount: number;
   label: string;
+  inclusive: boolean; // true when `amount` is already included in prices
+  lines: TaxLine[];
+}
+
+/**
+ * Merchant-configurable pricing rules.
+ * Mirrors the `pricing` block of neto-theme-simulator/config/settings.json
+ * and the single row of the `store_settings` table.
+ */
+export interface StoreSettings {
+  bulk_discount_enabled: boolean;
+  bulk_discount_threshold: number;
+  bulk_discount_percentage: number;
+  member_discount_enabled: boolean;
+  member_discount_percentage: number;
+  free_shipping_enabled: boolean;
+  free_shipping_threshold: number;
+  standard_shipping_cost: number;
+  tax_rate: number;
+  tax_inclusive: boolean;
+  currency: string;
+  currency_symbol: string;
+}
+
+/**
+ * A row from `exchange_rates`: units of `currency` per 1 unit of the
+ * store's base currency (`StoreSettings.currency`). Used for display only.
+ */
+export interface ExchangeRate {
+  currency: string;
+  rate: number;
+  updated_at: string;
+}
+
+/**
+ * A cart line with its price worked out by the pricing engine.
+ */
+export interface CartSummaryItem {
+  id: string;
+  product: Product;
+  variant: ProductVariant | null;
+  quantity: number;
+  pricing: PricingResult;
 }
 
 export interface CartSummaryData {
+  items: CartSummaryItem[];
   subtotal: number;
-  pricing: PricingResult;
+  totalAfterDiscounts: number;
+  lineDiscount: number; // price rules on the lines (sale, bulk, member...)
+  promoDiscount: number; // the promo code, taken off after line discounts
+  totalDiscount: number; // lineDiscount + promoDiscount
+  discounts: DiscountBreakdown[];
   shipping: ShippingResult;
   tax: TaxResult;
+  promoResult: PromoResult | null; // null without a promo code
   total: number;
   itemCount: number;
 }
 
+/**
+ * Request body for POST /api/cart/summary.
+ */
+export interface CartSummaryInput {
+  promo_code?: string;
+  destination?: ShippingDestination;
+  shipping_method?: ShippingMethod;
+}
+
 // ============================================
 // API Types
 // ============================================
 
-export interface ApiResponse<T> {
-  data: T | null;
-  error: string | null;
-  status: number;
+/**
+ * Machine-readable error codes returned by every API route, each with its
+ * usual HTTP status:
+ * - AUTH_REQUIRED (401): nobody is signed in
+ * - FORBIDDEN (403): the user's role isn't allowed
+ * - NOT_FOUND (404)
+ * - OUT_OF_STOCK (409): details list the product_ids / variant_ids
+ * - CONFLICT (409): the resource changed or is in the wrong state
+ * - VALIDATION_FAILED (422): `fields` has a message per invalid field
+ * - BAD_REQUEST (400): the request can't be carried out as sent
+ * - PAYMENT_DECLINED (402)
+ * - INTERNAL_ERROR (500)
+ */
+export type ApiErrorCode =
+  | "AUTH_REQUIRED"
+  | "FORBIDDEN"
+  | "NOT_FOUND"
+  | "OUT_OF_STOCK"
+  | "CONFLICT"
+  | "VALIDATION_FAILED"
+  | "BAD_REQUEST"
+  | "PAYMENT_DECLINED"
+  | "INTERNAL_ERROR";
+
+export interface ApiErrorBody {
+  code: ApiErrorCode;
+  message: string;
+  fields?: Record<string, string>;
+  details?: Record<string, unknown>;
 }
 
+export interface PaginationMeta {
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+/**
+ * The body of every API response. Paginated lists add `meta`.
+ */
+export type ApiResponse<T> =
+  | { data: T; error: null; meta?: PaginationMeta }
+  | { data: null; error: ApiErrorBody };
+
 export interface PaginatedResponse<T> {
   data: T[];
   total: number;
@@ -122,6 +445,62 @@ export interface AuthUser {
   email: string;
 }
 
+// ============================================
+// Customer Group Types
+// ============================================
+
+export type CustomerGroupId = "retail" | "wholesale" | "vip" | "staff";
+
+/**
+ * A customer group (maps to Neto's customer groups / price groups).
+ */
+export interface CustomerGroup {
+  id: CustomerGroupId;
+  name: string;
+  discount_percentage: number;
+}
+
+/**
+ * An explicit unit price for one product and customer group.
+ * Takes precedence over the group's discount percentage.
+ */
+export interface ProductGroupPrice {
+  product_id: string;
+  customer_group: CustomerGroupId;
+  price: number;
+}
+
+/**
+ * Access level stored on the user's profile.
+ * admin: everything; staff: catalog management; customer: storefront only.
+ */
+export type UserRole = "admin" | "staff" | "customer";
+
+export interface Profile {
+  id: string;
+  role: UserRole;
+  customer_group: CustomerGroupId;
+  created_at: string;
+}
+
+/**
+ * Who the pricing engine is pricing for.
+ * Guests have no group; signed-in customers carry their group and its
+ * explicit product prices.
+ */
+export interface CustomerContext {
+  isAuthenticated: boolean;
+  group: CustomerGroup | null;
+  groupPrices: ProductGroupPrice[];
+}
+
+/**
+ * The member discount a customer gets on a product: a percentage off, or
+ * an explicit group unit price (before any variant's price modifier).
+ */
+export type MemberDiscountRule =
+  { label: string; percentage: number } | { label: string; unitPrice: number };
+
 // ============================================
 // Product Variant Types
 // (Maps to Neto's built-in variant system)
@@ -148,14 +527,33 @@ export interface VariantOption {
 // ============================================
 
 export interface PromoCode {
+  id: string;
   code: string;
   discount_type: "percentage" | "fixed";
   discount_value: number;
   min_order_amount: number | null;
   max_uses: number | null;
+  max_uses_per_customer: number | null;
   current_uses: number;
   active: boolean;
   expires_at: string | null;
+  created_at: string;
+}
+
+export type PromoCodeFormData = Omit<
+  PromoCode,
+  "id" | "current_uses" | "created_at"
+>;
+
+/**
+ * A promo code as looked up for a specific shopper:
+ * the stored definition (null if the code doesn't exist) plus
+ * how many times the current customer has already redeemed it.
+ */
+export interface PromoCodeLookup {
+  code: string;
+  promo: PromoCode | null;
+  customerUses: number;
 }
 
 export interface PromoResult {
@@ -170,33 +568,246 @@ export interface PromoResult {
 // (Maps to Neto's order management system)
 // ============================================
 
+export type OrderStatus =
+  | "pending"
+  | "confirmed"
+  | "processing"
+  | "shipped"
+  | "delivered"
+  | "cancelled";
+
+/**
+ * Where the money for an order is, as reported by the payment provider.
+ */
+export type PaymentStatus =
+  | "unpaid"
+  | "failed"
+  | "authorized"
+  | "paid"
+  | "partially_refunded"
+  | "refunded";
+
 export interface Order {
   id: string;
   user_id: string;
-  status:
-    | "pending"
-    | "confirmed"
-    | "processing"
-    | "shipped"
-    | "delivered"
-    | "cancelled";
+  status: OrderStatus;
   subtotal: number;
   discount_total: number;
   tax_amount: number;
   shipping_cost: number;
+  shipping_method: ShippingMethod | null;
   total: number;
   promo_code: string | null;
+  customer_email: string | null;
+  tax_inclusive: boolean;
+  shipping_address: AddressInput | null;
+  billing_address: AddressInput | null;
+  payment_status: PaymentStatus;
+  payment_provider: string | null;
+  payment_intent_id: string | null;
   created_at: string;
+  updated_at: string;
 }
 
 export interface OrderItem {
   id: string;
   order_id: string;
   product_id: string;
+  variant_id: string | null;
   product_name: string;
   quantity: number;
   unit_price: number;
   discount_amount: number;
   line_total: number;
+  tax_class: TaxClass;
+  tax_amount: number;
   variant_options: Record<string, string> | null;
 }
+
+export interface OrderWithItems extends Order {
+  order_items: OrderItem[];
+}
+
+/**
+ * A row from `order_status_history`. The first row of every order has
+ * `from_status: null` (the order being placed).
+ */
+export interface OrderStatusChange {
+  id: string;
+  order_id: string;
+  from_status: OrderStatus | null;
+  to_status: OrderStatus;
+  changed_by: string | null;
+  changed_by_email: string | null;
+  note: string | null;
+  created_at: string;
+}
+
+/**
+ * A row from `refunds`: money returned against an order, either in full
+ * when it's cancelled or partially once it has shipped.
+ */
+export interface Refund {
+  id: string;
+  order_id: string;
+  reason: string | null;
+  items_amount: number;
+  tax_amount: number;
+  shipping_amount: number;
+  total: number;
+  created_by: string | null;
+  created_by_email: string | null;
+  created_at: string;
+}
+
+/**
+ * The amount refunded for some or all units of one order line.
+ */
+export interface RefundItem {
+  id: string;
+  refund_id: string;
+  order_item_id: string;
+  quantity: number;
+  amount: number;
+}
+
+export interface RefundWithItems extends Refund {
+  refund_items: RefundItem[];
+}
+
+/**
+ * A line to refund, as requested by an admin.
+ */
+export interface RefundLine {
+  order_item_id: string;
+  quantity: number;
+}
+
+export interface OrderWithHistory extends OrderWithItems {
+  order_status_history: OrderStatusChange[];
+  refunds: RefundWithItems[];
+}
+
+// ============================================
+// Address Types
+// (Maps to Neto's customer address book)
+// ============================================
+
+/**
+ * A postal address as entered at checkout. Orders keep a copy of this
+ * shape, so later edits to a saved address don't change past orders.
+ * `state` is an Australian state/territory code, or the region for NZ.
+ */
+export interface AddressInput {
+  full_name: string;
+  company: string | null;
+  line1: string;
+  line2: string | null;
+  suburb: string;
+  state: string;
+  postcode: string;
+  country: ShippingCountry;
+  phone: string | null;
+}
+
+/**
+ * A row from `addresses`: an address saved to a customer's account.
+ */
+export interface Address extends AddressInput {
+  id: string;
+  user_id: string;
+  is_default: boolean;
+  created_at: string;
+}
+
+export type AddressFieldErrors = Partial<Record<keyof AddressInput, string>>;
+
+// ============================================
+// Payment Types
+// (Maps to Neto's payment gateway integrations)
+// ============================================
+
+/**
+ * A payment with a provider, in the provider's terms. Amounts are in the
+ * currency's minor unit (cents), as gateways expect.
+ */
+export interface PaymentIntent {
+  id: string;
+  status: "requires_confirmation" | "requires_capture" | "succeeded" | "failed";
+  amount: number;
+  currency: string;
+  failureReason?: string;
+}
+
+export interface PaymentRefund {
+  id: string;
+  intentId: string;
+  amount: number;
+  status: "succeeded" | "failed";
+}
+
+/**
+ * A verified webhook event, normalised across providers.
+ * `amountRefunded` is the intent's cumulative refunded amount (cents) on
+ * refund events.
+ */
+export interface PaymentWebhookEvent {
+  id: string;
+  type: "payment.succeeded" | "payment.failed" | "refund.succeeded";
+  intentId: string;
+  amountRefunded?: number;
+  payload: Record<string, unknown>;
+}
+
+/**
+ * Filters for the admin order list. Dates are inclusive `YYYY-MM-DD`;
+ * `customer` matches part of the customer's email.
+ */
+export interface AdminOrderFilters {
+  status?: OrderStatus;
+  from?: string;
+  to?: string;
+  customer?: string;
+}
+
+/**
+ * Request bodies for the order routes.
+ */
+export interface OrderInput {
+  shipping_address: AddressInput;
+  billing_address: AddressInput | null; // null: same as shipping
+  shipping_method?: ShippingMethod;
+  promo_code?: string;
+  payment_method?: string;
+}
+
+export interface OrderCancelInput {
+  reason?: string;
+}
+
+export interface OrderStatusUpdateInput {
+  status: OrderStatus;
+  note?: string;
+}
+
+export interface RefundInput {
+  items?: RefundLine[]; // Everything not yet refunded when omitted
+  include_shipping: boolean;
+  reason?: string;
+}
+
+/**
+ * Request bodies for the exchange rate and promo lookup routes.
+ */
+export interface ExchangeRateInput {
+  currency: string;
+  rate: number;
+}
+
+export interface ExchangeRateDeleteInput {
+  currency: string;
+}
+
+export interface PromoLookupInput {
+  code: string;
+}
@@ -6,6 +6,9 @@
 -- Enable UUID extension
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 
+-- Trigram matching for typo-tolerant product search
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
 -- ============================================
 -- Products Table
 -- ============================================
@@ -21,85 +24,1887 @@ CREATE TABLE IF NOT EXISTS products (
   stock INTEGER NOT NULL DEFAULT 0 CHECK (stock >= 0),
   category TEXT NOT NULL DEFAULT 'uncategorized',
   image_url TEXT NOT NULL DEFAULT '',
-  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  weight_kg NUMERIC(8, 3) NOT NULL DEFAULT 0 CHECK (weight_kg >= 0), -- Shipping weight
+  -- NULL uses the category's tax class (see category_tax_classes)
+  tax_class TEXT DEFAULT NULL CHECK (tax_class IN ('standard', 'gst_free')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- Full-text search: name matches rank above category, then description
+  search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', name), 'A') ||
+    setweight(to_tsvector('english', category), 'B') ||
+    setweight(to_tsvector('english', description), 'C')
+  ) STORED
 );
 
+-- Columns added since the table was first created: CREATE TABLE IF NOT
+-- EXISTS leaves an existing table as it was, so re-running this script
+-- adds them here
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS weight_kg NUMERIC(8, 3) NOT NULL DEFAULT 0 CHECK (weight_kg >= 0),
+  ADD COLUMN IF NOT EXISTS tax_class TEXT DEFAULT NULL CHECK (tax_class IN ('standard', 'gst_free')),
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', name), 'A') ||
+    setweight(to_tsvector('english', category), 'B') ||
+    setweight(to_tsvector('english', description), 'C')
+  ) STORED;
+
 -- Indexes for common queries
 CREATE INDEX IF NOT EXISTS idx_products_slug ON products(slug);
 CREATE INDEX IF NOT EXISTS idx_products_category ON products(category);
 CREATE INDEX IF NOT EXISTS idx_products_price ON products(price);
 CREATE INDEX IF NOT EXISTS idx_products_created_at ON products(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_products_search_vector ON products USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_products_name_trgm ON products USING GIN (name gin_trgm_ops);
+
+-- ============================================
+-- Product Variants Table
+-- (Maps to Neto's child products / variations, e.g. size and colour.
+-- For products with variants, products.stock is kept as the sum of the
+-- variants' stock by the trigger below.)
+-- ============================================
+CREATE TABLE IF NOT EXISTS product_variants (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  sku TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  options JSONB NOT NULL DEFAULT '{}'::JSONB,
+  price_modifier NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  stock INTEGER NOT NULL DEFAULT 0 CHECK (stock >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_variants_product_id ON product_variants(product_id);
 
 -- ============================================
 -- Cart Items Table
+-- (variant_id is set for products that have variants)
 -- ============================================
+-- A cart belongs to either a signed-in user or an anonymous guest cart.
+-- Guest cart ids are issued by the app in a signed cookie (see lib/guest-cart.ts).
 CREATE TABLE IF NOT EXISTS cart_items (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  guest_cart_id UUID,
   product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  variant_id UUID REFERENCES product_variants(id) ON DELETE CASCADE,
   quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
-  UNIQUE(user_id, product_id)
+  CHECK ((user_id IS NULL) <> (guest_cart_id IS NULL)),
+  UNIQUE NULLS NOT DISTINCT (user_id, guest_cart_id, product_id, variant_id)
 );
 
+-- Upgrade a cart_items table from earlier versions: rows can belong to a
+-- guest cart instead of a user, and a cart holds one row per variant. The
+-- owner check and key are dropped and re-added under the names CREATE
+-- TABLE gives them, so re-running this is harmless.
+ALTER TABLE cart_items
+  ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES product_variants(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS guest_cart_id UUID,
+  ALTER COLUMN user_id DROP NOT NULL,
+  DROP CONSTRAINT IF EXISTS cart_items_user_id_product_id_key,
+  DROP CONSTRAINT IF EXISTS cart_items_user_id_product_id_variant_id_key,
+  DROP CONSTRAINT IF EXISTS cart_items_user_id_guest_cart_id_product_id_variant_id_key,
+  ADD CONSTRAINT cart_items_user_id_guest_cart_id_product_id_variant_id_key
+    UNIQUE NULLS NOT DISTINCT (user_id, guest_cart_id, product_id, variant_id),
+  DROP CONSTRAINT IF EXISTS cart_items_check,
+  ADD CONSTRAINT cart_items_check CHECK ((user_id IS NULL) <> (guest_cart_id IS NULL));
+
 -- Indexes for cart queries
 CREATE INDEX IF NOT EXISTS idx_cart_items_user_id ON cart_items(user_id);
+CREATE INDEX IF NOT EXISTS idx_cart_items_guest_cart_id ON cart_items(guest_cart_id);
 CREATE INDEX IF NOT EXISTS idx_cart_items_product_id ON cart_items(product_id);
 
+-- ============================================
+-- Orders Table
+-- (Totals are snapshotted at the time the order is placed)
+-- ============================================
+CREATE TABLE IF NOT EXISTS orders (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (
+    status IN ('pending', 'confirmed', 'processing', 'shipped', 'delivered', 'cancelled')
+  ),
+  subtotal NUMERIC(10, 2) NOT NULL CHECK (subtotal >= 0),
+  discount_total NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (discount_total >= 0),
+  tax_amount NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (tax_amount >= 0),
+  shipping_cost NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (shipping_cost >= 0),
+  shipping_method TEXT DEFAULT NULL CHECK (
+    shipping_method IS NULL OR shipping_method IN ('standard', 'express', 'pickup')
+  ),
+  total NUMERIC(10, 2) NOT NULL CHECK (total >= 0),
+  promo_code TEXT DEFAULT NULL,
+  customer_email TEXT DEFAULT NULL,
+  -- Whether prices included GST when the order was placed
+  tax_inclusive BOOLEAN NOT NULL DEFAULT FALSE,
+  -- Copies of the checkout addresses (see lib/addresses.ts for the shape)
+  shipping_address JSONB DEFAULT NULL,
+  billing_address JSONB DEFAULT NULL,
+  -- Set by the payment service (service role) and payment webhooks
+  payment_status TEXT NOT NULL DEFAULT 'unpaid' CHECK (
+    payment_status IN ('unpaid', 'failed', 'authorized', 'paid', 'partially_refunded', 'refunded')
+  ),
+  payment_provider TEXT DEFAULT NULL,
+  payment_intent_id TEXT DEFAULT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Upgrade an orders table from earlier versions
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS tax_inclusive BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS payment_status TEXT NOT NULL DEFAULT 'unpaid' CHECK (
+    payment_status IN ('unpaid', 'failed', 'authorized', 'paid', 'partially_refunded', 'refunded')
+  ),
+  ADD COLUMN IF NOT EXISTS payment_provider TEXT DEFAULT NULL,
+  ADD COLUMN IF NOT EXISTS payment_intent_id TEXT DEFAULT NULL UNIQUE,
+  ADD COLUMN IF NOT EXISTS shipping_method TEXT DEFAULT NULL CHECK (
+    shipping_method IS NULL OR shipping_method IN ('standard', 'express', 'pickup')
+  ),
+  ADD COLUMN IF NOT EXISTS shipping_address JSONB DEFAULT NULL,
+  ADD COLUMN IF NOT EXISTS billing_address JSONB DEFAULT NULL,
+  ADD COLUMN IF NOT EXISTS customer_email TEXT DEFAULT NULL,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+-- Orders placed before customer_email was copied get the account's email,
+-- so staff can find them by customer
+UPDATE orders
+SET customer_email = users.email
+FROM auth.users
+WHERE users.id = orders.user_id
+  AND orders.customer_email IS NULL;
+
+-- Addresses used to be free text. Convert an old column, keeping each
+-- address as its first line so order pages still show it.
+DO $$
+BEGIN
+  IF (
+    SELECT data_type FROM information_schema.columns
+    WHERE table_schema = 'public'
+      AND table_name = 'orders'
+      AND column_name = 'shipping_address'
+  ) <> 'jsonb' THEN
+    ALTER TABLE orders
+      ALTER COLUMN shipping_address DROP DEFAULT,
+      ALTER COLUMN shipping_address DROP NOT NULL,
+      ALTER COLUMN shipping_address TYPE JSONB USING (
+        CASE
+          WHEN NULLIF(TRIM(shipping_address), '') IS NULL THEN NULL
+          ELSE jsonb_build_object('line1', shipping_address)
+        END
+      ),
+      ALTER COLUMN shipping_address SET DEFAULT NULL;
+  END IF;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_orders_user_id ON orders(user_id);
+CREATE INDEX IF NOT EXISTS idx_orders_created_at ON orders(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_orders_status ON orders(status);
+
+-- ============================================
+-- Order Items Table
+-- (product_name/unit_price are copied so history survives product edits)
+-- ============================================
+CREATE TABLE IF NOT EXISTS order_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL,
+  variant_id UUID DEFAULT NULL,
+  product_name TEXT NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  unit_price NUMERIC(10, 2) NOT NULL CHECK (unit_price >= 0),
+  discount_amount NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (discount_amount >= 0),
+  line_total NUMERIC(10, 2) NOT NULL CHECK (line_total >= 0),
+  tax_class TEXT NOT NULL DEFAULT 'standard' CHECK (tax_class IN ('standard', 'gst_free')),
+  -- GST on this line (added to, or included in, line_total per orders.tax_inclusive)
+  tax_amount NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (tax_amount >= 0),
+  variant_options JSONB DEFAULT NULL
+);
+
+-- Upgrade an order_items table from earlier versions
+ALTER TABLE order_items
+  ADD COLUMN IF NOT EXISTS variant_id UUID DEFAULT NULL,
+  ADD COLUMN IF NOT EXISTS tax_class TEXT NOT NULL DEFAULT 'standard' CHECK (tax_class IN ('standard', 'gst_free')),
+  ADD COLUMN IF NOT EXISTS tax_amount NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (tax_amount >= 0);
+
+CREATE INDEX IF NOT EXISTS idx_order_items_order_id ON order_items(order_id);
+
+-- ============================================
+-- Order Status History
+-- (one row per status change, written by place_order/set_order_status)
+-- ============================================
+CREATE TABLE IF NOT EXISTS order_status_history (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  from_status TEXT DEFAULT NULL,
+  to_status TEXT NOT NULL,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_by_email TEXT DEFAULT NULL,
+  note TEXT DEFAULT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order_id
+  ON order_status_history(order_id, created_at);
+
+-- ============================================
+-- Refunds
+-- (amounts are calculated by the app, see lib/refunds.ts; written only by
+-- cancel_order/create_refund)
+-- ============================================
+CREATE TABLE IF NOT EXISTS refunds (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  reason TEXT DEFAULT NULL,
+  items_amount NUMERIC(10, 2) NOT NULL CHECK (items_amount >= 0),
+  tax_amount NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (tax_amount >= 0),
+  shipping_amount NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (shipping_amount >= 0),
+  total NUMERIC(10, 2) NOT NULL CHECK (total >= 0),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_by_email TEXT DEFAULT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_refunds_order_id ON refunds(order_id);
+
+CREATE TABLE IF NOT EXISTS refund_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  refund_id UUID NOT NULL REFERENCES refunds(id) ON DELETE CASCADE,
+  order_item_id UUID NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_refund_items_refund_id ON refund_items(refund_id);
+CREATE INDEX IF NOT EXISTS idx_refund_items_order_item_id ON refund_items(order_item_id);
+
+-- ============================================
+-- Payment Events
+-- (webhook events already processed, so gateway retries are ignored)
+-- ============================================
+CREATE TABLE IF NOT EXISTS payment_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  provider TEXT NOT NULL,
+  event_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  payload JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (provider, event_id)
+);
+
+-- ============================================
+-- Promo Codes Table
+-- (Maps to Neto's Marketing → Discount Coupons)
+-- ============================================
+CREATE TABLE IF NOT EXISTS promo_codes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  code TEXT NOT NULL UNIQUE CHECK (code = UPPER(TRIM(code)) AND code <> ''),
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+  discount_value NUMERIC(10, 2) NOT NULL CHECK (
+    discount_value > 0 AND (discount_type = 'fixed' OR discount_value <= 100)
+  ),
+  min_order_amount NUMERIC(10, 2) DEFAULT NULL CHECK (min_order_amount IS NULL OR min_order_amount >= 0),
+  max_uses INTEGER DEFAULT NULL CHECK (max_uses IS NULL OR max_uses > 0),
+  max_uses_per_customer INTEGER DEFAULT NULL CHECK (max_uses_per_customer IS NULL OR max_uses_per_customer > 0),
+  current_uses INTEGER NOT NULL DEFAULT 0 CHECK (current_uses >= 0),
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  expires_at TIMESTAMPTZ DEFAULT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ============================================
+-- Promo Code Redemptions Table
+-- (One row per order that used a code; drives per-customer limits)
+-- ============================================
+CREATE TABLE IF NOT EXISTS promo_code_redemptions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  promo_code_id UUID NOT NULL REFERENCES promo_codes(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_promo_code_redemptions_lookup
+  ON promo_code_redemptions(promo_code_id, user_id);
+
+-- ============================================
+-- Quantity Breaks Table
+-- (Maps to Neto's quantity break pricing; a row applies to one product,
+-- or to a whole category when the product has no breaks of its own)
+-- ============================================
+CREATE TABLE IF NOT EXISTS quantity_breaks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  product_id UUID REFERENCES products(id) ON DELETE CASCADE,
+  category TEXT,
+  min_quantity INTEGER NOT NULL CHECK (min_quantity >= 2),
+  discount_percentage NUMERIC(5, 2) NOT NULL CHECK (discount_percentage > 0 AND discount_percentage <= 100),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK ((product_id IS NULL) <> (category IS NULL)),
+  UNIQUE (product_id, min_quantity),
+  UNIQUE (category, min_quantity)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quantity_breaks_product ON quantity_breaks(product_id);
+CREATE INDEX IF NOT EXISTS idx_quantity_breaks_category ON quantity_breaks(category);
+
+-- ============================================
+-- Category Tax Classes Table
+-- (Maps to Neto's tax classes; a product's own tax_class wins, and
+-- categories without a row are taxed at the standard rate)
+-- ============================================
+CREATE TABLE IF NOT EXISTS category_tax_classes (
+  category TEXT PRIMARY KEY,
+  tax_class TEXT NOT NULL CHECK (tax_class IN ('standard', 'gst_free'))
+);
+
+-- ============================================
+-- Customer Groups Table
+-- (Maps to Neto's customer groups: Retail, Wholesale, VIP, Staff)
+-- ============================================
+CREATE TABLE IF NOT EXISTS customer_groups (
+  id TEXT PRIMARY KEY CHECK (id IN ('retail', 'wholesale', 'vip', 'staff')),
+  name TEXT NOT NULL,
+  discount_percentage NUMERIC(5, 2) NOT NULL DEFAULT 0 CHECK (discount_percentage >= 0 AND discount_percentage <= 100)
+);
+
+-- ============================================
+-- Profiles Table
+-- (One row per auth user; created by the on_auth_user_created trigger)
+-- ============================================
+CREATE TABLE IF NOT EXISTS profiles (
+  id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'customer' CHECK (role IN ('admin', 'staff', 'customer')),
+  customer_group TEXT NOT NULL DEFAULT 'retail' REFERENCES customer_groups(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Upgrade a profiles table from earlier versions
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'customer' CHECK (role IN ('admin', 'staff', 'customer'));
+
+-- ============================================
+-- Addresses Table
+-- (Maps to Neto's customer address book; validated by lib/addresses.ts)
+-- ============================================
+CREATE TABLE IF NOT EXISTS addresses (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  full_name TEXT NOT NULL,
+  company TEXT DEFAULT NULL,
+  line1 TEXT NOT NULL,
+  line2 TEXT DEFAULT NULL,
+  suburb TEXT NOT NULL,
+  state TEXT NOT NULL DEFAULT '',
+  postcode TEXT NOT NULL CHECK (postcode ~ '^[0-9]{4}$'),
+  country TEXT NOT NULL DEFAULT 'AU' CHECK (country IN ('AU', 'NZ')),
+  phone TEXT DEFAULT NULL,
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (
+    country <> 'AU' OR state IN ('ACT', 'NSW', 'NT', 'QLD', 'SA', 'TAS', 'VIC', 'WA')
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_addresses_user_id ON addresses(user_id);
+
+-- At most one default address per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_addresses_one_default
+  ON addresses(user_id) WHERE is_default;
+
+-- ============================================
+-- Product Group Prices Table
+-- (Explicit per-product unit price for a customer group; overrides the
+-- group's discount percentage for that product)
+-- ============================================
+CREATE TABLE IF NOT EXISTS product_group_prices (
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  customer_group TEXT NOT NULL REFERENCES customer_groups(id) ON DELETE CASCADE,
+  price NUMERIC(10, 2) NOT NULL CHECK (price >= 0),
+  PRIMARY KEY (product_id, customer_group)
+);
+
+-- ============================================
+-- Store Settings Table
+-- (Single row of pricing rules; mirrors the `pricing` block of
+-- neto-theme-simulator/config/settings.json)
+-- ============================================
+CREATE TABLE IF NOT EXISTS store_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+  bulk_discount_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  bulk_discount_threshold INTEGER NOT NULL DEFAULT 3 CHECK (bulk_discount_threshold > 0),
+  bulk_discount_percentage NUMERIC(5, 2) NOT NULL DEFAULT 10 CHECK (bulk_discount_percentage >= 0 AND bulk_discount_percentage <= 100),
+  member_discount_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  member_discount_percentage NUMERIC(5, 2) NOT NULL DEFAULT 5 CHECK (member_discount_percentage >= 0 AND member_discount_percentage <= 100),
+  free_shipping_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  free_shipping_threshold NUMERIC(10, 2) NOT NULL DEFAULT 1000 CHECK (free_shipping_threshold >= 0),
+  standard_shipping_cost NUMERIC(10, 2) NOT NULL DEFAULT 15 CHECK (standard_shipping_cost >= 0),
+  tax_rate NUMERIC(5, 2) NOT NULL DEFAULT 10 CHECK (tax_rate >= 0 AND tax_rate <= 100),
+  tax_inclusive BOOLEAN NOT NULL DEFAULT FALSE,
+  currency TEXT NOT NULL DEFAULT 'AUD',
+  currency_symbol TEXT NOT NULL DEFAULT '$',
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ============================================
+-- Exchange Rates Table
+-- (Maps to Neto's multi-currency display; prices are stored and charged in
+-- the base currency and only converted for display)
+-- ============================================
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  currency TEXT PRIMARY KEY CHECK (currency ~ '^[A-Z]{3}$'),
+  rate NUMERIC(14, 6) NOT NULL CHECK (rate > 0), -- Units per 1 base currency unit
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ============================================
+-- Shipping Zones Table
+-- (Maps to Neto's shipping zones; a zone covers a postcode range in a
+-- country, or the whole country when it has no range)
+-- ============================================
+CREATE TABLE IF NOT EXISTS shipping_zones (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  country TEXT NOT NULL CHECK (country IN ('AU', 'NZ')),
+  postcode_from INTEGER DEFAULT NULL,
+  postcode_to INTEGER DEFAULT NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0, -- Breaks ties between overlapping ranges
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK ((postcode_from IS NULL) = (postcode_to IS NULL)),
+  CHECK (postcode_from IS NULL OR postcode_from <= postcode_to),
+  UNIQUE (name)
+);
+
+-- ============================================
+-- Shipping Rates Table
+-- (Maps to Neto's shipping rate tables: one row per zone, service level and
+-- weight (kg) or item-count bracket; max_value is exclusive, NULL = no limit)
+-- ============================================
+CREATE TABLE IF NOT EXISTS shipping_rates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  zone_id UUID NOT NULL REFERENCES shipping_zones(id) ON DELETE CASCADE,
+  method TEXT NOT NULL CHECK (method IN ('standard', 'express', 'pickup')),
+  basis TEXT NOT NULL CHECK (basis IN ('weight', 'items')),
+  min_value NUMERIC(10, 3) NOT NULL DEFAULT 0 CHECK (min_value >= 0),
+  max_value NUMERIC(10, 3) DEFAULT NULL CHECK (max_value IS NULL OR max_value > min_value),
+  cost NUMERIC(10, 2) NOT NULL CHECK (cost >= 0),
+  estimated_days TEXT DEFAULT NULL,
+  UNIQUE (zone_id, method, min_value)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipping_rates_zone_id ON shipping_rates(zone_id);
+
+-- ============================================
+-- Roles
+-- (profiles.role is the only source of roles: RLS reads it through
+-- current_user_role(), the app through services/customer-service.ts)
+-- ============================================
+
+-- Replaced by current_user_role() reading profiles directly
+DROP FUNCTION IF EXISTS custom_access_token_hook(JSONB);
+
+-- The caller's role (customer when signed out or without a profile), for
+-- RLS. SECURITY DEFINER so policies on profiles don't apply to the lookup.
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT role FROM profiles WHERE id = auth.uid()),
+    'customer'
+  );
+$$;
+
+-- ============================================
+-- Guest Carts
+-- ============================================
+
+-- The guest cart the API is acting for. The server only sends the
+-- x-guest-cart-id header after verifying the cookie's signature.
+CREATE OR REPLACE FUNCTION request_guest_cart_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT NULLIF(
+    current_setting('request.headers', true)::JSON ->> 'x-guest-cart-id',
+    ''
+  )::UUID;
+$$;
+
 -- ============================================
 -- Row Level Security (RLS) Policies
 -- ============================================
 
+-- Policies from earlier versions of this schema (some let any signed-in
+-- user write to the catalog or orders). Together with the ALTER TABLE
+-- statements after each table, dropping these lets re-running this script
+-- upgrade an existing database.
+DROP POLICY IF EXISTS "Users can insert own order items" ON order_items;
+DROP POLICY IF EXISTS "Users can delete own pending orders" ON orders;
+DROP POLICY IF EXISTS "Users can insert own orders" ON orders;
+DROP POLICY IF EXISTS "Authenticated users can delete product variants" ON product_variants;
+DROP POLICY IF EXISTS "Authenticated users can insert product variants" ON product_variants;
+DROP POLICY IF EXISTS "Authenticated users can update product variants" ON product_variants;
+DROP POLICY IF EXISTS "Authenticated users can delete products" ON products;
+DROP POLICY IF EXISTS "Authenticated users can insert products" ON products;
+DROP POLICY IF EXISTS "Authenticated users can update products" ON products;
+DROP POLICY IF EXISTS "Authenticated users can delete promo codes" ON promo_codes;
+DROP POLICY IF EXISTS "Authenticated users can insert promo codes" ON promo_codes;
+DROP POLICY IF EXISTS "Authenticated users can update promo codes" ON promo_codes;
+DROP POLICY IF EXISTS "Authenticated users can view promo codes" ON promo_codes;
+DROP POLICY IF EXISTS "Authenticated users can delete quantity breaks" ON quantity_breaks;
+DROP POLICY IF EXISTS "Authenticated users can insert quantity breaks" ON quantity_breaks;
+DROP POLICY IF EXISTS "Authenticated users can update quantity breaks" ON quantity_breaks;
+DROP POLICY IF EXISTS "Authenticated users can update store settings" ON store_settings;
+
 -- Enable RLS on products
 ALTER TABLE products ENABLE ROW LEVEL SECURITY;
 
 -- Anyone can read products
+DROP POLICY IF EXISTS "Products are viewable by everyone" ON products;
 CREATE POLICY "Products are viewable by everyone"
   ON products FOR SELECT
   USING (true);
 
--- Only authenticated users can insert/update/delete products (admin simulation)
-CREATE POLICY "Authenticated users can insert products"
+-- Only admins and staff can insert/update/delete products
+DROP POLICY IF EXISTS "Admins and staff can insert products" ON products;
+CREATE POLICY "Admins and staff can insert products"
   ON products FOR INSERT
   TO authenticated
-  WITH CHECK (true);
+  WITH CHECK (current_user_role() IN ('admin', 'staff'));
 
-CREATE POLICY "Authenticated users can update products"
+DROP POLICY IF EXISTS "Admins and staff can update products" ON products;
+CREATE POLICY "Admins and staff can update products"
   ON products FOR UPDATE
   TO authenticated
-  USING (true)
-  WITH CHECK (true);
+  USING (current_user_role() IN ('admin', 'staff'))
+  WITH CHECK (current_user_role() IN ('admin', 'staff'));
 
-CREATE POLICY "Authenticated users can delete products"
+DROP POLICY IF EXISTS "Admins and staff can delete products" ON products;
+CREATE POLICY "Admins and staff can delete products"
   ON products FOR DELETE
   TO authenticated
+  USING (current_user_role() IN ('admin', 'staff'));
+
+-- Enable RLS on product_variants
+ALTER TABLE product_variants ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can read variants; admins and staff can manage them
+DROP POLICY IF EXISTS "Product variants are viewable by everyone" ON product_variants;
+CREATE POLICY "Product variants are viewable by everyone"
+  ON product_variants FOR SELECT
   USING (true);
 
+DROP POLICY IF EXISTS "Admins and staff can insert product variants" ON product_variants;
+CREATE POLICY "Admins and staff can insert product variants"
+  ON product_variants FOR INSERT
+  TO authenticated
+  WITH CHECK (current_user_role() IN ('admin', 'staff'));
+
+DROP POLICY IF EXISTS "Admins and staff can update product variants" ON product_variants;
+CREATE POLICY "Admins and staff can update product variants"
+  ON product_variants FOR UPDATE
+  TO authenticated
+  USING (current_user_role() IN ('admin', 'staff'))
+  WITH CHECK (current_user_role() IN ('admin', 'staff'));
+
+DROP POLICY IF EXISTS "Admins and staff can delete product variants" ON product_variants;
+CREATE POLICY "Admins and staff can delete product variants"
+  ON product_variants FOR DELETE
+  TO authenticated
+  USING (current_user_role() IN ('admin', 'staff'));
+
 -- Enable RLS on cart_items
 ALTER TABLE cart_items ENABLE ROW LEVEL SECURITY;
 
 -- Users can only access their own cart items
+DROP POLICY IF EXISTS "Users can view own cart items" ON cart_items;
 CREATE POLICY "Users can view own cart items"
   ON cart_items FOR SELECT
   TO authenticated
   USING (auth.uid() = user_id);
 
+DROP POLICY IF EXISTS "Users can insert own cart items" ON cart_items;
 CREATE POLICY "Users can insert own cart items"
   ON cart_items FOR INSERT
   TO authenticated
   WITH CHECK (auth.uid() = user_id);
 
+DROP POLICY IF EXISTS "Users can update own cart items" ON cart_items;
 CREATE POLICY "Users can update own cart items"
   ON cart_items FOR UPDATE
   TO authenticated
   USING (auth.uid() = user_id)
   WITH CHECK (auth.uid() = user_id);
 
+DROP POLICY IF EXISTS "Users can delete own cart items" ON cart_items;
 CREATE POLICY "Users can delete own cart items"
   ON cart_items FOR DELETE
   TO authenticated
   USING (auth.uid() = user_id);
 
+-- Guests can only access the cart named by their (verified) cookie
+DROP POLICY IF EXISTS "Guests can view own cart items" ON cart_items;
+CREATE POLICY "Guests can view own cart items"
+  ON cart_items FOR SELECT
+  TO anon, authenticated
+  USING (guest_cart_id = request_guest_cart_id());
+
+DROP POLICY IF EXISTS "Guests can insert own cart items" ON cart_items;
+CREATE POLICY "Guests can insert own cart items"
+  ON cart_items FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (user_id IS NULL AND guest_cart_id = request_guest_cart_id());
+
+DROP POLICY IF EXISTS "Guests can update own cart items" ON cart_items;
+CREATE POLICY "Guests can update own cart items"
+  ON cart_items FOR UPDATE
+  TO anon, authenticated
+  USING (guest_cart_id = request_guest_cart_id())
+  WITH CHECK (user_id IS NULL AND guest_cart_id = request_guest_cart_id());
+
+DROP POLICY IF EXISTS "Guests can delete own cart items" ON cart_items;
+CREATE POLICY "Guests can delete own cart items"
+  ON cart_items FOR DELETE
+  TO anon, authenticated
+  USING (guest_cart_id = request_guest_cart_id());
+
+-- Enable RLS on orders
+ALTER TABLE orders ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see and place their own orders
+DROP POLICY IF EXISTS "Users can view own orders" ON orders;
+CREATE POLICY "Users can view own orders"
+  ON orders FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins and staff can view all orders" ON orders;
+CREATE POLICY "Admins and staff can view all orders"
+  ON orders FOR SELECT
+  TO authenticated
+  USING (current_user_role() IN ('admin', 'staff'));
+
+-- Orders are only written through place_order() and set_order_status()
+-- below, never directly, so there are no INSERT/UPDATE/DELETE policies.
+
+-- Enable RLS on order_items
+ALTER TABLE order_items ENABLE ROW LEVEL SECURITY;
+
+-- Order items inherit access from their parent order
+DROP POLICY IF EXISTS "Users can view own order items" ON order_items;
+CREATE POLICY "Users can view own order items"
+  ON order_items FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_items.order_id
+        AND orders.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins and staff can view all order items" ON order_items;
+CREATE POLICY "Admins and staff can view all order items"
+  ON order_items FOR SELECT
+  TO authenticated
+  USING (current_user_role() IN ('admin', 'staff'));
+
+-- Enable RLS on order_status_history (written only by the order functions)
+ALTER TABLE order_status_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own order status history" ON order_status_history;
+CREATE POLICY "Users can view own order status history"
+  ON order_status_history FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_status_history.order_id
+        AND orders.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins and staff can view all order status history" ON order_status_history;
+CREATE POLICY "Admins and staff can view all order status history"
+  ON order_status_history FOR SELECT
+  TO authenticated
+  USING (current_user_role() IN ('admin', 'staff'));
+
+-- Enable RLS on payment_events (no policies: only the service role reads
+-- and writes it)
+ALTER TABLE payment_events ENABLE ROW LEVEL SECURITY;
+
+-- Enable RLS on refunds and refund_items (written only by the order functions)
+ALTER TABLE refunds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE refund_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own refunds" ON refunds;
+CREATE POLICY "Users can view own refunds"
+  ON refunds FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = refunds.order_id
+        AND orders.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins and staff can view all refunds" ON refunds;
+CREATE POLICY "Admins and staff can view all refunds"
+  ON refunds FOR SELECT
+  TO authenticated
+  USING (current_user_role() IN ('admin', 'staff'));
+
+DROP POLICY IF EXISTS "Users can view own refund items" ON refund_items;
+CREATE POLICY "Users can view own refund items"
+  ON refund_items FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM refunds
+      JOIN orders ON orders.id = refunds.order_id
+      WHERE refunds.id = refund_items.refund_id
+        AND orders.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins and staff can view all refund items" ON refund_items;
+CREATE POLICY "Admins and staff can view all refund items"
+  ON refund_items FOR SELECT
+  TO authenticated
+  USING (current_user_role() IN ('admin', 'staff'));
+
+-- Enable RLS on promo_codes
+ALTER TABLE promo_codes ENABLE ROW LEVEL SECURITY;
+
+-- Only admins can list or manage promo codes.
+-- Shoppers check a single code through lookup_promo_code() instead.
+DROP POLICY IF EXISTS "Admins can view promo codes" ON promo_codes;
+CREATE POLICY "Admins can view promo codes"
+  ON promo_codes FOR SELECT
+  TO authenticated
+  USING (current_user_role() = 'admin');
+
+DROP POLICY IF EXISTS "Admins can insert promo codes" ON promo_codes;
+CREATE POLICY "Admins can insert promo codes"
+  ON promo_codes FOR INSERT
+  TO authenticated
+  WITH CHECK (current_user_role() = 'admin');
+
+DROP POLICY IF EXISTS "Admins can update promo codes" ON promo_codes;
+CREATE POLICY "Admins can update promo codes"
+  ON promo_codes FOR UPDATE
+  TO authenticated
+  USING (current_user_role() = 'admin')
+  WITH CHECK (current_user_role() = 'admin');
+
+DROP POLICY IF EXISTS "Admins can delete promo codes" ON promo_codes;
+CREATE POLICY "Admins can delete promo codes"
+  ON promo_codes FOR DELETE
+  TO authenticated
+  USING (current_user_role() = 'admin');
+
+-- Enable RLS on promo_code_redemptions (written only by place_order())
+ALTER TABLE promo_code_redemptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own promo code redemptions" ON promo_code_redemptions;
+CREATE POLICY "Users can view own promo code redemptions"
+  ON promo_code_redemptions FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Enable RLS on quantity_breaks
+ALTER TABLE quantity_breaks ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can read quantity breaks (the storefront prices with them)
+DROP POLICY IF EXISTS "Quantity breaks are viewable by everyone" ON quantity_breaks;
+CREATE POLICY "Quantity breaks are viewable by everyone"
+  ON quantity_breaks FOR SELECT
+  USING (true);
+
+-- Only admins and staff can manage quantity breaks
+DROP POLICY IF EXISTS "Admins and staff can insert quantity breaks" ON quantity_breaks;
+CREATE POLICY "Admins and staff can insert quantity breaks"
+  ON quantity_breaks FOR INSERT
+  TO authenticated
+  WITH CHECK (current_user_role() IN ('admin', 'staff'));
+
+DROP POLICY IF EXISTS "Admins and staff can update quantity breaks" ON quantity_breaks;
+CREATE POLICY "Admins and staff can update quantity breaks"
+  ON quantity_breaks FOR UPDATE
+  TO authenticated
+  USING (current_user_role() IN ('admin', 'staff'))
+  WITH CHECK (current_user_role() IN ('admin', 'staff'));
+
+DROP POLICY IF EXISTS "Admins and staff can delete quantity breaks" ON quantity_breaks;
+CREATE POLICY "Admins and staff can delete quantity breaks"
+  ON quantity_breaks FOR DELETE
+  TO authenticated
+  USING (current_user_role() IN ('admin', 'staff'));
+
+-- Enable RLS on category_tax_classes
+ALTER TABLE category_tax_classes ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can read tax classes (the storefront prices with them)
+DROP POLICY IF EXISTS "Category tax classes are viewable by everyone" ON category_tax_classes;
+CREATE POLICY "Category tax classes are viewable by everyone"
+  ON category_tax_classes FOR SELECT
+  USING (true);
+
+-- Only admins can change how categories are taxed
+DROP POLICY IF EXISTS "Admins can insert category tax classes" ON category_tax_classes;
+CREATE POLICY "Admins can insert category tax classes"
+  ON category_tax_classes FOR INSERT
+  TO authenticated
+  WITH CHECK (current_user_role() = 'admin');
+
+DROP POLICY IF EXISTS "Admins can update category tax classes" ON category_tax_classes;
+CREATE POLICY "Admins can update category tax classes"
+  ON category_tax_classes FOR UPDATE
+  TO authenticated
+  USING (current_user_role() = 'admin')
+  WITH CHECK (current_user_role() = 'admin');
+
+DROP POLICY IF EXISTS "Admins can delete category tax classes" ON category_tax_classes;
+CREATE POLICY "Admins can delete category tax classes"
+  ON category_tax_classes FOR DELETE
+  TO authenticated
+  USING (current_user_role() = 'admin');
+
+-- Enable RLS on exchange_rates
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can read exchange rates (the storefront converts prices with them)
+DROP POLICY IF EXISTS "Exchange rates are viewable by everyone" ON exchange_rates;
+CREATE POLICY "Exchange rates are viewable by everyone"
+  ON exchange_rates FOR SELECT
+  USING (true);
+
+-- Only admins can maintain exchange rates
+DROP POLICY IF EXISTS "Admins can insert exchange rates" ON exchange_rates;
+CREATE POLICY "Admins can insert exchange rates"
+  ON exchange_rates FOR INSERT
+  TO authenticated
+  WITH CHECK (current_user_role() = 'admin');
+
+DROP POLICY IF EXISTS "Admins can update exchange rates" ON exchange_rates;
+CREATE POLICY "Admins can update exchange rates"
+  ON exchange_rates FOR UPDATE
+  TO authenticated
+  USING (current_user_role() = 'admin')
+  WITH CHECK (current_user_role() = 'admin');
+
+DROP POLICY IF EXISTS "Admins can delete exchange rates" ON exchange_rates;
+CREATE POLICY "Admins can delete exchange rates"
+  ON exchange_rates FOR DELETE
+  TO authenticated
+  USING (current_user_role() = 'admin');
+
+-- Enable RLS on customer_groups
+ALTER TABLE customer_groups ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can read customer groups (names and discount rates)
+DROP POLICY IF EXISTS "Customer groups are viewable by everyone" ON customer_groups;
+CREATE POLICY "Customer groups are viewable by everyone"
+  ON customer_groups FOR SELECT
+  USING (true);
+
+-- Enable RLS on profiles
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+
+-- Users can see their own profile. Role and group changes are made by the
+-- store (SQL editor / service role), so there is no UPDATE policy for clients.
+DROP POLICY IF EXISTS "Users can view own profile" ON profiles;
+CREATE POLICY "Users can view own profile"
+  ON profiles FOR SELECT
+  TO authenticated
+  USING (auth.uid() = id);
+
+DROP POLICY IF EXISTS "Auth admin can read profiles" ON profiles;
+
+-- Enable RLS on addresses
+ALTER TABLE addresses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own addresses" ON addresses;
+CREATE POLICY "Users can view own addresses"
+  ON addresses FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own addresses" ON addresses;
+CREATE POLICY "Users can insert own addresses"
+  ON addresses FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own addresses" ON addresses;
+CREATE POLICY "Users can update own addresses"
+  ON addresses FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own addresses" ON addresses;
+CREATE POLICY "Users can delete own addresses"
+  ON addresses FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Enable RLS on product_group_prices
+ALTER TABLE product_group_prices ENABLE ROW LEVEL SECURITY;
+
+-- Customers only see the explicit prices for their own group
+DROP POLICY IF EXISTS "Users can view own group prices" ON product_group_prices;
+CREATE POLICY "Users can view own group prices"
+  ON product_group_prices FOR SELECT
+  TO authenticated
+  USING (
+    customer_group = (
+      SELECT profiles.customer_group FROM profiles
+      WHERE profiles.id = auth.uid()
+    )
+  );
+
+-- Enable RLS on store_settings
+ALTER TABLE store_settings ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can read the pricing rules (the storefront prices with them)
+DROP POLICY IF EXISTS "Store settings are viewable by everyone" ON store_settings;
+CREATE POLICY "Store settings are viewable by everyone"
+  ON store_settings FOR SELECT
+  USING (true);
+
+-- Only admins can change the rules
+DROP POLICY IF EXISTS "Admins can update store settings" ON store_settings;
+CREATE POLICY "Admins can update store settings"
+  ON store_settings FOR UPDATE
+  TO authenticated
+  USING (current_user_role() = 'admin')
+  WITH CHECK (current_user_role() = 'admin');
+
+-- Enable RLS on shipping_zones and shipping_rates
+ALTER TABLE shipping_zones ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shipping_rates ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can read shipping zones and rates (checkout quotes with them)
+DROP POLICY IF EXISTS "Shipping zones are viewable by everyone" ON shipping_zones;
+CREATE POLICY "Shipping zones are viewable by everyone"
+  ON shipping_zones FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Shipping rates are viewable by everyone" ON shipping_rates;
+CREATE POLICY "Shipping rates are viewable by everyone"
+  ON shipping_rates FOR SELECT
+  USING (true);
+
+-- Only admins can change shipping zones and rates
+DROP POLICY IF EXISTS "Admins can insert shipping zones" ON shipping_zones;
+CREATE POLICY "Admins can insert shipping zones"
+  ON shipping_zones FOR INSERT
+  TO authenticated
+  WITH CHECK (current_user_role() = 'admin');
+
+DROP POLICY IF EXISTS "Admins can update shipping zones" ON shipping_zones;
+CREATE POLICY "Admins can update shipping zones"
+  ON shipping_zones FOR UPDATE
+  TO authenticated
+  USING (current_user_role() = 'admin')
+  WITH CHECK (current_user_role() = 'admin');
+
+DROP POLICY IF EXISTS "Admins can delete shipping zones" ON shipping_zones;
+CREATE POLICY "Admins can delete shipping zones"
+  ON shipping_zones FOR DELETE
+  TO authenticated
+  USING (current_user_role() = 'admin');
+
+DROP POLICY IF EXISTS "Admins can insert shipping rates" ON shipping_rates;
+CREATE POLICY "Admins can insert shipping rates"
+  ON shipping_rates FOR INSERT
+  TO authenticated
+  WITH CHECK (current_user_role() = 'admin');
+
+DROP POLICY IF EXISTS "Admins can update shipping rates" ON shipping_rates;
+CREATE POLICY "Admins can update shipping rates"
+  ON shipping_rates FOR UPDATE
+  TO authenticated
+  USING (current_user_role() = 'admin')
+  WITH CHECK (current_user_role() = 'admin');
+
+DROP POLICY IF EXISTS "Admins can delete shipping rates" ON shipping_rates;
+CREATE POLICY "Admins can delete shipping rates"
+  ON shipping_rates FOR DELETE
+  TO authenticated
+  USING (current_user_role() = 'admin');
+
+-- ============================================
+-- Variant Stock Sync
+-- ============================================
+
+-- Keeps products.stock equal to the total stock of the product's variants,
+-- so listings and badges stay correct for products sold by variant.
+CREATE OR REPLACE FUNCTION sync_product_stock_from_variants()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product_id UUID := COALESCE(NEW.product_id, OLD.product_id);
+BEGIN
+  UPDATE products
+  SET stock = totals.stock
+  FROM (
+    SELECT SUM(stock) AS stock
+    FROM product_variants
+    WHERE product_id = v_product_id
+  ) AS totals
+  WHERE products.id = v_product_id
+    AND totals.stock IS NOT NULL;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_product_variant_stock_change ON product_variants;
+CREATE TRIGGER on_product_variant_stock_change
+  AFTER INSERT OR UPDATE OF stock OR DELETE ON product_variants
+  FOR EACH ROW EXECUTE FUNCTION sync_product_stock_from_variants();
+
+-- ============================================
+-- Profile Creation
+-- ============================================
+
+-- Every new user starts in the Retail group
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO profiles (id) VALUES (NEW.id)
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION handle_new_user();
+
+-- ============================================
+-- Promo Code Lookup
+-- ============================================
+
+-- Returns { "promo": <promo_codes row or null>, "customer_uses": n } for a
+-- single code, where customer_uses counts the caller's past redemptions.
+CREATE OR REPLACE FUNCTION lookup_promo_code(p_code TEXT)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'promo', (
+      SELECT to_jsonb(promo_codes)
+      FROM promo_codes
+      WHERE code = UPPER(TRIM(p_code))
+    ),
+    'customer_uses', (
+      SELECT COUNT(*)
+      FROM promo_code_redemptions
+      JOIN promo_codes ON promo_codes.id = promo_code_redemptions.promo_code_id
+      WHERE promo_codes.code = UPPER(TRIM(p_code))
+        AND promo_code_redemptions.user_id = auth.uid()
+    )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION lookup_promo_code(TEXT) TO anon, authenticated;
+
+-- ============================================
+-- Product Search
+-- ============================================
+
+-- Whether a product passes the listing filters in p_filters:
+--   { category, min_price, max_price, in_stock, on_sale, min_discount }
+-- (all optional; prices are the base price). p_ignore skips one filter
+-- ('category', 'price', 'in_stock' or 'discount'), for facet counts that
+-- show what choosing another value of that filter would give.
+CREATE OR REPLACE FUNCTION product_matches_filters(
+  p_product products,
+  p_filters JSONB,
+  p_ignore TEXT DEFAULT ''
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    (p_ignore = 'category'
+      OR p_filters->>'category' IS NULL
+      OR p_product.category = p_filters->>'category')
+    AND (p_ignore = 'price'
+      OR p_filters->>'min_price' IS NULL
+      OR p_product.price >= (p_filters->>'min_price')::NUMERIC)
+    AND (p_ignore = 'price'
+      OR p_filters->>'max_price' IS NULL
+      OR p_product.price <= (p_filters->>'max_price')::NUMERIC)
+    AND (p_ignore = 'in_stock'
+      OR NOT COALESCE((p_filters->>'in_stock')::BOOLEAN, FALSE)
+      OR p_product.stock > 0)
+    AND (p_ignore = 'discount'
+      OR NOT COALESCE((p_filters->>'on_sale')::BOOLEAN, FALSE)
+      OR COALESCE(p_product.discount_percentage, 0) > 0)
+    AND (p_ignore = 'discount'
+      OR p_filters->>'min_discount' IS NULL
+      OR COALESCE(p_product.discount_percentage, 0)
+        >= (p_filters->>'min_discount')::NUMERIC);
+$$;
+
+-- Ranked, typo-tolerant product search. A product matches when the query's
+-- words match its search_vector (stemmed, so "chairs" finds "chair") or the
+-- query is a close trigram match for a word in its name (so "hedphones"
+-- finds "Headphones"). Runs as the caller, so products' RLS applies.
+--
+-- p_filters: as for product_matches_filters
+-- p_sort: relevance | price_asc | price_desc | newest | name_asc
+--
+-- Returns { "total": n, "results": [{ "product": <products row>,
+--   "rank": r, "name_highlight": text, "snippet": text }] }
+-- where matched words in name_highlight and snippet are wrapped in
+-- U+E000 … U+E001 (see lib/search.ts) rather than HTML.
+CREATE OR REPLACE FUNCTION search_products(
+  p_query TEXT,
+  p_filters JSONB DEFAULT '{}',
+  p_sort TEXT DEFAULT 'relevance',
+  p_limit INTEGER DEFAULT 12,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT
+      websearch_to_tsquery('english', p_query) AS tsquery,
+      TRIM(p_query) AS term,
+      'StartSel=' || CHR(57344) || ', StopSel=' || CHR(57345) AS marks
+  ),
+  matches AS (
+    SELECT
+      products,
+      ts_rank(products.search_vector, query.tsquery)
+        + word_similarity(query.term, products.name) AS rank
+    FROM products, query
+    WHERE product_matches_filters(products, p_filters)
+      AND (
+        products.search_vector @@ query.tsquery
+        OR query.term <% products.name
+      )
+  ),
+  ordered AS (
+    SELECT
+      matches.*,
+      ROW_NUMBER() OVER (
+        ORDER BY
+          CASE WHEN p_sort = 'price_asc' THEN (products).price END ASC,
+          CASE WHEN p_sort = 'price_desc' THEN (products).price END DESC,
+          CASE WHEN p_sort = 'name_asc' THEN (products).name END ASC,
+          CASE WHEN p_sort = 'relevance' THEN rank END DESC,
+          (products).created_at DESC
+      ) AS position
+    FROM matches
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT COUNT(*) FROM matches),
+    'results', COALESCE(
+      (
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'product', to_jsonb(ordered.products) - 'search_vector',
+            'rank', ordered.rank,
+            'name_highlight', ts_headline(
+              'english', (ordered.products).name, query.tsquery,
+              query.marks || ', HighlightAll=true'
+            ),
+            'snippet', ts_headline(
+              'english', (ordered.products).description, query.tsquery,
+              query.marks || ', MaxWords=30, MinWords=12, MaxFragments=2'
+            )
+          )
+          ORDER BY ordered.position
+        )
+        FROM ordered, query
+        WHERE ordered.position > p_offset
+          AND ordered.position <= p_offset + p_limit
+      ),
+      '[]'::jsonb
+    )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION search_products(TEXT, JSONB, TEXT, INTEGER, INTEGER) TO anon, authenticated;
+
+-- Facet counts for the listing filters: for the products matching p_query
+-- (all products when it's empty) and p_filters, how many there would be
+-- with each value of each filter. Each facet is counted with every other
+-- filter applied but not its own, so shoppers can see what switching it
+-- would give. Runs as the caller, so products' RLS applies.
+--
+-- Returns { "total": n,
+--           "categories": [{ "value": category, "count": n }],
+--           "price": { "min": n, "max": n },    -- null bounds when none match
+--           "in_stock": n, "on_sale": n,
+--           "discounts": [{ "min_discount": 10, "count": n }, ...] }
+CREATE OR REPLACE FUNCTION product_facets(
+  p_query TEXT DEFAULT NULL,
+  p_filters JSONB DEFAULT '{}'
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT
+      websearch_to_tsquery('english', COALESCE(p_query, '')) AS tsquery,
+      TRIM(COALESCE(p_query, '')) AS term
+  ),
+  candidates AS (
+    SELECT products
+    FROM products, query
+    WHERE query.term = ''
+      OR products.search_vector @@ query.tsquery
+      OR query.term <% products.name
+  )
+  SELECT jsonb_build_object(
+    'total', (
+      SELECT COUNT(*) FROM candidates
+      WHERE product_matches_filters(products, p_filters)
+    ),
+    'categories', COALESCE(
+      (
+        SELECT jsonb_agg(
+          jsonb_build_object('value', category, 'count', count)
+          ORDER BY category
+        )
+        FROM (
+          SELECT (products).category, COUNT(*) AS count
+          FROM candidates
+          WHERE product_matches_filters(products, p_filters, 'category')
+          GROUP BY (products).category
+        ) AS categories
+      ),
+      '[]'::jsonb
+    ),
+    'price', (
+      SELECT jsonb_build_object(
+        'min', MIN((products).price),
+        'max', MAX((products).price)
+      )
+      FROM candidates
+      WHERE product_matches_filters(products, p_filters, 'price')
+    ),
+    'in_stock', (
+      SELECT COUNT(*) FROM candidates
+      WHERE product_matches_filters(products, p_filters, 'in_stock')
+        AND (products).stock > 0
+    ),
+    'on_sale', (
+      SELECT COUNT(*) FROM candidates
+      WHERE product_matches_filters(products, p_filters, 'discount')
+        AND COALESCE((products).discount_percentage, 0) > 0
+    ),
+    'discounts', (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'min_discount', threshold,
+          'count', (
+            SELECT COUNT(*) FROM candidates
+            WHERE product_matches_filters(products, p_filters, 'discount')
+              AND COALESCE((products).discount_percentage, 0) >= threshold
+          )
+        )
+        ORDER BY threshold
+      )
+      FROM unnest(ARRAY[10, 20, 30, 50]) AS threshold
+    )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION product_facets(TEXT, JSONB) TO anon, authenticated;
+
+-- Search-as-you-type suggestions: products whose name contains the query
+-- or is a close trigram match for it (names starting with it first), and
+-- categories starting with it. Both lookups use the indexes above, so this
+-- stays fast enough to call on every keystroke.
+--
+-- Returns { "products": [{ name, slug, category, image_url }],
+--           "categories": [category, ...] }
+CREATE OR REPLACE FUNCTION search_suggestions(
+  p_query TEXT,
+  p_limit INTEGER DEFAULT 5
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT
+      TRIM(p_query) AS term,
+      -- The term with LIKE wildcards escaped
+      REPLACE(REPLACE(REPLACE(TRIM(p_query), '\', '\\'), '%', '\%'), '_', '\_')
+        AS pattern
+  )
+  SELECT jsonb_build_object(
+    'products', COALESCE(
+      (
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'name', suggestion.name,
+            'slug', suggestion.slug,
+            'category', suggestion.category,
+            'image_url', suggestion.image_url
+          )
+          ORDER BY suggestion.prefix DESC, suggestion.similarity DESC, suggestion.name
+        )
+        FROM (
+          SELECT
+            products.name,
+            products.slug,
+            products.category,
+            products.image_url,
+            products.name ILIKE query.pattern || '%' AS prefix,
+            word_similarity(query.term, products.name) AS similarity
+          FROM products, query
+          WHERE products.name ILIKE '%' || query.pattern || '%'
+            OR query.term <% products.name
+          ORDER BY prefix DESC, similarity DESC, products.name
+          LIMIT p_limit
+        ) AS suggestion
+      ),
+      '[]'::jsonb
+    ),
+    'categories', COALESCE(
+      (
+        SELECT jsonb_agg(category ORDER BY category)
+        FROM (
+          SELECT DISTINCT products.category
+          FROM products, query
+          WHERE products.category ILIKE query.pattern || '%'
+          LIMIT p_limit
+        ) AS categories
+      ),
+      '[]'::jsonb
+    )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION search_suggestions(TEXT, INTEGER) TO anon, authenticated;
+
+-- ============================================
+-- Order Placement (Stock Reservation)
+-- ============================================
+
+-- Creates an order and decrements stock in a single transaction.
+-- Product and variant rows are locked (in id order, to avoid deadlocks)
+-- before stock is checked, so two concurrent checkouts can never both take
+-- the last unit. Lines with a variant_id draw on the variant's stock; other
+-- lines draw on the product's stock.
+--
+-- p_order: { subtotal, discount_total, tax_amount, shipping_cost, total, promo_code }
+-- p_items: [{ product_id, variant_id, product_name, quantity, unit_price,
+--             discount_amount, line_total, variant_options }]
+--
+-- When promo_code is set, its current_uses is incremented under a row lock
+-- (respecting max_uses and max_uses_per_customer) in the same transaction.
+--
+-- The amounts are written as given, so this is only callable with the
+-- service role: the app prices the cart itself (services/order-service.ts)
+-- and passes the signed-in customer's id and email.
+--
+-- Returns { "order_id": uuid } on success, or, without writing anything,
+--         { "insufficient_stock": [product_id, ...],
+--           "insufficient_variant_stock": [variant_id, ...] } or
+--         { "promo_unavailable": true }.
+-- Replaces the earlier place_order(p_order, p_items), which trusted the caller
+DROP FUNCTION IF EXISTS place_order(JSONB, JSONB);
+
+CREATE OR REPLACE FUNCTION place_order(
+  p_user_id UUID,
+  p_customer_email TEXT,
+  p_order JSONB,
+  p_items JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := p_user_id;
+  v_order_id UUID;
+  v_failed UUID[];
+  v_failed_variants UUID[];
+  v_promo_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'A customer is required' USING ERRCODE = '22004';
+  END IF;
+
+  PERFORM 1
+  FROM products
+  WHERE id IN (
+    SELECT (item->>'product_id')::UUID FROM jsonb_array_elements(p_items) AS item
+  )
+  ORDER BY id
+  FOR UPDATE;
+
+  PERFORM 1
+  FROM product_variants
+  WHERE id IN (
+    SELECT (item->>'variant_id')::UUID FROM jsonb_array_elements(p_items) AS item
+    WHERE item->>'variant_id' IS NOT NULL
+  )
+  ORDER BY id
+  FOR UPDATE;
+
+  WITH requested AS (
+    SELECT (item->>'product_id')::UUID AS product_id,
+           SUM((item->>'quantity')::INTEGER) AS quantity
+    FROM jsonb_array_elements(p_items) AS item
+    WHERE item->>'variant_id' IS NULL
+    GROUP BY 1
+  )
+  SELECT COALESCE(array_agg(requested.product_id), '{}')
+  INTO v_failed
+  FROM requested
+  LEFT JOIN products ON products.id = requested.product_id
+  WHERE products.id IS NULL OR products.stock < requested.quantity;
+
+  WITH requested AS (
+    SELECT (item->>'variant_id')::UUID AS variant_id,
+           (item->>'product_id')::UUID AS product_id,
+           SUM((item->>'quantity')::INTEGER) AS quantity
+    FROM jsonb_array_elements(p_items) AS item
+    WHERE item->>'variant_id' IS NOT NULL
+    GROUP BY 1, 2
+  )
+  SELECT COALESCE(array_agg(requested.variant_id), '{}')
+  INTO v_failed_variants
+  FROM requested
+  LEFT JOIN product_variants
+    ON product_variants.id = requested.variant_id
+   AND product_variants.product_id = requested.product_id
+  WHERE product_variants.id IS NULL
+     OR product_variants.stock < requested.quantity;
+
+  IF array_length(v_failed, 1) > 0 OR array_length(v_failed_variants, 1) > 0 THEN
+    RETURN jsonb_build_object(
+      'insufficient_stock', to_jsonb(v_failed),
+      'insufficient_variant_stock', to_jsonb(v_failed_variants)
+    );
+  END IF;
+
+  IF p_order->>'promo_code' IS NOT NULL THEN
+    UPDATE promo_codes
+    SET current_uses = current_uses + 1
+    WHERE code = p_order->>'promo_code'
+      AND active
+      AND (expires_at IS NULL OR expires_at > NOW())
+      AND (max_uses IS NULL OR current_uses < max_uses)
+      AND (
+        max_uses_per_customer IS NULL
+        OR (
+          SELECT COUNT(*)
+          FROM promo_code_redemptions
+          WHERE promo_code_redemptions.promo_code_id = promo_codes.id
+            AND promo_code_redemptions.user_id = v_user_id
+        ) < max_uses_per_customer
+      )
+    RETURNING id INTO v_promo_id;
+
+    IF v_promo_id IS NULL THEN
+      RETURN jsonb_build_object('promo_unavailable', true);
+    END IF;
+  END IF;
+
+  WITH requested AS (
+    SELECT (item->>'product_id')::UUID AS product_id,
+           SUM((item->>'quantity')::INTEGER) AS quantity
+    FROM jsonb_array_elements(p_items) AS item
+    WHERE item->>'variant_id' IS NULL
+    GROUP BY 1
+  )
+  UPDATE products
+  SET stock = products.stock - requested.quantity
+  FROM requested
+  WHERE products.id = requested.product_id;
+
+  -- Variant decrements also update products.stock via the sync trigger
+  WITH requested AS (
+    SELECT (item->>'variant_id')::UUID AS variant_id,
+           SUM((item->>'quantity')::INTEGER) AS quantity
+    FROM jsonb_array_elements(p_items) AS item
+    WHERE item->>'variant_id' IS NOT NULL
+    GROUP BY 1
+  )
+  UPDATE product_variants
+  SET stock = product_variants.stock - requested.quantity
+  FROM requested
+  WHERE product_variants.id = requested.variant_id;
+
+  INSERT INTO orders (
+    user_id, status, subtotal, discount_total, tax_amount,
+    shipping_cost, shipping_method, total, promo_code, customer_email,
+    tax_inclusive, shipping_address, billing_address
+  ) VALUES (
+    v_user_id,
+    'pending',
+    (p_order->>'subtotal')::NUMERIC,
+    (p_order->>'discount_total')::NUMERIC,
+    (p_order->>'tax_amount')::NUMERIC,
+    (p_order->>'shipping_cost')::NUMERIC,
+    p_order->>'shipping_method',
+    (p_order->>'total')::NUMERIC,
+    p_order->>'promo_code',
+    p_customer_email,
+    COALESCE((p_order->>'tax_inclusive')::BOOLEAN, FALSE),
+    NULLIF(p_order->'shipping_address', 'null'::JSONB),
+    NULLIF(p_order->'billing_address', 'null'::JSONB)
+  )
+  RETURNING id INTO v_order_id;
+
+  INSERT INTO order_status_history (
+    order_id, from_status, to_status, changed_by, changed_by_email
+  ) VALUES (
+    v_order_id, NULL, 'pending', v_user_id, p_customer_email
+  );
+
+  INSERT INTO order_items (
+    order_id, product_id, variant_id, product_name, quantity, unit_price,
+    discount_amount, line_total, tax_class, tax_amount, variant_options
+  )
+  SELECT
+    v_order_id,
+    (item->>'product_id')::UUID,
+    (item->>'variant_id')::UUID,
+    item->>'product_name',
+    (item->>'quantity')::INTEGER,
+    (item->>'unit_price')::NUMERIC,
+    (item->>'discount_amount')::NUMERIC,
+    (item->>'line_total')::NUMERIC,
+    COALESCE(item->>'tax_class', 'standard'),
+    COALESCE((item->>'tax_amount')::NUMERIC, 0),
+    NULLIF(item->'variant_options', 'null'::JSONB)
+  FROM jsonb_array_elements(p_items) AS item;
+
+  IF v_promo_id IS NOT NULL THEN
+    INSERT INTO promo_code_redemptions (promo_code_id, user_id, order_id)
+    VALUES (v_promo_id, v_user_id, v_order_id);
+  END IF;
+
+  RETURN jsonb_build_object('order_id', v_order_id);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION place_order(UUID, TEXT, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION place_order(UUID, TEXT, JSONB, JSONB) TO service_role;
+
+-- Move an order from one status to another and record who did it.
+-- Which transitions are legal is decided by the app (lib/order-status.ts);
+-- this only applies the change if the order is still in p_from_status, so
+-- two people updating the same order can't both win.
+-- Returns { updated: true } or { updated: false, current_status }.
+CREATE OR REPLACE FUNCTION set_order_status(
+  p_order_id UUID,
+  p_from_status TEXT,
+  p_to_status TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_current TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = v_user_id AND role IN ('admin', 'staff')
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to update orders' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT status INTO v_current
+  FROM orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF v_current IS DISTINCT FROM p_from_status THEN
+    RETURN jsonb_build_object('updated', false, 'current_status', v_current);
+  END IF;
+
+  UPDATE orders
+  SET status = p_to_status, updated_at = NOW()
+  WHERE id = p_order_id;
+
+  INSERT INTO order_status_history (
+    order_id, from_status, to_status, changed_by, changed_by_email, note
+  ) VALUES (
+    p_order_id, p_from_status, p_to_status, v_user_id,
+    auth.jwt() ->> 'email', NULLIF(TRIM(p_note), '')
+  );
+
+  RETURN jsonb_build_object('updated', true);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION set_order_status(UUID, TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION set_order_status(UUID, TEXT, TEXT, TEXT) TO authenticated;
+
+-- Write a refund and its per-item amounts (p_refund as built by
+-- lib/refunds.ts), made by p_actor. Internal: only called by
+-- cancel_order/create_refund.
+DROP FUNCTION IF EXISTS insert_refund(UUID, JSONB);
+
+CREATE OR REPLACE FUNCTION insert_refund(
+  p_order_id UUID,
+  p_refund JSONB,
+  p_actor_id UUID,
+  p_actor_email TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_refund_id UUID;
+BEGIN
+  INSERT INTO refunds (
+    order_id, reason, items_amount, tax_amount, shipping_amount, total,
+    created_by, created_by_email
+  ) VALUES (
+    p_order_id,
+    NULLIF(TRIM(p_refund->>'reason'), ''),
+    (p_refund->>'items_amount')::NUMERIC,
+    (p_refund->>'tax_amount')::NUMERIC,
+    (p_refund->>'shipping_amount')::NUMERIC,
+    (p_refund->>'total')::NUMERIC,
+    p_actor_id,
+    p_actor_email
+  )
+  RETURNING id INTO v_refund_id;
+
+  INSERT INTO refund_items (refund_id, order_item_id, quantity, amount)
+  SELECT
+    v_refund_id,
+    (item->>'order_item_id')::UUID,
+    (item->>'quantity')::INTEGER,
+    (item->>'amount')::NUMERIC
+  FROM jsonb_array_elements(p_refund->'items') AS item;
+
+  RETURN v_refund_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION insert_refund(UUID, JSONB, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Cancel an order that hasn't shipped: puts its stock back (variant stock
+-- for variant lines; the sync trigger updates products.stock), reverses
+-- its promo code redemption, records the status change and writes a full
+-- refund (p_refund is NULL when nothing was paid, e.g. a declined
+-- payment). p_actor must be the order's customer or an admin/staff member.
+-- Like set_order_status, only applies if the order is still in
+-- p_from_status, and never once it has shipped. Returns
+-- { cancelled: true, refund_id } or { cancelled: false, current_status }.
+--
+-- The refund is written as given, so this is only callable with the service
+-- role: the app calculates it (services/order-service.ts) after checking
+-- who's asking.
+DROP FUNCTION IF EXISTS cancel_order(UUID, TEXT, JSONB, TEXT);
+
+CREATE OR REPLACE FUNCTION cancel_order(
+  p_order_id UUID,
+  p_from_status TEXT,
+  p_refund JSONB,
+  p_note TEXT,
+  p_actor_id UUID,
+  p_actor_email TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := p_actor_id;
+  v_order orders%ROWTYPE;
+  v_promo_id UUID;
+  v_refund_id UUID;
+BEGIN
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF v_order.id IS NULL OR (
+    v_order.user_id IS DISTINCT FROM v_user_id
+    AND NOT EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = v_user_id AND role IN ('admin', 'staff')
+    )
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to cancel this order' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_order.status IS DISTINCT FROM p_from_status
+     OR v_order.status NOT IN ('pending', 'confirmed', 'processing') THEN
+    RETURN jsonb_build_object('cancelled', false, 'current_status', v_order.status);
+  END IF;
+
+  UPDATE products
+  SET stock = products.stock + restock.quantity
+  FROM (
+    SELECT product_id, SUM(quantity) AS quantity
+    FROM order_items
+    WHERE order_id = p_order_id AND variant_id IS NULL
+    GROUP BY product_id
+  ) AS restock
+  WHERE products.id = restock.product_id;
+
+  UPDATE product_variants
+  SET stock = product_variants.stock + restock.quantity
+  FROM (
+    SELECT variant_id, SUM(quantity) AS quantity
+    FROM order_items
+    WHERE order_id = p_order_id AND variant_id IS NOT NULL
+    GROUP BY variant_id
+  ) AS restock
+  WHERE product_variants.id = restock.variant_id;
+
+  DELETE FROM promo_code_redemptions
+  WHERE order_id = p_order_id
+  RETURNING promo_code_id INTO v_promo_id;
+
+  IF v_promo_id IS NOT NULL THEN
+    UPDATE promo_codes
+    SET current_uses = GREATEST(current_uses - 1, 0)
+    WHERE id = v_promo_id;
+  END IF;
+
+  UPDATE orders
+  SET status = 'cancelled', updated_at = NOW()
+  WHERE id = p_order_id;
+
+  INSERT INTO order_status_history (
+    order_id, from_status, to_status, changed_by, changed_by_email, note
+  ) VALUES (
+    p_order_id, p_from_status, 'cancelled', v_user_id,
+    p_actor_email, NULLIF(TRIM(p_note), '')
+  );
+
+  IF p_refund IS NOT NULL THEN
+    v_refund_id := insert_refund(p_order_id, p_refund, p_actor_id, p_actor_email);
+  END IF;
+
+  RETURN jsonb_build_object('cancelled', true, 'refund_id', v_refund_id);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION cancel_order(UUID, TEXT, JSONB, TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION cancel_order(UUID, TEXT, JSONB, TEXT, UUID, TEXT) TO service_role;
+
+-- Refund some or all of a shipped/delivered order (admins/staff only).
+-- Rejects lines that would refund more units than were ordered (counting
+-- earlier refunds) and refunds that would exceed the order total.
+-- Returns { refund_id }, { not_refundable: true, current_status },
+-- { over_refunded: [order_item_id, ...] } or { exceeds_total: true }.
+CREATE OR REPLACE FUNCTION create_refund(p_order_id UUID, p_refund JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_over UUID[];
+  v_refunded NUMERIC;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid() AND role IN ('admin', 'staff')
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to refund orders' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF v_order.status IS NULL OR v_order.status NOT IN ('shipped', 'delivered') THEN
+    RETURN jsonb_build_object('not_refundable', true, 'current_status', v_order.status);
+  END IF;
+
+  WITH requested AS (
+    SELECT (item->>'order_item_id')::UUID AS order_item_id,
+           SUM((item->>'quantity')::INTEGER) AS quantity
+    FROM jsonb_array_elements(p_refund->'items') AS item
+    GROUP BY 1
+  ),
+  refunded AS (
+    SELECT refund_items.order_item_id, SUM(refund_items.quantity) AS quantity
+    FROM refund_items
+    JOIN refunds ON refunds.id = refund_items.refund_id
+    WHERE refunds.order_id = p_order_id
+    GROUP BY 1
+  )
+  SELECT COALESCE(array_agg(requested.order_item_id), '{}')
+  INTO v_over
+  FROM requested
+  LEFT JOIN order_items
+    ON order_items.id = requested.order_item_id
+   AND order_items.order_id = p_order_id
+  LEFT JOIN refunded ON refunded.order_item_id = requested.order_item_id
+  WHERE order_items.id IS NULL
+     OR COALESCE(refunded.quantity, 0) + requested.quantity > order_items.quantity;
+
+  IF array_length(v_over, 1) > 0 THEN
+    RETURN jsonb_build_object('over_refunded', to_jsonb(v_over));
+  END IF;
+
+  SELECT COALESCE(SUM(total), 0) INTO v_refunded
+  FROM refunds
+  WHERE order_id = p_order_id;
+
+  IF v_refunded + (p_refund->>'total')::NUMERIC > v_order.total THEN
+    RETURN jsonb_build_object('exceeds_total', true);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'refund_id',
+    insert_refund(p_order_id, p_refund, auth.uid(), auth.jwt() ->> 'email')
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION create_refund(UUID, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION create_refund(UUID, JSONB) TO authenticated;
+
 -- ============================================
 -- Seed Data
 -- ============================================
@@ -225,3 +2030,150 @@ INSERT INTO products (name, slug, description, price, discount_percentage, stock
     'https://images.unsplash.com/photo-1558618666-fcd25c85f82e?w=600&h=600&fit=crop'
   )
 ON CONFLICT (slug) DO NOTHING;
+
+-- Demo promo codes (previously hardcoded in the pricing engine)
+INSERT INTO promo_codes (code, discount_type, discount_value, min_order_amount, max_uses, max_uses_per_customer, current_uses) VALUES
+  ('SAVE10', 'percentage', 10, 50, NULL, NULL, 0),
+  ('FLAT20', 'fixed', 20, 100, 100, NULL, 12),
+  ('WELCOME15', 'percentage', 15, NULL, NULL, 1, 0)
+ON CONFLICT (code) DO NOTHING;
+
+-- Store settings (seeded from neto-theme-simulator/config/settings.json → pricing)
+INSERT INTO store_settings (
+  bulk_discount_enabled, bulk_discount_threshold, bulk_discount_percentage,
+  member_discount_enabled, member_discount_percentage,
+  free_shipping_enabled, free_shipping_threshold, standard_shipping_cost,
+  tax_rate, tax_inclusive, currency, currency_symbol
+) VALUES (
+  TRUE, 3, 10,
+  TRUE, 5,
+  TRUE, 1000, 15,
+  10, FALSE, 'AUD', '$'
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Demo exchange rates (per 1 AUD), maintained from /admin/exchange-rates
+INSERT INTO exchange_rates (currency, rate) VALUES
+  ('USD', 0.66),
+  ('NZD', 1.09),
+  ('EUR', 0.61),
+  ('GBP', 0.52)
+ON CONFLICT (currency) DO NOTHING;
+
+-- Basic food is GST-free in Australia
+INSERT INTO category_tax_classes (category, tax_class) VALUES
+  ('food', 'gst_free')
+ON CONFLICT (category) DO NOTHING;
+
+-- Demo quantity breaks: accessories sell in volume, the cable kit has its own
+-- breaks, and other categories fall back to the global bulk rule
+INSERT INTO quantity_breaks (category, min_quantity, discount_percentage) VALUES
+  ('accessories', 5, 5),
+  ('accessories', 20, 12),
+  ('accessories', 100, 20)
+ON CONFLICT (category, min_quantity) DO NOTHING;
+
+INSERT INTO quantity_breaks (product_id, min_quantity, discount_percentage)
+SELECT id, tier.min_quantity, tier.discount_percentage
+FROM products, (VALUES (10, 10), (50, 15), (200, 25)) AS tier(min_quantity, discount_percentage)
+WHERE slug = 'cable-management-kit'
+ON CONFLICT (product_id, min_quantity) DO NOTHING;
+
+-- Customer groups (Retail matches the default member discount in settings.json)
+INSERT INTO customer_groups (id, name, discount_percentage) VALUES
+  ('retail', 'Retail', 5),
+  ('wholesale', 'Wholesale', 15),
+  ('vip', 'VIP', 10),
+  ('staff', 'Staff', 25)
+ON CONFLICT (id) DO NOTHING;
+
+-- Profiles for users who signed up before the trigger existed
+INSERT INTO profiles (id)
+SELECT id FROM auth.users
+ON CONFLICT (id) DO NOTHING;
+
+-- Demo wholesale price list
+INSERT INTO product_group_prices (product_id, customer_group, price)
+SELECT id, 'wholesale', tier.price
+FROM products
+JOIN (VALUES
+  ('standing-desk-electric', 599.00),
+  ('ergonomic-office-chair', 379.00)
+) AS tier(slug, price) USING (slug)
+ON CONFLICT (product_id, customer_group) DO NOTHING;
+
+-- Demo variants (products.stock is recalculated from these by the trigger)
+INSERT INTO product_variants (product_id, sku, name, options, price_modifier, stock)
+SELECT products.id, v.sku, v.name, v.options::JSONB, v.price_modifier, v.stock
+FROM products
+JOIN (VALUES
+  ('ergonomic-office-chair', 'CHAIR-BLK', 'Black', '{"color": "Black"}', 0, 8),
+  ('ergonomic-office-chair', 'CHAIR-GRY', 'Grey', '{"color": "Grey"}', 0, 5),
+  ('ergonomic-office-chair', 'CHAIR-WHT', 'White', '{"color": "White"}', 30, 2),
+  ('laptop-backpack-pro', 'BAG-15-BLK', '15 inch / Black', '{"size": "15 inch", "color": "Black"}', 0, 12),
+  ('laptop-backpack-pro', 'BAG-15-NVY', '15 inch / Navy', '{"size": "15 inch", "color": "Navy"}', 0, 6),
+  ('laptop-backpack-pro', 'BAG-17-BLK', '17 inch / Black', '{"size": "17 inch", "color": "Black"}', 20, 7)
+) AS v(slug, sku, name, options, price_modifier, stock) USING (slug)
+ON CONFLICT (sku) DO NOTHING;
+
+-- Demo shipping weights (kg)
+UPDATE products
+SET weight_kg = w.weight_kg
+FROM (VALUES
+  ('premium-wireless-headphones', 0.6),
+  ('mechanical-keyboard-rgb', 1.2),
+  ('ultra-wide-monitor-34', 9.5),
+  ('ergonomic-office-chair', 18),
+  ('standing-desk-electric', 32),
+  ('laptop-backpack-pro', 1.1),
+  ('wireless-mouse-ergonomic', 0.2),
+  ('usb-c-hub-12-in-1', 0.3),
+  ('smart-home-speaker', 1.5),
+  ('designer-desk-lamp', 2.4),
+  ('professional-webcam-4k', 0.4),
+  ('cable-management-kit', 0.5)
+) AS w(slug, weight_kg)
+WHERE products.slug = w.slug AND products.weight_kg = 0;
+
+-- Demo shipping zones: metro areas are cheaper (and Sydney has store
+-- pickup), the rest of Australia falls back to the country-wide zone, and NZ
+-- is charged per item
+INSERT INTO shipping_zones (name, country, postcode_from, postcode_to, sort_order) VALUES
+  ('Sydney Metro', 'AU', 2000, 2234, 0),
+  ('Melbourne Metro', 'AU', 3000, 3207, 0),
+  ('Northern Territory', 'AU', 800, 899, 0),
+  ('Australia', 'AU', NULL, NULL, 0),
+  ('New Zealand', 'NZ', NULL, NULL, 0)
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO shipping_rates (zone_id, method, basis, min_value, max_value, cost, estimated_days)
+SELECT shipping_zones.id, r.method, r.basis, r.min_value, r.max_value, r.cost, r.estimated_days
+FROM shipping_zones
+JOIN (VALUES
+  ('Sydney Metro', 'pickup', 'items', 0, NULL, 0, 'Ready next business day'),
+  ('Sydney Metro', 'standard', 'weight', 0, 5, 9.95, '1-2 business days'),
+  ('Sydney Metro', 'standard', 'weight', 5, 20, 14.95, '1-2 business days'),
+  ('Sydney Metro', 'standard', 'weight', 20, NULL, 29.95, '2-3 business days'),
+  ('Sydney Metro', 'express', 'weight', 0, 5, 14.95, 'Next business day'),
+  ('Sydney Metro', 'express', 'weight', 5, 20, 24.95, 'Next business day'),
+  ('Melbourne Metro', 'standard', 'weight', 0, 5, 9.95, '1-3 business days'),
+  ('Melbourne Metro', 'standard', 'weight', 5, 20, 14.95, '1-3 business days'),
+  ('Melbourne Metro', 'standard', 'weight', 20, NULL, 29.95, '2-4 business days'),
+  ('Melbourne Metro', 'express', 'weight', 0, 5, 14.95, 'Next business day'),
+  ('Melbourne Metro', 'express', 'weight', 5, 20, 24.95, 'Next business day'),
+  ('Northern Territory', 'standard', 'weight', 0, 5, 19.95, '5-8 business days'),
+  ('Northern Territory', 'standard', 'weight', 5, 20, 34.95, '5-8 business days'),
+  ('Northern Territory', 'standard', 'weight', 20, NULL, 69.95, '7-10 business days'),
+  ('Australia', 'standard', 'weight', 0, 5, 15, '2-5 business days'),
+  ('Australia', 'standard', 'weight', 5, 20, 24.95, '2-5 business days'),
+  ('Australia', 'standard', 'weight', 20, NULL, 49.95, '3-7 business days'),
+  ('Australia', 'express', 'weight', 0, 5, 24.95, '1-2 business days'),
+  ('Australia', 'express', 'weight', 5, 20, 39.95, '1-2 business days'),
+  ('New Zealand', 'standard', 'items', 0, 3, 25, '5-10 business days'),
+  ('New Zealand', 'standard', 'items', 3, 6, 40, '5-10 business days'),
+  ('New Zealand', 'standard', 'items', 6, NULL, 60, '5-10 business days'),
+  ('New Zealand', 'express', 'items', 0, 3, 45, '3-5 business days'),
+  ('New Zealand', 'express', 'items', 3, NULL, 75, '3-5 business days')
+) AS r(zone_name, method, basis, min_value, max_value, cost, estimated_days)
+  ON shipping_zones.name = r.zone_name
+ON CONFLICT (zone_id, method, min_value) DO NOTHING;